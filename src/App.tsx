@@ -4,11 +4,18 @@ import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
 import Navigation from './components/Navigation';
 import CustomerList from './components/CustomerList';
+import CustomerDetail from './components/CustomerDetail';
+import DuplicateCustomers from './components/DuplicateCustomers';
 import TrainingList from './components/TrainingList';
 import TrainingCalendar from './components/Calendar';
 import Statistics from './components/Statistics';
+import ReEngagement from './components/ReEngagement';
+import PendingChanges from './components/PendingChanges';
+import RetryStatus from './components/RetryStatus';
+import QuarantinePanel from './components/QuarantinePanel';
 import ErrorBoundary from './components/ErrorBoundary';
 import { NotificationProvider } from './context/NotificationContext';
+import { DataStoreProvider } from './context/DataStoreContext';
 import './App.css';
 
 function App() {
@@ -22,52 +29,60 @@ function App() {
       <CssBaseline />
       <LocalizationProvider dateAdapter={AdapterDayjs}>
         <NotificationProvider>
-          <ErrorBoundary>
-            <Box 
-              sx={{ 
-                display: 'flex', 
-                flexDirection: 'column', 
-                minHeight: '100vh', 
-                width: '100%'
-              }}
-            >
-              <Navigation />
-              <Container 
-                component="main" 
-                sx={{ 
-                  mt: 4, 
-                  mb: 4, 
-                  flexGrow: 1, 
-                  maxWidth: '100% !important', 
-                  px: 2
-                }}
-              >
-                <Routes>
-                  <Route path="/" element={<CustomerList />} />
-                  <Route path="/trainings" element={<TrainingList />} />
-                  <Route path="/calendar" element={<TrainingCalendar />} />
-                  <Route path="/statistics" element={<Statistics />} />
-                </Routes>
-              </Container>
+          <DataStoreProvider>
+            <ErrorBoundary>
               <Box 
-                component="footer" 
                 sx={{ 
-                  py: 3, 
-                  px: 2, 
-                  mt: 'auto', 
-                  backgroundColor: (theme) => theme.palette.grey[200]
+                  display: 'flex', 
+                  flexDirection: 'column', 
+                  minHeight: '100vh', 
+                  width: '100%'
                 }}
               >
-                <Container maxWidth="xl">
-                  <Box textAlign="center">
-                    <Typography variant="body2" color="textSecondary">
-                      © {new Date().getFullYear()} Personal Trainer App
-                    </Typography>
-                  </Box>
+                <Navigation />
+                <RetryStatus />
+                <Container 
+                  component="main" 
+                  sx={{ 
+                    mt: 4, 
+                    mb: 4, 
+                    flexGrow: 1, 
+                    maxWidth: '100% !important', 
+                    px: 2
+                  }}
+                >
+                  <Routes>
+                    <Route path="/" element={<CustomerList />} />
+                    <Route path="/customers/:id" element={<CustomerDetail />} />
+                    <Route path="/duplicates" element={<DuplicateCustomers />} />
+                    <Route path="/trainings" element={<TrainingList />} />
+                    <Route path="/calendar" element={<TrainingCalendar />} />
+                    <Route path="/statistics" element={<Statistics />} />
+                    <Route path="/engagement" element={<ReEngagement />} />
+                    <Route path="/sync" element={<PendingChanges />} />
+                  </Routes>
                 </Container>
+                <Box 
+                  component="footer" 
+                  sx={{ 
+                    py: 3, 
+                    px: 2, 
+                    mt: 'auto', 
+                    backgroundColor: (theme) => theme.palette.grey[200]
+                  }}
+                >
+                  <Container maxWidth="xl">
+                    <Box textAlign="center">
+                      <Typography variant="body2" color="textSecondary">
+                        © {new Date().getFullYear()} Personal Trainer App
+                      </Typography>
+                    </Box>
+                  </Container>
+                </Box>
+                {import.meta.env.DEV && <QuarantinePanel />}
               </Box>
-            </Box>
-          </ErrorBoundary>
+            </ErrorBoundary>
+          </DataStoreProvider>
         </NotificationProvider>
       </LocalizationProvider>
     </Router>
@@ -0,0 +1,113 @@
+import { useState, useEffect, FC } from 'react';
+import {
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Button,
+  MenuItem,
+  Stack,
+  Typography,
+} from '@mui/material';
+import {
+  API_PROFILES,
+  ApiProfile,
+  getApiConfig,
+  saveApiSettings,
+  clearApiSettings,
+} from '../config/apiConfig';
+
+interface ApiSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Lets the user point the running app at another backend profile or URL
+ */
+const ApiSettingsDialog: FC<ApiSettingsDialogProps> = ({ open, onClose }) => {
+  const [profile, setProfile] = useState<ApiProfile>(getApiConfig().profile);
+  const [baseUrl, setBaseUrl] = useState('');
+
+  // Start from the configuration in effect every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      const config = getApiConfig();
+      setProfile(config.profile);
+      setBaseUrl(config.useMock ? '' : config.baseUrl);
+    }
+  }, [open]);
+
+  const isMock = profile === 'mock';
+
+  /**
+   * Persist the override and reload so every view refetches from the new backend
+   */
+  const handleSave = () => {
+    const trimmedUrl = baseUrl.trim();
+    saveApiSettings({
+      profile,
+      baseUrl: !isMock && trimmedUrl && trimmedUrl !== API_PROFILES[profile].baseUrl ? trimmedUrl : undefined,
+    });
+    window.location.reload();
+  };
+
+  const handleReset = () => {
+    clearApiSettings();
+    window.location.reload();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>API Settings</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            select
+            label="Profile"
+            value={profile}
+            onChange={(e) => {
+              const nextProfile = e.target.value as ApiProfile;
+              setProfile(nextProfile);
+              setBaseUrl(nextProfile === 'mock' ? '' : API_PROFILES[nextProfile].baseUrl);
+            }}
+            fullWidth
+          >
+            {(Object.keys(API_PROFILES) as ApiProfile[]).map((key) => (
+              <MenuItem key={key} value={key}>
+                {API_PROFILES[key].label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            label="Base URL"
+            value={isMock ? API_PROFILES.mock.baseUrl : baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+            disabled={isMock}
+            fullWidth
+            helperText={isMock
+              ? 'The mock backend runs in the browser and needs no network'
+              : 'Leave as is to use the profile default'}
+          />
+          <Typography variant="caption" color="text.secondary">
+            Settings are stored in this browser and applied after the page reloads.
+          </Typography>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleReset} color="inherit">
+          Reset to Defaults
+        </Button>
+        <Button onClick={onClose} color="primary">
+          Cancel
+        </Button>
+        <Button onClick={handleSave} color="primary" variant="contained">
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ApiSettingsDialog;
@@ -0,0 +1,247 @@
+import { useState, useMemo } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  MenuItem,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import dayjs from 'dayjs';
+import { BodyMeasurement, BodyMeasurementInput, Customer, Training } from '../types';
+import { deleteMeasurement, saveMeasurement } from '../services/measurements';
+import { getErrorMessage } from '../services/errors';
+import { formatDay } from '../utils/dateUtils';
+import {
+  customMetricNames,
+  measurementCsv,
+  measurementTimeline,
+  metricLabel,
+  recordedMetrics,
+} from '../utils/measurements';
+import { useMeasurements } from '../hooks/useMeasurements';
+import { useNotification } from '../context/NotificationContext';
+import { LoadError, EmptyState } from './DataState';
+import ConfirmationDialog from './ConfirmationDialog';
+import ExportCsvButton from './ExportCsvButton';
+import MeasurementFormDialog from './MeasurementFormDialog';
+
+// Half a week either side keeps the first and last week's bars inside the chart
+const AXIS_PADDING_MS = 3.5 * 24 * 60 * 60 * 1000;
+
+interface BodyMeasurementsProps {
+  customer: Customer;
+  trainings: Training[];
+}
+
+/**
+ * A customer's measurement history: one metric charted against their weekly
+ * training minutes, every session in a table, and a CSV export
+ */
+const BodyMeasurements = ({ customer, trainings }: BodyMeasurementsProps) => {
+  const { measurements, isLoading, error, reload } = useMeasurements(customer.id);
+  const { showNotification } = useNotification();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<BodyMeasurement | null>(null);
+  const [deleting, setDeleting] = useState<BodyMeasurement | null>(null);
+  const [chosenMetric, setChosenMetric] = useState('');
+
+  const metrics = useMemo(() => recordedMetrics(measurements), [measurements]);
+  // The chosen metric, until its last value is deleted
+  const metric = metrics.find(({ key }) => key === chosenMetric) ?? metrics[0];
+  const timeline = useMemo(
+    () => (metric ? measurementTimeline(measurements, trainings, metric.key) : []),
+    [measurements, trainings, metric]
+  );
+  const newestFirst = useMemo(() => [...measurements].reverse(), [measurements]);
+
+  const openForm = (measurement: BodyMeasurement | null) => {
+    setEditing(measurement);
+    setFormOpen(true);
+  };
+
+  const handleSave = async (input: BodyMeasurementInput) => {
+    try {
+      await saveMeasurement(customer.id, input, editing ?? undefined);
+      setFormOpen(false);
+    } catch (saveError) {
+      console.error('Error saving measurement:', saveError);
+      showNotification(`Could not save the measurement. ${getErrorMessage(saveError)}`, 'error');
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    const measurement = deleting;
+    setDeleting(null);
+    if (!measurement) return;
+    try {
+      await deleteMeasurement(measurement);
+    } catch (deleteError) {
+      console.error('Error deleting measurement:', deleteError);
+      showNotification(`Could not delete the measurement. ${getErrorMessage(deleteError)}`, 'error');
+    }
+  };
+
+  return (
+    <Box sx={{ mt: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h6">Body Measurements</Typography>
+        <Stack direction="row" spacing={1}>
+          {measurements.length > 0 && (
+            <ExportCsvButton
+              filename={`measurements-${customer.lastname}-${customer.firstname}.csv`.toLowerCase()}
+              headers={measurementCsv(measurements).headers}
+              loadData={async () => measurementCsv(measurements).rows}
+            />
+          )}
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => openForm(null)}>
+            Add Measurement
+          </Button>
+        </Stack>
+      </Box>
+
+      {error ? (
+        <LoadError title="Could not load measurements" error={error} onRetry={reload} />
+      ) : isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : !metric ? (
+        <EmptyState message="No measurements recorded yet. Weight, body fat and circumferences will be charted here." />
+      ) : (
+        <>
+          <TextField
+            select
+            size="small"
+            label="Metric"
+            value={metric.key}
+            onChange={event => setChosenMetric(event.target.value)}
+            sx={{ minWidth: 200, mb: 1 }}
+          >
+            {metrics.map(option => (
+              <MenuItem key={option.key} value={option.key}>{metricLabel(option)}</MenuItem>
+            ))}
+          </TextField>
+          <Box sx={{ height: 320, width: '100%' }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={timeline} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={[
+                    (dataMin: number) => dataMin - AXIS_PADDING_MS,
+                    (dataMax: number) => dataMax + AXIS_PADDING_MS,
+                  ]}
+                  tickFormatter={(time: number) => dayjs(time).format('DD.MM.YY')}
+                />
+                <YAxis yAxisId="value" domain={['auto', 'auto']} />
+                <YAxis
+                  yAxisId="minutes"
+                  orientation="right"
+                  label={{ value: 'Minutes per week', angle: 90, position: 'insideRight' }}
+                />
+                <Tooltip
+                  labelFormatter={(time: number) => dayjs(time).format('DD.MM.YYYY')}
+                  formatter={(value, name, item) => [
+                    item.dataKey === 'minutes' ? `${value} min` : `${value} ${metric.unit}`.trim(),
+                    name,
+                  ]}
+                />
+                <Legend />
+                <Bar
+                  yAxisId="minutes"
+                  dataKey="minutes"
+                  name="Training minutes (week)"
+                  fill="#8884d8"
+                  fillOpacity={0.5}
+                  barSize={12}
+                />
+                <Line
+                  yAxisId="value"
+                  type="monotone"
+                  dataKey="value"
+                  name={metricLabel(metric)}
+                  stroke="#f44336"
+                  strokeWidth={2}
+                  connectNulls
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </Box>
+
+          <Table size="small" sx={{ mt: 2 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Date</TableCell>
+                {metrics.map(column => (
+                  <TableCell key={column.key} align="right">{metricLabel(column)}</TableCell>
+                ))}
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {newestFirst.map(measurement => (
+                <TableRow key={measurement.id} hover>
+                  <TableCell>{formatDay(measurement.date)}</TableCell>
+                  {metrics.map(column => (
+                    <TableCell key={column.key} align="right">{measurement.values[column.key] ?? '-'}</TableCell>
+                  ))}
+                  <TableCell align="right">
+                    <Stack direction="row" spacing={1} justifyContent="flex-end">
+                      <Button size="small" startIcon={<EditIcon />} onClick={() => openForm(measurement)}>
+                        Edit
+                      </Button>
+                      <Button size="small" color="error" startIcon={<DeleteIcon />} onClick={() => setDeleting(measurement)}>
+                        Delete
+                      </Button>
+                    </Stack>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+
+      <MeasurementFormDialog
+        open={formOpen}
+        measurement={editing}
+        customNames={customMetricNames(measurements)}
+        onSave={handleSave}
+        onCancel={() => setFormOpen(false)}
+      />
+
+      <ConfirmationDialog
+        open={deleting !== null}
+        title="Delete Measurement"
+        message={deleting ? `Are you sure you want to delete the measurement of ${formatDay(deleting.date)}?` : ''}
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleting(null)}
+      />
+    </Box>
+  );
+};
+
+export default BodyMeasurements;
@@ -1,12 +1,14 @@
-import { useState, useEffect, useCallback, useRef, FC, useMemo } from 'react';
-import { Paper, Typography, Box, ToggleButtonGroup, ToggleButton, CircularProgress } from '@mui/material';
+import { useState, useEffect, useRef, FC, useMemo } from 'react';
+import { Paper, Typography, Box, ToggleButtonGroup, ToggleButton, CircularProgress, Alert } from '@mui/material';
 import FullCalendar from '@fullcalendar/react';
 import dayGridPlugin from '@fullcalendar/daygrid';
 import timeGridPlugin from '@fullcalendar/timegrid';
 import interactionPlugin from '@fullcalendar/interaction';
 import { EventInput } from '@fullcalendar/core';
-import { getTrainings, extractIdFromUrl, API_BASE_URL } from '../services/api';
-import { Training } from '../types';
+import { useTrainingsWithCustomers } from '../context/DataStoreContext';
+import { LoadError } from './DataState';
+import SegmentSelect from './SegmentSelect';
+import { useSegmentSelection } from '../hooks/useTags';
 
 // Type definitions
 type CalendarViewType = 'dayGridMonth' | 'timeGridWeek' | 'timeGridDay';
@@ -60,39 +62,31 @@ const ViewSelector: FC<{
  */
 const TrainingCalendar: FC = () => {
   // State
-  const [trainings, setTrainings] = useState<Training[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const { trainings: allTrainings, isLoading, error: loadError, reload } = useTrainingsWithCustomers();
   const [calendarView, setCalendarView] = useState<CalendarViewType>('dayGridMonth');
+  const [segmentId, setSegmentId] = useState('');
+  const { customerIds: segmentIds } = useSegmentSelection(segmentId);
+
+  // Only the trainings of the chosen segment's customers
+  const trainings = useMemo(
+    () => (segmentIds
+      ? allTrainings.filter(training => training.customer && segmentIds.has(training.customer.id))
+      : allTrainings),
+    [allTrainings, segmentIds]
+  );
   
   // Refs
   const calendarRef = useRef<FullCalendar | null>(null);
 
-  /**
-   * Fetch trainings from API
-   */
-  const fetchTrainings = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const data = await getTrainings();
-      setTrainings(data);
-    } catch (error) {
-      // Error handling is silent but we log in the API service
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
-  // Initial data load and periodic refresh
+  // Periodic refresh; the shared store handles the initial load
   useEffect(() => {
-    fetchTrainings();
-    
     // Re-fetch trainings periodically to ensure they stay updated
     const intervalId = setInterval(() => {
-      fetchTrainings();
+      reload();
     }, 60000); // Refresh every minute
     
     return () => clearInterval(intervalId); // Clean up on unmount
-  }, [fetchTrainings]);
+  }, [reload]);
 
   // Update calendar view when calendarView state changes
   useEffect(() => {
@@ -120,34 +114,13 @@ const TrainingCalendar: FC = () => {
           ? `${training.customer.firstname} ${training.customer.lastname}`
           : 'No Customer';
         
-        // Generate a unique ID
-        let eventId: string;
-        
-        if (training.id) {
-          eventId = training.id.toString();
-          
-          // If we have an ID but no links, create synthetic links
-          if (!training.links?.self?.href) {
-            training.links = {
-              self: { href: `${API_BASE_URL}/trainings/${training.id}` },
-              training: { href: `${API_BASE_URL}/trainings/${training.id}` },
-              customer: { href: training.customer?.id ? `${API_BASE_URL}/customers/${training.customer.id}` : '' }
-            };
-          }
-        } else if (training.links?.self?.href) {
-          eventId = extractIdFromUrl(training.links.self.href) || '';
-        } else {
-          // Last resort - generate a random ID
-          eventId = `training-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-        }
-        
         // Parse the date safely
         const startDate = new Date(training.date);
         // Calculate end time (duration in minutes)
         const endDate = new Date(startDate.getTime() + (training.duration || 60) * 60000);
         
         return {
-          id: eventId,
+          id: String(training.id),
           title: `${training.activity} - ${customerName}`,
           start: startDate.toISOString(),
           end: endDate.toISOString(),
@@ -184,9 +157,22 @@ const TrainingCalendar: FC = () => {
         <Typography variant="h4" gutterBottom>
           Training Calendar
         </Typography>
-        <ViewSelector view={calendarView} onChange={handleViewChange} />
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+          <SegmentSelect value={segmentId} onChange={setSegmentId} />
+          <ViewSelector view={calendarView} onChange={handleViewChange} />
+        </Box>
       </Box>
 
+      {loadError ? (
+        <Box sx={{ mb: 2 }}>
+          <LoadError title="Could not load trainings" error={loadError} onRetry={reload} />
+        </Box>
+      ) : !isLoading && trainings.length === 0 && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {segmentIds ? 'No trainings for the customers in this segment.' : 'No trainings scheduled yet.'}
+        </Alert>
+      )}
+
       {isLoading && (
         <Box 
           sx={{
@@ -0,0 +1,80 @@
+import {
+  Alert,
+  Box,
+  Chip,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { EditConflict, FieldSpec, changedFields, isSameValue } from '../services/conflicts';
+
+interface ConflictFieldsProps<T> {
+  fields: FieldSpec<T>[];
+  conflict: EditConflict<T>;
+  // Values currently in the form, to show which side each field is taken from
+  current: T;
+  onPick: (name: keyof T & string, value: T[keyof T]) => void;
+  format?: (name: keyof T & string, value: T[keyof T]) => string;
+}
+
+const defaultFormat = (_name: string, value: unknown) =>
+  value === '' || value === null || value === undefined ? '(empty)' : String(value);
+
+/**
+ * Field-by-field diff between the user's edit and the server's copy of a
+ * record. Each differing field can be taken from either side; the form
+ * below it holds the merged result.
+ */
+const ConflictFields = <T,>({ fields, conflict, current, onPick, format = defaultFormat }: ConflictFieldsProps<T>) => {
+  const differing = changedFields(fields, conflict.mine, conflict.theirs);
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Alert severity="warning" sx={{ mb: 2 }}>
+        Someone else saved changes to this record while you were editing it.
+        Choose which value to keep for each field, then save the merged version.
+      </Alert>
+      <Stack spacing={1.5}>
+        {differing.map(field => {
+          const mine = conflict.mine[field.name];
+          const theirs = conflict.theirs[field.name];
+          const bothChanged =
+            !isSameValue(field, conflict.base, conflict.mine) && !isSameValue(field, conflict.base, conflict.theirs);
+          const picked = isSameValue(field, current, conflict.mine)
+            ? 'mine'
+            : isSameValue(field, current, conflict.theirs) ? 'theirs' : null;
+
+          return (
+            <Box key={field.name}>
+              <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 0.5 }}>
+                <Typography variant="subtitle2">{field.label}</Typography>
+                {bothChanged && <Chip label="Changed by both" size="small" color="warning" />}
+              </Stack>
+              <ToggleButtonGroup
+                exclusive
+                size="small"
+                fullWidth
+                value={picked}
+                onChange={(_event, side: 'mine' | 'theirs' | null) => {
+                  if (side) {
+                    onPick(field.name, side === 'mine' ? mine : theirs);
+                  }
+                }}
+              >
+                <ToggleButton value="mine" sx={{ textTransform: 'none' }}>
+                  Yours: {format(field.name, mine)}
+                </ToggleButton>
+                <ToggleButton value="theirs" sx={{ textTransform: 'none' }}>
+                  Theirs: {format(field.name, theirs)}
+                </ToggleButton>
+              </ToggleButtonGroup>
+            </Box>
+          );
+        })}
+      </Stack>
+    </Box>
+  );
+};
+
+export default ConflictFields;
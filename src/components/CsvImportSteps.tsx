@@ -0,0 +1,134 @@
+import { useState, ChangeEvent, ReactNode } from 'react';
+import { Alert, Button, Grid, MenuItem, Stack, TextField, Typography } from '@mui/material';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import { getErrorMessage } from '../services/api';
+import { ColumnMapping, ParsedCsv, parseCsv } from '../utils/csv';
+import { VCardEntry, looksLikeVCard, parseVCards } from '../utils/vcard';
+
+/**
+ * First step of the import wizards: pick a CSV file and parse it. Files
+ * without data rows are refused here so later steps always have rows.
+ * With onVCards, vCard files are accepted too and read as contacts.
+ */
+export const CsvFileStep = ({
+  description,
+  onLoaded,
+  onVCards,
+}: {
+  description: ReactNode;
+  onLoaded: (fileName: string, csv: ParsedCsv) => void;
+  onVCards?: (fileName: string, entries: VCardEntry[]) => void;
+}) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      const text = await file.text();
+      if (onVCards && (looksLikeVCard(text) || /\.vcf$/i.test(file.name))) {
+        const entries = parseVCards(text);
+        if (entries.length === 0) {
+          setError(`${file.name} has no contacts in it.`);
+          return;
+        }
+        setError(null);
+        onVCards(file.name, entries);
+        return;
+      }
+      const csv = parseCsv(text);
+      if (csv.rows.length === 0) {
+        setError(`${file.name} has no rows below its header line.`);
+        return;
+      }
+      setError(null);
+      onLoaded(file.name, csv);
+    } catch (readError) {
+      setError(`Could not read ${file.name}. ${getErrorMessage(readError)}`);
+    }
+  };
+
+  return (
+    <Stack spacing={2} alignItems="flex-start">
+      <Typography>{description}</Typography>
+      <Button variant="contained" component="label" startIcon={<FileUploadIcon />}>
+        Choose File
+        <input
+          hidden
+          type="file"
+          accept={onVCards ? '.csv,text/csv,.vcf,text/vcard' : '.csv,text/csv'}
+          onChange={handleFileChange}
+        />
+      </Button>
+      {error && <Alert severity="error">{error}</Alert>}
+    </Stack>
+  );
+};
+
+/**
+ * Second step of the import wizards: choose the column each field is read
+ * from, with a sample value from the file to confirm the choice
+ */
+export const ColumnMappingStep = <F extends string>({
+  fields,
+  required,
+  fileName,
+  csv,
+  mapping,
+  onChange,
+}: {
+  fields: { name: F; label: string }[];
+  // Fields every row needs; a warning lists the ones left unmapped
+  required: F[];
+  fileName: string;
+  csv: ParsedCsv;
+  mapping: ColumnMapping<F>;
+  onChange: (mapping: ColumnMapping<F>) => void;
+}) => {
+  const sampleValue = (column: number | null) =>
+    column === null ? '' : csv.rows.find(values => values[column]?.trim())?.[column] ?? '';
+  const unmapped = fields.filter(({ name }) => required.includes(name) && mapping[name] === null);
+
+  return (
+    <>
+      <Typography sx={{ mb: 2 }}>
+        {fileName}: {csv.rows.length} row{csv.rows.length === 1 ? '' : 's'}. Choose the column each field is read from.
+      </Typography>
+      <Grid container spacing={2}>
+        {fields.map(({ name, label }) => (
+          <Grid item xs={12} sm={6} key={name}>
+            <TextField
+              select
+              fullWidth
+              label={label}
+              value={mapping[name] ?? ''}
+              onChange={event => onChange({
+                ...mapping,
+                [name]: event.target.value === '' ? null : Number(event.target.value),
+              })}
+              helperText={sampleValue(mapping[name]) ? `e.g. ${sampleValue(mapping[name])}` : ' '}
+            >
+              <MenuItem value="">
+                <em>Not in file</em>
+              </MenuItem>
+              {csv.headers.map((header, index) => (
+                <MenuItem key={index} value={index}>
+                  {header || `Column ${index + 1}`}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+        ))}
+      </Grid>
+      {unmapped.length > 0 && (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          Rows will fail validation without: {unmapped.map(({ label }) => label).join(', ')}.
+        </Alert>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,220 @@
+import { useState, useMemo } from 'react';
+import { useParams, Link as RouterLink } from 'react-router-dom';
+import {
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Stack,
+  Grid,
+  Link,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import FitnessCenterIcon from '@mui/icons-material/FitnessCenter';
+import LocalOfferIcon from '@mui/icons-material/LocalOffer';
+import { groupBy, sumBy, orderBy } from 'lodash';
+import { NotFoundError } from '../services/api';
+import { formatDate } from '../utils/dateUtils';
+import { useCustomerDetail } from '../context/DataStoreContext';
+import { useTrainingEditor } from '../hooks/useTrainingEditor';
+import { LoadError, EmptyState } from './DataState';
+import { CustomerTagChips, CustomerTagsDialog } from './CustomerTags';
+import BodyMeasurements from './BodyMeasurements';
+
+/**
+ * Small labelled figure used in the summary row
+ */
+const Figure = ({ label, value }: { label: string; value: string | number }) => (
+  <Box>
+    <Typography variant="caption" color="text.secondary">{label}</Typography>
+    <Typography variant="h6">{value}</Typography>
+  </Box>
+);
+
+/**
+ * A single customer's page: contact details, training totals and the full
+ * training history, with trainings editable in place
+ */
+const CustomerDetail = () => {
+  const { id } = useParams();
+  const customerId = Number(id);
+  const { customer, trainings, isLoadingTrainings, error, reload } = useCustomerDetail(customerId);
+  const { openAdd, openEdit, openDelete, dialogs } = useTrainingEditor();
+  const [isTagging, setIsTagging] = useState(false);
+
+  // Newest first, like a logbook
+  const history = useMemo(() => orderBy(trainings, training => new Date(training.date).getTime(), 'desc'), [trainings]);
+
+  const activityTotals = useMemo(() => {
+    const grouped = groupBy(trainings, 'activity');
+    return orderBy(
+      Object.entries(grouped).map(([activity, sessions]) => ({
+        activity,
+        sessions: sessions.length,
+        minutes: sumBy(sessions, 'duration'),
+      })),
+      'minutes',
+      'desc'
+    );
+  }, [trainings]);
+
+  const backLink = (
+    <Button component={RouterLink} to="/" startIcon={<ArrowBackIcon />} sx={{ mb: 2 }}>
+      Customers
+    </Button>
+  );
+
+  if (!customer) {
+    return (
+      <Paper elevation={3} sx={{ p: 3, width: '100%' }}>
+        {backLink}
+        {error instanceof NotFoundError || Number.isNaN(customerId) ? (
+          <EmptyState message="This customer does not exist or has been deleted." />
+        ) : error ? (
+          <LoadError title="Could not load customer" error={error} onRetry={reload} />
+        ) : (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        )}
+      </Paper>
+    );
+  }
+
+  const newest = history[0];
+  const oldest = history[history.length - 1];
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, width: '100%' }}>
+      {backLink}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h4">
+          {customer.firstname} {customer.lastname}
+        </Typography>
+        <Button
+          variant="contained"
+          color="success"
+          startIcon={<FitnessCenterIcon />}
+          onClick={() => openAdd(customer)}
+        >
+          Add Training
+        </Button>
+      </Box>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={4}>
+          <Typography variant="h6" gutterBottom>Contact</Typography>
+          <Typography>{customer.streetaddress}</Typography>
+          <Typography>{[customer.postcode, customer.city].filter(Boolean).join(' ')}</Typography>
+          {customer.email && (
+            <Link href={`mailto:${customer.email}`} display="block" sx={{ mt: 1 }}>{customer.email}</Link>
+          )}
+          {customer.phone && (
+            <Link href={`tel:${customer.phone}`} display="block">{customer.phone}</Link>
+          )}
+          <Stack direction="row" spacing={1} sx={{ mt: 2, alignItems: 'center' }}>
+            <CustomerTagChips customerId={customer.id} />
+            <Button size="small" startIcon={<LocalOfferIcon />} onClick={() => setIsTagging(true)}>
+              Edit Tags
+            </Button>
+          </Stack>
+        </Grid>
+
+        <Grid item xs={12} md={8}>
+          <Typography variant="h6" gutterBottom>Summary</Typography>
+          <Stack direction="row" spacing={4} sx={{ mb: 2, flexWrap: 'wrap' }}>
+            <Figure label="Sessions" value={trainings.length} />
+            <Figure label="Total minutes" value={sumBy(trainings, 'duration')} />
+            <Figure label="First session" value={oldest ? formatDate(oldest.date) : '-'} />
+            <Figure label="Last session" value={newest ? formatDate(newest.date) : '-'} />
+          </Stack>
+          {activityTotals.length > 0 && (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Activity</TableCell>
+                  <TableCell align="right">Sessions</TableCell>
+                  <TableCell align="right">Minutes</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {activityTotals.map(({ activity, sessions, minutes }) => (
+                  <TableRow key={activity}>
+                    <TableCell>{activity}</TableCell>
+                    <TableCell align="right">{sessions}</TableCell>
+                    <TableCell align="right">{minutes}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Grid>
+      </Grid>
+
+      <BodyMeasurements customer={customer} trainings={trainings} />
+
+      <Typography variant="h6" sx={{ mt: 4, mb: 1 }}>Training History</Typography>
+      {error ? (
+        <LoadError title="Could not load trainings" error={error} onRetry={reload} />
+      ) : history.length === 0 ? (
+        isLoadingTrainings ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <EmptyState
+            message="No trainings recorded for this customer yet."
+            action={
+              <Button variant="outlined" onClick={() => openAdd(customer)}>
+                Add Training
+              </Button>
+            }
+          />
+        )
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Date</TableCell>
+              <TableCell>Activity</TableCell>
+              <TableCell align="right">Duration (min)</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {history.map(training => (
+              <TableRow key={training.id} hover>
+                <TableCell>{formatDate(training.date)}</TableCell>
+                <TableCell>{training.activity}</TableCell>
+                <TableCell align="right">{training.duration}</TableCell>
+                <TableCell align="right">
+                  <Stack direction="row" spacing={1} justifyContent="flex-end">
+                    <Button size="small" startIcon={<EditIcon />} onClick={() => openEdit(training)}>
+                      Edit
+                    </Button>
+                    <Button size="small" color="error" startIcon={<DeleteIcon />} onClick={() => openDelete(training)}>
+                      Delete
+                    </Button>
+                  </Stack>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {dialogs}
+      <CustomerTagsDialog customer={isTagging ? customer : null} onClose={() => setIsTagging(false)} />
+    </Paper>
+  );
+};
+
+export default CustomerDetail;
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useEffect } from 'react';
 import {
   Dialog,
   DialogActions,
@@ -8,41 +8,40 @@ import {
   Button,
   Grid,
 } from '@mui/material';
-import { Customer } from '../types';
+import { Customer, CustomerInput } from '../types';
+import { CUSTOMER_FIELDS, EditConflict, mergeChanges } from '../services/conflicts';
+import { useCustomerForm } from '../hooks/useCustomerForm';
+import ConflictFields from './ConflictFields';
 
 interface CustomerFormDialogProps {
   open: boolean;
   customer: Partial<Customer> | null;
-  onSave: (customer: Omit<Customer, 'links'>, isUpdate: boolean) => void;
+  // Set when an update clashed with someone else's; the form then merges the two
+  conflict?: EditConflict<CustomerInput>;
+  onSave: (customer: CustomerInput, isUpdate: boolean) => void;
   onCancel: () => void;
 }
 
-interface CustomerFormData {
-  firstname: string;
-  lastname: string;
-  email: string;
-  phone: string;
-  streetaddress: string;
-  city: string;
-  postcode: string;
-}
-
-const CustomerFormDialog: React.FC<CustomerFormDialogProps> = ({ open, customer, onSave, onCancel }) => {
-  const [formData, setFormData] = useState<CustomerFormData>({
-    firstname: '',
-    lastname: '',
-    email: '',
-    phone: '',
-    streetaddress: '',
-    city: '',
-    postcode: '',
-  });
+const EMPTY_CUSTOMER: CustomerInput = {
+  firstname: '',
+  lastname: '',
+  streetaddress: '',
+  postcode: '',
+  city: '',
+  email: '',
+  phone: '',
+};
 
-  const [isValid, setIsValid] = useState(false);
+const CustomerFormDialog: React.FC<CustomerFormDialogProps> = ({ open, customer, conflict, onSave, onCancel }) => {
+  const form = useCustomerForm(customer?.id);
+  const { reset } = form;
 
   useEffect(() => {
-    if (customer) {
-      setFormData({
+    if (conflict) {
+      // Changes are counted from the server's copy being merged with
+      reset(mergeChanges(CUSTOMER_FIELDS, conflict), conflict.theirs);
+    } else if (customer) {
+      reset({
         firstname: customer.firstname || '',
         lastname: customer.lastname || '',
         email: customer.email || '',
@@ -52,123 +51,97 @@ const CustomerFormDialog: React.FC<CustomerFormDialogProps> = ({ open, customer,
         postcode: customer.postcode || '',
       });
     } else {
-      setFormData({
-        firstname: '',
-        lastname: '',
-        email: '',
-        phone: '',
-        streetaddress: '',
-        city: '',
-        postcode: '',
-      });
+      reset(EMPTY_CUSTOMER);
     }
-  }, [customer]);
-
-  useEffect(() => {
-    const isValid = 
-      formData.firstname.trim() !== '' &&
-      formData.lastname.trim() !== '' &&
-      formData.email.trim() !== '' &&
-      formData.phone.trim() !== '' &&
-      formData.streetaddress.trim() !== '' &&
-      formData.city.trim() !== '' &&
-      formData.postcode.trim() !== '';
-    setIsValid(isValid);
-  }, [formData]);
-
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData({
-      ...formData,
-      [name]: value,
-    });
-  };
+  }, [customer, conflict, open, reset]);
 
   const handleSubmit = (event: React.FormEvent) => {
     event.preventDefault();
-    if (isValid) {
-      onSave(formData, !!customer);
+    const values = form.submit();
+    if (values) {
+      onSave(values, !!customer);
     }
   };
 
+  // Value, change and blur handlers plus the inline error for one field
+  const fieldProps = (name: keyof CustomerInput) => {
+    const error = form.errorOf(name);
+    return {
+      name,
+      value: form.values[name],
+      onChange: (event: React.ChangeEvent<HTMLInputElement>) => form.setField(name, event.target.value),
+      onBlur: () => form.touch(name),
+      error: Boolean(error),
+      helperText: error,
+      fullWidth: true,
+      required: true,
+      margin: 'dense' as const,
+    };
+  };
+
+  // Unchanged edits have nothing to save; merges always do
+  const canSave = !form.isCheckingEmail && (!customer || !!conflict || form.isFormDirty);
+
   return (
     <Dialog open={open} onClose={onCancel} maxWidth="sm" fullWidth>
-      <DialogTitle>{customer ? 'Edit Customer' : 'Add Customer'}</DialogTitle>
-      <form onSubmit={handleSubmit}>
+      <DialogTitle>
+        {conflict ? 'Resolve Conflicting Changes' : customer ? 'Edit Customer' : 'Add Customer'}
+      </DialogTitle>
+      {/* Validation messages come from our rules, not the browser's */}
+      <form onSubmit={handleSubmit} noValidate>
         <DialogContent>
+          {conflict && (
+            <ConflictFields
+              fields={CUSTOMER_FIELDS}
+              conflict={conflict}
+              current={form.values}
+              onPick={(name, value) => form.setField(name, value)}
+            />
+          )}
           <Grid container spacing={2}>
             <Grid item xs={12} sm={6}>
               <TextField
                 autoFocus
-                name="firstname"
+                {...fieldProps('firstname')}
                 label="First Name"
-                value={formData.firstname}
-                onChange={handleChange}
-                fullWidth
-                required
-                margin="dense"
               />
             </Grid>
             <Grid item xs={12} sm={6}>
               <TextField
-                name="lastname"
+                {...fieldProps('lastname')}
                 label="Last Name"
-                value={formData.lastname}
-                onChange={handleChange}
-                fullWidth
-                required
-                margin="dense"
               />
             </Grid>
             <Grid item xs={12}>
               <TextField
-                name="streetaddress"
+                {...fieldProps('streetaddress')}
                 label="Street Address"
-                value={formData.streetaddress}
-                onChange={handleChange}
-                fullWidth
-                margin="dense"
               />
             </Grid>
             <Grid item xs={12} sm={6}>
               <TextField
-                name="postcode"
+                {...fieldProps('postcode')}
                 label="Postcode"
-                value={formData.postcode}
-                onChange={handleChange}
-                fullWidth
-                margin="dense"
               />
             </Grid>
             <Grid item xs={12} sm={6}>
               <TextField
-                name="city"
+                {...fieldProps('city')}
                 label="City"
-                value={formData.city}
-                onChange={handleChange}
-                fullWidth
-                margin="dense"
               />
             </Grid>
             <Grid item xs={12} sm={6}>
               <TextField
-                name="email"
+                {...fieldProps('email')}
                 label="Email"
                 type="email"
-                value={formData.email}
-                onChange={handleChange}
-                fullWidth
-                margin="dense"
+                helperText={form.errorOf('email') ?? (form.isCheckingEmail ? 'Checking for other customers with this email…' : undefined)}
               />
             </Grid>
             <Grid item xs={12} sm={6}>
               <TextField
-                name="phone"
+                {...fieldProps('phone')}
                 label="Phone"
-                value={formData.phone}
-                onChange={handleChange}
-                fullWidth
-                margin="dense"
               />
             </Grid>
           </Grid>
@@ -177,8 +150,8 @@ const CustomerFormDialog: React.FC<CustomerFormDialogProps> = ({ open, customer,
           <Button onClick={onCancel} color="primary">
             Cancel
           </Button>
-          <Button type="submit" color="primary" variant="contained">
-            Save
+          <Button type="submit" color="primary" variant="contained" disabled={!canSave}>
+            {conflict ? 'Save Merged' : 'Save'}
           </Button>
         </DialogActions>
       </form>
@@ -0,0 +1,376 @@
+import { useState, useMemo, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Stack,
+  Step,
+  StepLabel,
+  Stepper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { CustomerInput } from '../types';
+import { useDataStore } from '../context/DataStoreContext';
+import { useNotification } from '../context/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import {
+  CustomerMapping,
+  IMPORT_FIELDS,
+  ImportRow,
+  buildImportRows,
+  checkImportRows,
+  guessCustomerMapping,
+  isDuplicate,
+  isValidRow,
+} from '../services/customerImport';
+import { selectMatchingCustomers } from '../store/dataStore';
+import { ParsedCsv } from '../utils/csv';
+import { VCardEntry } from '../utils/vcard';
+import { normalizeCustomer } from '../utils/customerValidation';
+import { CsvFileStep, ColumnMappingStep } from './CsvImportSteps';
+import { LoadError } from './DataState';
+
+interface CustomerImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type RowResult =
+  | { status: 'created' | 'queued' }
+  | { status: 'failed'; message: string };
+
+const STEPS = ['Upload', 'Map columns', 'Preview', 'Import'];
+
+const RESULT_CHIPS = {
+  created: { label: 'Created', color: 'success' },
+  queued: { label: 'Queued offline', color: 'info' },
+  failed: { label: 'Failed', color: 'error' },
+} as const;
+
+/**
+ * Why a row will or won't be imported, as shown in the preview
+ */
+const RowStatus = ({ row }: { row: ImportRow }) => {
+  if (!isValidRow(row)) {
+    const problems = IMPORT_FIELDS
+      .filter(({ name }) => row.errors[name])
+      .map(({ name, label }) => `${label}: ${row.errors[name]}`);
+    return (
+      <Box>
+        <Chip label="Invalid" size="small" color="error" />
+        <Typography variant="caption" color="error" display="block">{problems.join(', ')}</Typography>
+      </Box>
+    );
+  }
+  if (isDuplicate(row)) {
+    const [match] = row.matches;
+    return (
+      <Box>
+        <Chip label="Possible duplicate" size="small" color="warning" />
+        <Typography variant="caption" color="text.secondary" display="block">
+          {match ? `Matches ${match.firstname} ${match.lastname}` : `Same as line ${row.duplicateOfLine}`}
+        </Typography>
+      </Box>
+    );
+  }
+  return <Chip label="Ready" size="small" color="success" />;
+};
+
+/**
+ * Import wizard for customers kept in a spreadsheet or a phone's contacts:
+ * upload a CSV and map its columns to customer fields, or upload a vCard
+ * file, whose fields are known. Then review the rows and create them one by
+ * one with a result per row. Rows are checked with the same rules as the
+ * customer form; invalid rows can't be imported and possible duplicates are
+ * left out unless ticked.
+ */
+const CustomerImportDialog = ({ open, onClose }: CustomerImportDialogProps) => {
+  const { state, ensure, invalidate, addCustomer } = useDataStore();
+  const { showNotification } = useNotification();
+
+  const [step, setStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [mapping, setMapping] = useState<CustomerMapping | null>(null);
+  // Contacts from a vCard file, which skip the column mapping
+  const [vCards, setVCards] = useState<VCardEntry[] | null>(null);
+  // Rows the user ticked or unticked; others follow the default for their status
+  const [choices, setChoices] = useState<Record<number, boolean>>({});
+  // Rows being imported, fixed when the import starts so the customers it
+  // creates don't turn them into duplicates of themselves
+  const [importing, setImporting] = useState<ImportRow[]>([]);
+  const [results, setResults] = useState<Record<number, RowResult>>({});
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Duplicates are checked against every customer
+  useEffect(() => {
+    if (open) {
+      ensure('customers');
+    }
+  }, [open, ensure]);
+
+  const customers = state.customers;
+  const customersLoaded = customers.fetchedAt !== null;
+
+  const rows = useMemo(() => {
+    const findMatches = (input: CustomerInput) => selectMatchingCustomers(state, input);
+    if (vCards) {
+      return checkImportRows(vCards, findMatches);
+    }
+    return csv && mapping ? buildImportRows(csv, mapping, findMatches) : [];
+  }, [csv, mapping, vCards, state]);
+
+  const isIncluded = (row: ImportRow) => isValidRow(row) && (choices[row.line] ?? !isDuplicate(row));
+  const selectedRows = rows.filter(isIncluded);
+  const invalidCount = rows.filter(row => !isValidRow(row)).length;
+  const duplicateCount = rows.filter(row => isValidRow(row) && isDuplicate(row)).length;
+
+  const reset = () => {
+    setStep(0);
+    setFileName('');
+    setCsv(null);
+    setMapping(null);
+    setVCards(null);
+    setChoices({});
+    setImporting([]);
+    setResults({});
+  };
+
+  const handleClose = () => {
+    if (isImporting) {
+      return;
+    }
+    reset();
+    onClose();
+  };
+
+  const handleFileLoaded = (name: string, parsed: ParsedCsv) => {
+    setFileName(name);
+    setCsv(parsed);
+    setMapping(guessCustomerMapping(parsed.headers));
+    setVCards(null);
+    setChoices({});
+    setStep(1);
+  };
+
+  const handleVCardsLoaded = (name: string, entries: VCardEntry[]) => {
+    setFileName(name);
+    setCsv(null);
+    setMapping(null);
+    setVCards(entries);
+    setChoices({});
+    setStep(2);
+  };
+
+  // Create the selected customers one at a time so each gets its own result.
+  // Lists are refreshed once at the end rather than after every row.
+  const handleImport = async () => {
+    const batch = selectedRows;
+    setImporting(batch);
+    setResults({});
+    setIsImporting(true);
+    setStep(3);
+
+    let created = 0;
+    for (const row of batch) {
+      let result: RowResult;
+      try {
+        const outcome = await addCustomer(normalizeCustomer(row.input), { refetch: false });
+        result = { status: outcome === 'synced' ? 'created' : 'queued' };
+        created++;
+      } catch (error) {
+        result = { status: 'failed', message: getErrorMessage(error) };
+      }
+      setResults(prev => ({ ...prev, [row.line]: result }));
+    }
+
+    setIsImporting(false);
+    invalidate(['customers']);
+    const failed = batch.length - created;
+    showNotification(
+      failed === 0
+        ? `Imported ${created} customer${created === 1 ? '' : 's'}`
+        : `Imported ${created} of ${batch.length} customers, ${failed} failed`,
+      failed === 0 ? 'success' : 'warning'
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Import Customers</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={step} sx={{ mb: 3 }}>
+          {STEPS.map(label => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {step === 0 && (
+          <CsvFileStep
+            description="Choose a CSV file with one customer per row and a header line naming the columns, or a vCard (.vcf) file of contacts. Files exported from this app can be imported as they are."
+            onLoaded={handleFileLoaded}
+            onVCards={handleVCardsLoaded}
+          />
+        )}
+
+        {step === 1 && csv && mapping && (
+          <ColumnMappingStep
+            fields={IMPORT_FIELDS}
+            required={IMPORT_FIELDS.map(({ name }) => name)}
+            fileName={fileName}
+            csv={csv}
+            mapping={mapping}
+            onChange={setMapping}
+          />
+        )}
+
+        {step === 2 && (
+          <>
+            {customers.error && !customersLoaded ? (
+              <LoadError
+                title="Could not load existing customers to check for duplicates"
+                error={customers.error}
+                onRetry={() => ensure('customers', { force: true })}
+              />
+            ) : !customersLoaded && (
+              <Box sx={{ mb: 2 }}>
+                <Typography variant="body2" color="text.secondary">Checking for existing customers…</Typography>
+                <LinearProgress />
+              </Box>
+            )}
+            <Stack direction="row" spacing={1} sx={{ mb: 2 }}>
+              <Chip label={`${selectedRows.length} selected`} color="primary" />
+              <Chip label={`${duplicateCount} possible duplicates`} color="warning" variant="outlined" />
+              <Chip label={`${invalidCount} invalid`} color="error" variant="outlined" />
+            </Stack>
+            <TableContainer sx={{ maxHeight: 420 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" />
+                    <TableCell>Line</TableCell>
+                    {IMPORT_FIELDS.map(({ name, label }) => (
+                      <TableCell key={name}>{label}</TableCell>
+                    ))}
+                    <TableCell>Status</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.line} hover>
+                      <TableCell padding="checkbox">
+                        <Checkbox
+                          checked={isIncluded(row)}
+                          disabled={!isValidRow(row)}
+                          onChange={event => setChoices(prev => ({ ...prev, [row.line]: event.target.checked }))}
+                        />
+                      </TableCell>
+                      <TableCell>{row.line}</TableCell>
+                      {IMPORT_FIELDS.map(({ name }) => (
+                        <TableCell key={name} sx={row.errors[name] ? { color: 'error.main' } : undefined}>
+                          {row.input[name] || '-'}
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        <RowStatus row={row} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+
+        {step === 3 && (
+          <>
+            <LinearProgress
+              variant="determinate"
+              value={importing.length ? (Object.keys(results).length / importing.length) * 100 : 100}
+              sx={{ mb: 2 }}
+            />
+            <TableContainer sx={{ maxHeight: 420 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Line</TableCell>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Email</TableCell>
+                    <TableCell>Result</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {importing.map(row => {
+                    const result = results[row.line];
+                    return (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell>{row.input.firstname} {row.input.lastname}</TableCell>
+                        <TableCell>{row.input.email}</TableCell>
+                        <TableCell>
+                          {result ? (
+                            <>
+                              <Chip size="small" {...RESULT_CHIPS[result.status]} />
+                              {result.status === 'failed' && (
+                                <Typography variant="caption" color="error" display="block">{result.message}</Typography>
+                              )}
+                            </>
+                          ) : (
+                            <Typography variant="body2" color="text.secondary">Waiting…</Typography>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {step === 3 ? (
+          <Button variant="contained" onClick={handleClose} disabled={isImporting}>
+            Done
+          </Button>
+        ) : (
+          <>
+            <Button onClick={handleClose}>Cancel</Button>
+            {/* vCards skip the column mapping on the way back too */}
+            {step > 0 && <Button onClick={() => setStep(vCards && step === 2 ? 0 : step - 1)}>Back</Button>}
+            {step === 1 && (
+              <Button variant="contained" onClick={() => setStep(2)}>
+                Next
+              </Button>
+            )}
+            {step === 2 && (
+              <Button
+                variant="contained"
+                onClick={handleImport}
+                disabled={selectedRows.length === 0 || !customersLoaded}
+              >
+                Import {selectedRows.length} Customer{selectedRows.length === 1 ? '' : 's'}
+              </Button>
+            )}
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CustomerImportDialog;
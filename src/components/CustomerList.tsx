@@ -1,41 +1,171 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
 import { AgGridReact } from 'ag-grid-react';
-import { ColDef, GridReadyEvent, GridApi } from 'ag-grid-community';
-import { Box, TextField, Typography, Paper, Button, Stack } from '@mui/material';
+import { CellClickedEvent, ColDef, GetRowIdParams, ICellRendererParams, SelectionChangedEvent } from 'ag-grid-community';
+import { useNavigate, Link as RouterLink } from 'react-router-dom';
+import { Box, Typography, Paper, Button, Stack, Drawer } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
 import FitnessCenterIcon from '@mui/icons-material/FitnessCenter';
-import FileDownloadIcon from '@mui/icons-material/FileDownload';
-import { CSVLink } from 'react-csv';
-import { Customer } from '../types';
-import { getCustomers, addCustomer, updateCustomer, deleteCustomer, addTraining } from '../services/api';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import MergeIcon from '@mui/icons-material/MergeType';
+import NotesIcon from '@mui/icons-material/StickyNote2';
+import ContactPhoneIcon from '@mui/icons-material/ContactPhone';
+import { Customer, CustomerInput, TrainingInput } from '../types';
+import {
+  getErrorMessage,
+  getCustomers,
+  getCustomersPage,
+  ConflictError,
+  EditConflictError,
+  NotFoundError,
+  PageRequest,
+  RequestOptions,
+} from '../services/api';
 import CustomerFormDialog from './CustomerFormDialog';
+import CustomerUpdateFailedDialog, { UpdateFailureReason } from './CustomerUpdateFailedDialog';
 import TrainingFormDialog from './TrainingFormDialog';
 import ConfirmationDialog from './ConfirmationDialog';
+import ExportCsvButton from './ExportCsvButton';
+import CustomerImportDialog from './CustomerImportDialog';
+import TagFilterBar from './TagFilterBar';
+import QuerySearchField from './QuerySearchField';
+import CustomerNotesPanel from './CustomerNotesPanel';
+import VCardExportDialog from './VCardExportDialog';
+import { CustomerTagChips, CustomerTagsDialog } from './CustomerTags';
+import { LoadError, EmptyState } from './DataState';
 import 'ag-grid-community/styles/ag-grid.css';
 import 'ag-grid-community/styles/ag-theme-material.css';
 import { useNotification } from '../context/NotificationContext';
+import { useDataStore } from '../context/DataStoreContext';
+import { outcomeNotification } from '../offline/mutations';
+import { customerKey, selectMatchingCustomers } from '../store/dataStore';
+import { EditConflict, toCustomerInput } from '../services/conflicts';
+import { useInfiniteGrid, DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '../hooks/useInfiniteGrid';
+import { useTagSelection } from '../hooks/useTags';
+import { useQuerySearch } from '../hooks/useQuerySearch';
+import { useTrainingSeriesSave } from '../hooks/useTrainingSeriesSave';
+import { EMPTY_FILTER, TagFilter } from '../services/tags';
+import { TEXT_FILTER_PARAMS } from '../utils/gridFilters';
+import { QueryField } from '../utils/queryLanguage';
 
-// Import API base URL
-const API_BASE_URL = 'https://customer-rest-service-frontend-personaltrainer.2.rahtiapp.fi/api';
+// Fields the search box looks in
+const SEARCH_FIELDS = ['firstname', 'lastname', 'city', 'email', 'phone'];
+
+const QUERY_FIELDS: QueryField[] = [
+  { name: 'firstname', column: 'firstname', type: 'text', aliases: ['first'] },
+  { name: 'lastname', column: 'lastname', type: 'text', aliases: ['last'] },
+  { name: 'address', column: 'streetaddress', type: 'text', aliases: ['streetaddress', 'street'] },
+  { name: 'postcode', column: 'postcode', type: 'text', aliases: ['zip'] },
+  { name: 'city', column: 'city', type: 'text' },
+  { name: 'email', column: 'email', type: 'text' },
+  { name: 'phone', column: 'phone', type: 'text' },
+];
 
 const CustomerList = () => {
-  const [customers, setCustomers] = useState<Customer[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [gridApi, setGridApi] = useState<GridApi | null>(null);
+  const { state, ensure, upsert, addCustomer, updateCustomer, deleteCustomer, addTraining } = useDataStore();
+  const querySearch = useQuerySearch(QUERY_FIELDS);
+  const [tagFilter, setTagFilter] = useState<TagFilter>(EMPTY_FILTER);
+  const { customerIds: taggedIds, scope } = useTagSelection(tagFilter);
+
+  // Every customer the store knows about, for the training form's customer picker
+  const customerCollection = state.customers;
+  const customers = useMemo(
+    () => customerCollection.ids.map(id => customerCollection.byId[id]),
+    [customerCollection]
+  );
+
+  // Pages come from the server; loaded rows go into the shared store
+  const fetchPage = useCallback(async (pageRequest: PageRequest, options: RequestOptions) => {
+    const page = await getCustomersPage(pageRequest, options);
+    upsert('customers', page.items);
+    return page;
+  }, [upsert]);
+
+  // Search, column and tag filters are applied in the browser over every
+  // customer, since the server only pages and sorts
+  const loadAllCustomers = useCallback(async (options: RequestOptions) => {
+    const allCustomers = await getCustomers(options);
+    upsert('customers', allCustomers);
+    return allCustomers;
+  }, [upsert]);
+
+  const keepTagged = useMemo(
+    () => (taggedIds ? (customer: Customer) => taggedIds.has(customer.id) : undefined),
+    [taggedIds]
+  );
+
+  const { onGridReady, onFilterChanged, datasource, error: loadError, isEmpty, refresh, loadMatching } = useInfiniteGrid({
+    fetchPage,
+    loadAll: loadAllCustomers,
+    searchFields: SEARCH_FIELDS,
+    search: querySearch.search,
+    filterModel: querySearch.filterModel,
+    onFilterModelChange: querySearch.syncFromGrid,
+    rows: customerCollection.byId,
+    getRowKey: customerKey,
+    invalidatedAt: customerCollection.invalidatedAt,
+    keep: keepTagged,
+    scope,
+  });
+
+  // Values offered while typing a query, from the customers loaded so far
+  const queryValuesOf = useCallback(
+    (field: QueryField) => customers.map(customer => String(customer[field.column as keyof CustomerInput] ?? '')),
+    [customers]
+  );
   
   // Dialog states
   const [customerFormOpen, setCustomerFormOpen] = useState(false);
   const [trainingFormOpen, setTrainingFormOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [vCardDialogOpen, setVCardDialogOpen] = useState(false);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [taggingCustomer, setTaggingCustomer] = useState<Customer | null>(null);
+  const [notesCustomer, setNotesCustomer] = useState<Customer | null>(null);
+  // Rows ticked in the grid, for exporting a chosen few
+  const [checkedCustomers, setCheckedCustomers] = useState<Customer[]>([]);
+  // An update the server refused because the customer is gone or changed, awaiting the user's decision
+  const [updateFailure, setUpdateFailure] = useState<{
+    customer: Customer;
+    input: CustomerInput;
+    reason: UpdateFailureReason;
+  } | null>(null);
+  // An update that raced someone else's; `customer` is the server's copy to merge with
+  const [editConflict, setEditConflict] = useState<{
+    customer: Customer;
+    conflict: EditConflict<CustomerInput>;
+  } | null>(null);
 
   const { showNotification } = useNotification();
+  const saveSeries = useTrainingSeriesSave();
+
+  // The training form's customer picker and the update failure dialog's
+  // matches need every customer, so load the full list on demand
+  useEffect(() => {
+    if (trainingFormOpen || updateFailure) {
+      ensure('customers');
+    }
+  }, [trainingFormOpen, updateFailure, ensure]);
+
+  const matchingCustomers = useMemo(
+    () => (updateFailure ? selectMatchingCustomers(state, updateFailure.input, updateFailure.customer.id) : []),
+    [state, updateFailure]
+  );
 
   // Define columns for AG-Grid
   const columnDefs = useMemo<ColDef[]>(() => [
+    {
+      colId: 'select',
+      headerName: '',
+      checkboxSelection: true,
+      width: 50,
+      maxWidth: 50,
+      sortable: false,
+      filter: false,
+      resizable: false,
+    },
     { field: 'firstname', headerName: 'First Name', sortable: true, filter: true, minWidth: 120, flex: 1 },
     { field: 'lastname', headerName: 'Last Name', sortable: true, filter: true, minWidth: 120, flex: 1 },
     { field: 'streetaddress', headerName: 'Street Address', sortable: true, filter: true, minWidth: 150, flex: 1.5 },
@@ -44,9 +174,24 @@ const CustomerList = () => {
     { field: 'email', headerName: 'Email', sortable: true, filter: true, minWidth: 150, flex: 1.5 },
     { field: 'phone', headerName: 'Phone', sortable: true, filter: true, minWidth: 120, flex: 1 },
     {
+      // Kept in this browser, so neither sorted nor filtered by the server; click to edit
+      colId: 'tags',
+      headerName: 'Tags',
+      headerTooltip: 'Click a cell to edit the tags',
+      minWidth: 150,
+      flex: 1.2,
+      sortable: false,
+      filter: false,
+      cellRenderer: (params: ICellRendererParams<Customer>) =>
+        params.data ? <CustomerTagChips customerId={params.data.id} /> : null,
+    },
+    {
+      colId: 'actions',
       headerName: 'Actions',
-      minWidth: 300,
+      minWidth: 390,
       flex: 1.5,
+      sortable: false,
+      filter: false,
       cellRenderer: (params: any) => {
         const customer = params.data as Customer;
         return (
@@ -74,60 +219,46 @@ const CustomerList = () => {
             >
               Add Training
             </Button>
+            <Button
+              size="small"
+              onClick={() => setNotesCustomer(customer)}
+              startIcon={<NotesIcon />}
+            >
+              Notes
+            </Button>
           </Stack>
         );
       }
     }
   ], []);
   
-  // Default column settings
-  const defaultColDef = useMemo(() => ({
+  // Default column settings. The conditions offered are the ones the
+  // search query can write, so the two stay in sync.
+  const defaultColDef = useMemo<ColDef>(() => ({
     resizable: true,
     sortable: true,
-    filter: true,
+    filter: 'agTextColumnFilter',
+    filterParams: TEXT_FILTER_PARAMS,
   }), []);
 
-  // Fetch customers on component mount
-  const fetchCustomers = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const data = await getCustomers();
-      setCustomers(data);
-    } catch (error) {
-      console.error('Error fetching customers:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchCustomers();
-  }, [fetchCustomers]);
-
-  // Filter customers based on search term
-  const filteredCustomers = useMemo(() => {
-    return customers.filter((customer) => {
-      const searchFields = [
-        customer.firstname,
-        customer.lastname,
-        customer.city,
-        customer.email,
-        customer.phone,
-      ].map(field => field?.toLowerCase() || '');
-      
-      return searchFields.some(field => field.includes(searchTerm.toLowerCase()));
-    });
-  }, [customers, searchTerm]);
+  const getRowId = useCallback((params: GetRowIdParams<Customer>) => customerKey(params.data), []);
 
-  // Handle search input change
-  const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(event.target.value);
-  };
+  // Clicking a row opens the customer's page; the checkbox, tags and action cells keep their own behaviour
+  const navigate = useNavigate();
+  const handleCellClicked = useCallback((event: CellClickedEvent<Customer>) => {
+    const colId = event.column.getColId();
+    if (!event.data || colId === 'actions' || colId === 'select') {
+      return;
+    }
+    if (colId === 'tags') {
+      setTaggingCustomer(event.data);
+    } else {
+      navigate(`/customers/${event.data.id}`);
+    }
+  }, [navigate]);
 
-  // Grid ready event handler
-  const onGridReady = useCallback((params: GridReadyEvent) => {
-    setGridApi(params.api);
-    params.api.sizeColumnsToFit();
+  const handleSelectionChanged = useCallback((event: SelectionChangedEvent<Customer>) => {
+    setCheckedCustomers(event.api.getSelectedRows());
   }, []);
 
   // Handle add customer button click
@@ -154,82 +285,135 @@ const CustomerList = () => {
     setDeleteDialogOpen(true);
   };
 
-  // Handle customer form save (add or update)
-  const handleCustomerSave = async (customerData: Omit<Customer, 'id' | 'links'>, isUpdate: boolean = false) => {
+  // Apply form changes to the customer they were made on. If someone else
+  // changed it meanwhile, the server no longer has it, or it reports a
+  // conflict, the user decides what happens next.
+  const saveCustomerUpdate = async (customer: Customer, customerData: CustomerInput) => {
     try {
-      if (isUpdate && selectedCustomer) {
-        // Update existing customer
-        const updatedCustomer = {
-          ...selectedCustomer,
-          ...customerData
-        };
-        const success = await updateCustomer(updatedCustomer);
-        if (success) {
-          await fetchCustomers();
-          setCustomerFormOpen(false);
-          showNotification('Customer updated successfully', 'success');
-        } else {
-          setCustomerFormOpen(false);
-          showNotification('Failed to update customer - the customer has been added as a new entry', 'warning');
-        }
-      } else {
-        // Add new customer
-        const success = await addCustomer(customerData);
-        if (success) {
-          await fetchCustomers();
-          setCustomerFormOpen(false);
-          showNotification('Customer added successfully', 'success');
-        } else {
-          showNotification('Failed to add customer', 'error');
-        }
+      const { message, severity } = outcomeNotification(
+        await updateCustomer({ ...customer, ...customerData }, customer),
+        'Customer updated successfully'
+      );
+      showNotification(message, severity);
+    } catch (error) {
+      console.error('Error updating customer:', error);
+      if (error instanceof EditConflictError) {
+        const current = error.current as Customer;
+        setEditConflict({
+          customer: current,
+          conflict: { base: toCustomerInput(customer), mine: customerData, theirs: toCustomerInput(current) },
+        });
+        return;
+      }
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
+        setUpdateFailure({
+          customer,
+          input: customerData,
+          reason: error instanceof NotFoundError ? 'notFound' : 'conflict',
+        });
+        return;
       }
+      showNotification(`Failed to update customer, the change was undone. ${getErrorMessage(error)}`, 'error');
+    }
+  };
+
+  const saveNewCustomer = async (customerData: CustomerInput) => {
+    try {
+      const { message, severity } = outcomeNotification(
+        await addCustomer(customerData),
+        'Customer added successfully'
+      );
+      showNotification(message, severity);
     } catch (error) {
-      console.error('Error saving customer:', error);
-      showNotification('An error occurred. Please try again.', 'error');
+      console.error('Error adding customer:', error);
+      showNotification(`Failed to add customer, the change was undone. ${getErrorMessage(error)}`, 'error');
+    }
+  };
+
+  // Handle customer form save (add or update).
+  // The grid updates right away; the server confirms in the background.
+  const handleCustomerSave = async (customerData: CustomerInput, isUpdate: boolean = false) => {
+    setCustomerFormOpen(false);
+    if (isUpdate && selectedCustomer) {
+      await saveCustomerUpdate(selectedCustomer, customerData);
+    } else {
+      await saveNewCustomer(customerData);
+    }
+  };
+
+  // The merged version is checked against the server's copy it was merged with
+  const handleMergedSave = (customerData: CustomerInput) => {
+    if (editConflict) {
+      setEditConflict(null);
+      saveCustomerUpdate(editConflict.customer, customerData);
+    }
+  };
+
+  // Resolution options offered when an update could not be applied
+  const handleUpdateRetry = () => {
+    if (updateFailure) {
+      setUpdateFailure(null);
+      saveCustomerUpdate(updateFailure.customer, updateFailure.input);
+    }
+  };
+
+  const handleUpdateExisting = (customer: Customer) => {
+    if (updateFailure) {
+      setUpdateFailure(null);
+      saveCustomerUpdate(customer, updateFailure.input);
+    }
+  };
+
+  const handleCreateInstead = () => {
+    if (updateFailure) {
+      setUpdateFailure(null);
+      saveNewCustomer(updateFailure.input);
     }
   };
 
   // Handle customer delete confirmation
   const handleDeleteConfirm = async () => {
+    setDeleteDialogOpen(false);
+    if (!selectedCustomer) {
+      showNotification('Cannot delete customer - no customer selected', 'warning');
+      return;
+    }
     try {
-      if (selectedCustomer) {
-        const success = await deleteCustomer(selectedCustomer);
-        
-        if (success) {
-          await fetchCustomers();
-          showNotification('Customer deleted successfully', 'success');
-          setDeleteDialogOpen(false);
-        } else {
-          showNotification('Failed to delete customer - customer ID could not be determined', 'error');
-          setDeleteDialogOpen(false);
-        }
-      } else {
-        showNotification('Cannot delete customer - no customer selected', 'warning');
-        setDeleteDialogOpen(false);
-      }
+      const { message, severity } = outcomeNotification(
+        await deleteCustomer(selectedCustomer),
+        'Customer deleted successfully'
+      );
+      showNotification(message, severity);
     } catch (error) {
-      showNotification('An error occurred while deleting the customer', 'error');
-      setDeleteDialogOpen(false);
+      showNotification(`Failed to delete customer, the customer was restored. ${getErrorMessage(error)}`, 'error');
     }
   };
 
   // Handle training form save
-  const handleTrainingSave = async (trainingData: { date: string; duration: number; activity: string; customer: string }) => {
+  const handleTrainingSave = async (trainingData: TrainingInput) => {
+    setTrainingFormOpen(false);
     try {
-      const success = await addTraining(trainingData);
-      if (success) {
-        setTrainingFormOpen(false);
-        showNotification('Training added successfully', 'success');
-      }
+      const { message, severity } = outcomeNotification(
+        await addTraining(trainingData),
+        'Training added successfully'
+      );
+      showNotification(message, severity);
     } catch (error) {
       console.error('Error saving training:', error);
-      showNotification('Failed to add training', 'error');
+      showNotification(`Failed to add training, the change was undone. ${getErrorMessage(error)}`, 'error');
     }
   };
 
-  // Prepare data for CSV export - filter out links and other non-essential data
-  const exportData = useMemo(() => {
-    return customers.map(customer => ({
+  const handleSeriesSave = (trainings: TrainingInput[]) => {
+    setTrainingFormOpen(false);
+    saveSeries(trainings);
+  };
+
+  // Prepare data for CSV export - filter out links and other non-essential data.
+  // The grid only holds the pages it has shown, so export fetches every customer.
+  const loadExportData = async () => {
+    const allCustomers = await getCustomers();
+    return allCustomers.map(customer => ({
       firstname: customer.firstname,
       lastname: customer.lastname,
       streetaddress: customer.streetaddress,
@@ -238,7 +422,7 @@ const CustomerList = () => {
       email: customer.email,
       phone: customer.phone
     }));
-  }, [customers]);
+  };
 
   // Define CSV headers
   const csvHeaders = [
@@ -258,21 +442,30 @@ const CustomerList = () => {
           Customers
         </Typography>
         <Stack direction="row" spacing={2}>
-          <CSVLink 
-            data={exportData}
+          <Button component={RouterLink} to="/duplicates" startIcon={<MergeIcon />}>
+            Find Duplicates
+          </Button>
+          <ExportCsvButton
+            filename="customers.csv"
             headers={csvHeaders}
-            filename={"customers.csv"}
-            className="button-link"
-            style={{ textDecoration: 'none' }}
+            loadData={loadExportData}
+          />
+          <Button
+            variant="contained"
+            color="secondary"
+            startIcon={<ContactPhoneIcon />}
+            onClick={() => setVCardDialogOpen(true)}
           >
-            <Button
-              variant="contained"
-              color="secondary"
-              startIcon={<FileDownloadIcon />}
-            >
-              Export CSV
-            </Button>
-          </CSVLink>
+            Export vCard
+          </Button>
+          <Button
+            variant="contained"
+            color="secondary"
+            startIcon={<FileUploadIcon />}
+            onClick={() => setImportDialogOpen(true)}
+          >
+            Import
+          </Button>
           <Button
             variant="contained"
             color="primary"
@@ -284,28 +477,52 @@ const CustomerList = () => {
         </Stack>
       </Box>
       
-      <TextField
+      <QuerySearchField
         label="Search Customers"
-        variant="outlined"
-        fullWidth
-        margin="normal"
-        value={searchTerm}
-        onChange={handleSearchChange}
-        placeholder="Search by name, city, email, or phone"
+        placeholder="Search by name, city, email, or phone, or filter like city:Helsinki -lastname:Smith"
+        fields={QUERY_FIELDS}
+        query={querySearch.query}
+        errors={querySearch.errors}
+        onChange={querySearch.setQuery}
+        valuesOf={queryValuesOf}
       />
+      <TagFilterBar filter={tagFilter} onChange={setTagFilter} />
       
-      <Box className="ag-theme-material" sx={{ height: 600, width: '100%', mt: 2 }}>
+      {loadError ? (
+        <LoadError title="Could not load customers" error={loadError} onRetry={refresh} />
+      ) : isEmpty && (
+        <EmptyState
+          message="No customers yet. Add your first customer to get started."
+          action={
+            <Button variant="outlined" startIcon={<AddIcon />} onClick={handleAddCustomer}>
+              Add Customer
+            </Button>
+          }
+        />
+      )}
+      {/* The grid stays mounted so it can pick up the first customer once added */}
+      <Box
+        className="ag-theme-material"
+        sx={{ height: 600, width: '100%', mt: 2, display: isEmpty ? 'none' : 'block' }}
+      >
         <AgGridReact
-          rowData={filteredCustomers}
+          rowModelType="infinite"
+          datasource={datasource}
+          cacheBlockSize={DEFAULT_PAGE_SIZE}
+          getRowId={getRowId}
           columnDefs={columnDefs}
           defaultColDef={defaultColDef}
           animateRows={true}
-          rowSelection="single"
+          rowSelection="multiple"
+          suppressRowClickSelection={true}
+          onSelectionChanged={handleSelectionChanged}
           pagination={true}
-          paginationPageSize={10}
-          paginationPageSizeSelector={[5, 10, 25, 50]}
+          paginationPageSize={DEFAULT_PAGE_SIZE}
+          paginationPageSizeSelector={PAGE_SIZE_OPTIONS}
           onGridReady={onGridReady}
-          domLayout="autoHeight"
+          onFilterChanged={onFilterChanged}
+          onCellClicked={handleCellClicked}
+          rowStyle={{ cursor: 'pointer' }}
         />
       </Box>
 
@@ -323,9 +540,50 @@ const CustomerList = () => {
         customers={customers}
         selectedCustomer={selectedCustomer}
         onSave={handleTrainingSave}
+        onSaveSeries={handleSeriesSave}
         onCancel={() => setTrainingFormOpen(false)}
       />
 
+      {/* Merge dialog for an update that raced someone else's */}
+      {editConflict && (
+        <CustomerFormDialog
+          open
+          customer={editConflict.customer}
+          conflict={editConflict.conflict}
+          onSave={handleMergedSave}
+          onCancel={() => setEditConflict(null)}
+        />
+      )}
+
+      {/* Shown when an update is refused; nothing is written without a choice here */}
+      {updateFailure && (
+        <CustomerUpdateFailedDialog
+          open
+          reason={updateFailure.reason}
+          input={updateFailure.input}
+          candidates={matchingCustomers}
+          onRetry={handleUpdateRetry}
+          onUpdateExisting={handleUpdateExisting}
+          onCreateNew={handleCreateInstead}
+          onCancel={() => setUpdateFailure(null)}
+        />
+      )}
+
+      <CustomerTagsDialog customer={taggingCustomer} onClose={() => setTaggingCustomer(null)} />
+
+      <Drawer anchor="right" open={notesCustomer !== null} onClose={() => setNotesCustomer(null)}>
+        {notesCustomer && <CustomerNotesPanel customer={notesCustomer} onClose={() => setNotesCustomer(null)} />}
+      </Drawer>
+
+      <CustomerImportDialog open={importDialogOpen} onClose={() => setImportDialogOpen(false)} />
+
+      <VCardExportDialog
+        open={vCardDialogOpen}
+        selected={checkedCustomers}
+        loadMatching={loadMatching}
+        onClose={() => setVCardDialogOpen(false)}
+      />
+
       {/* Delete Confirmation Dialog */}
       <ConfirmationDialog
         open={deleteDialogOpen}
@@ -0,0 +1,292 @@
+import { useState, useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Divider,
+  IconButton,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import PushPinIcon from '@mui/icons-material/PushPin';
+import PushPinOutlinedIcon from '@mui/icons-material/PushPinOutlined';
+import { Customer, CustomerNote, GoalMetric, GoalPeriod, TrainingGoal } from '../types';
+import { getErrorMessage } from '../services/errors';
+import { addGoal, addNote, deleteGoal, deleteNote, updateNote } from '../services/customerNotes';
+import { ACTIVITIES } from '../config/activities';
+import { formatDate } from '../utils/dateUtils';
+import { GoalProgress, formatGoal, goalProgress } from '../utils/goalProgress';
+import { useCustomerDetail } from '../context/DataStoreContext';
+import { useCustomerNotes } from '../hooks/useCustomerNotes';
+import { useNotification } from '../context/NotificationContext';
+import ConfirmationDialog from './ConfirmationDialog';
+import RichText from './RichText';
+
+const FORMATTING_HINT = '**bold**, *italic*, lines starting with "- " become a list';
+
+const GoalRow = ({ goal, progress, onDelete }: {
+  goal: TrainingGoal;
+  progress: GoalProgress;
+  onDelete: () => void;
+}) => (
+  <Box>
+    <Stack direction="row" sx={{ alignItems: 'center', justifyContent: 'space-between' }}>
+      <Typography variant="body2">{formatGoal(goal)}</Typography>
+      <IconButton size="small" aria-label={`delete goal ${formatGoal(goal)}`} onClick={onDelete}>
+        <DeleteIcon fontSize="small" />
+      </IconButton>
+    </Stack>
+    <LinearProgress
+      variant="determinate"
+      value={progress.ratio * 100}
+      color={progress.isMet ? 'success' : 'primary'}
+      sx={{ height: 8, borderRadius: 4 }}
+    />
+    <Typography variant="caption" color="text.secondary">
+      {progress.done} / {progress.target} {goal.metric === 'minutes' ? 'min' : 'sessions'} this {goal.period}
+      {progress.isMet && ' · reached'}
+    </Typography>
+  </Box>
+);
+
+interface GoalDraft {
+  target: string;
+  metric: GoalMetric;
+  activity: string;
+  period: GoalPeriod;
+}
+
+const EMPTY_GOAL: GoalDraft = { target: '', metric: 'minutes', activity: '', period: 'week' };
+
+/**
+ * A customer's goals, with progress counted from their trainings, and their
+ * notes, pinned ones first
+ */
+const CustomerNotesPanel = ({ customer, onClose }: { customer: Customer; onClose: () => void }) => {
+  const { notes, goals, isLoading, error } = useCustomerNotes(customer.id);
+  const { trainings, isLoadingTrainings } = useCustomerDetail(customer.id);
+  const { showNotification } = useNotification();
+  const [draft, setDraft] = useState('');
+  const [goalDraft, setGoalDraft] = useState<GoalDraft>(EMPTY_GOAL);
+  const [editing, setEditing] = useState<{ note: CustomerNote; text: string } | null>(null);
+  const [deleting, setDeleting] = useState<CustomerNote | null>(null);
+
+  const progress = useMemo(
+    () => Object.fromEntries(goals.map(goal => [goal.id, goalProgress(goal, trainings)])),
+    [goals, trainings]
+  );
+
+  // Storage errors are reported; whatever was typed stays in the form
+  const attempt = async (action: () => Promise<void>, failure: string): Promise<boolean> => {
+    try {
+      await action();
+      return true;
+    } catch (actionError) {
+      console.error(failure, actionError);
+      showNotification(`${failure}. ${getErrorMessage(actionError)}`, 'error');
+      return false;
+    }
+  };
+
+  const handleAddNote = async () => {
+    if (await attempt(() => addNote(customer.id, draft), 'Could not save the note')) {
+      setDraft('');
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (editing && await attempt(() => updateNote(editing.note, { text: editing.text.trim() }), 'Could not save the note')) {
+      setEditing(null);
+    }
+  };
+
+  const handleDeleteConfirm = () => {
+    if (deleting) {
+      attempt(() => deleteNote(deleting), 'Could not delete the note');
+    }
+    setDeleting(null);
+  };
+
+  const target = Number(goalDraft.target);
+  const isGoalValid = Number.isInteger(target) && target > 0;
+
+  const handleAddGoal = async () => {
+    const added = await attempt(() => addGoal({
+      customerId: customer.id,
+      target,
+      metric: goalDraft.metric,
+      period: goalDraft.period,
+      ...(goalDraft.activity ? { activity: goalDraft.activity } : {}),
+    }), 'Could not save the goal');
+    if (added) {
+      setGoalDraft(EMPTY_GOAL);
+    }
+  };
+
+  return (
+    <Box sx={{ width: { xs: '100vw', sm: 420 }, p: 2 }}>
+      <Stack direction="row" sx={{ alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h6">{customer.firstname} {customer.lastname}</Typography>
+        <IconButton aria-label="close" onClick={onClose}>
+          <CloseIcon />
+        </IconButton>
+      </Stack>
+      {error ? (
+        <Alert severity="error">Could not load notes. {getErrorMessage(error)}</Alert>
+      ) : isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          <Typography variant="subtitle1" sx={{ mt: 1 }}>Goals</Typography>
+          <Stack spacing={1.5} sx={{ mb: 2 }}>
+            {goals.length === 0 && (
+              <Typography variant="body2" color="text.secondary">No goals set.</Typography>
+            )}
+            {isLoadingTrainings && goals.length > 0 && <LinearProgress />}
+            {goals.map(goal => (
+              <GoalRow
+                key={goal.id}
+                goal={goal}
+                progress={progress[goal.id]}
+                onDelete={() => attempt(() => deleteGoal(goal), 'Could not delete the goal')}
+              />
+            ))}
+          </Stack>
+          <Stack direction="row" spacing={1} sx={{ mb: 3 }}>
+            <TextField
+              size="small"
+              label="Target"
+              type="number"
+              value={goalDraft.target}
+              onChange={event => setGoalDraft({ ...goalDraft, target: event.target.value })}
+              inputProps={{ min: 1 }}
+              sx={{ width: 90 }}
+            />
+            <TextField
+              select
+              size="small"
+              label="Of"
+              value={goalDraft.metric}
+              onChange={event => setGoalDraft({ ...goalDraft, metric: event.target.value as GoalMetric })}
+            >
+              <MenuItem value="minutes">minutes</MenuItem>
+              <MenuItem value="sessions">sessions</MenuItem>
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="Activity"
+              value={goalDraft.activity}
+              onChange={event => setGoalDraft({ ...goalDraft, activity: event.target.value })}
+              sx={{ minWidth: 100 }}
+            >
+              <MenuItem value="">Any</MenuItem>
+              {ACTIVITIES.map(activity => (
+                <MenuItem key={activity} value={activity}>{activity}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="Per"
+              value={goalDraft.period}
+              onChange={event => setGoalDraft({ ...goalDraft, period: event.target.value as GoalPeriod })}
+            >
+              <MenuItem value="week">week</MenuItem>
+              <MenuItem value="month">month</MenuItem>
+            </TextField>
+            <Button onClick={handleAddGoal} disabled={!isGoalValid}>Add</Button>
+          </Stack>
+
+          <Divider />
+
+          <Typography variant="subtitle1" sx={{ mt: 2 }}>Notes</Typography>
+          <TextField
+            multiline
+            minRows={2}
+            fullWidth
+            margin="dense"
+            placeholder="Injuries, preferences, anything worth remembering"
+            helperText={FORMATTING_HINT}
+            value={draft}
+            onChange={event => setDraft(event.target.value)}
+          />
+          <Button variant="contained" size="small" onClick={handleAddNote} disabled={!draft.trim()} sx={{ mb: 2 }}>
+            Add Note
+          </Button>
+
+          <Stack spacing={1}>
+            {notes.map(note => (
+              <Paper key={note.id} variant="outlined" sx={{ p: 1.5, borderColor: note.pinned ? 'primary.main' : undefined }}>
+                <Stack direction="row" sx={{ alignItems: 'center', justifyContent: 'space-between' }}>
+                  <Typography variant="caption" color="text.secondary">
+                    {formatDate(note.createdAt)}
+                    {note.updatedAt && ` · edited ${formatDate(note.updatedAt)}`}
+                  </Typography>
+                  <Box>
+                    <Tooltip title={note.pinned ? 'Unpin' : 'Pin to top'}>
+                      <IconButton
+                        size="small"
+                        onClick={() => attempt(() => updateNote(note, { pinned: !note.pinned }), 'Could not pin the note')}
+                      >
+                        {note.pinned ? <PushPinIcon fontSize="small" color="primary" /> : <PushPinOutlinedIcon fontSize="small" />}
+                      </IconButton>
+                    </Tooltip>
+                    <IconButton size="small" aria-label="edit note" onClick={() => setEditing({ note, text: note.text })}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" aria-label="delete note" color="error" onClick={() => setDeleting(note)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Box>
+                </Stack>
+                {editing?.note.id === note.id ? (
+                  <>
+                    <TextField
+                      multiline
+                      autoFocus
+                      fullWidth
+                      margin="dense"
+                      helperText={FORMATTING_HINT}
+                      value={editing.text}
+                      onChange={event => setEditing({ note, text: event.target.value })}
+                    />
+                    <Stack direction="row" spacing={1} sx={{ justifyContent: 'flex-end' }}>
+                      <Button size="small" onClick={() => setEditing(null)}>Cancel</Button>
+                      <Button size="small" variant="contained" onClick={handleSaveEdit} disabled={!editing.text.trim()}>
+                        Save
+                      </Button>
+                    </Stack>
+                  </>
+                ) : (
+                  <RichText text={note.text} />
+                )}
+              </Paper>
+            ))}
+          </Stack>
+        </>
+      )}
+
+      <ConfirmationDialog
+        open={deleting !== null}
+        title="Delete Note"
+        message="Are you sure you want to delete this note?"
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleting(null)}
+      />
+    </Box>
+  );
+};
+
+export default CustomerNotesPanel;
@@ -0,0 +1,74 @@
+import { useState, useEffect } from 'react';
+import {
+  Autocomplete,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+} from '@mui/material';
+import { Customer } from '../types';
+import { allTags, getTagState, setCustomerTags, tagsOf } from '../services/tags';
+import { useTags } from '../hooks/useTags';
+
+/**
+ * A customer's tags as small chips, for grid cells and the customer page
+ */
+export const CustomerTagChips = ({ customerId }: { customerId: number }) => {
+  const tagState = useTags();
+  return (
+    <Stack direction="row" spacing={0.5} sx={{ alignItems: 'center', height: '100%', overflow: 'hidden' }}>
+      {tagsOf(tagState, customerId).map(tag => (
+        <Chip key={tag} label={tag} size="small" />
+      ))}
+    </Stack>
+  );
+};
+
+/**
+ * Pick existing tags for a customer or type new ones. Tags are kept in this
+ * browser, not on the server.
+ */
+export const CustomerTagsDialog = ({ customer, onClose }: { customer: Customer | null; onClose: () => void }) => {
+  const tagState = useTags();
+  const [tags, setTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (customer) {
+      setTags(tagsOf(getTagState(), customer.id));
+    }
+  }, [customer]);
+
+  const handleSave = () => {
+    if (customer) {
+      setCustomerTags(customer.id, tags);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!customer} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Tags for {customer?.firstname} {customer?.lastname}</DialogTitle>
+      <DialogContent>
+        <Autocomplete
+          multiple
+          freeSolo
+          autoSelect
+          options={allTags(tagState).map(({ tag }) => tag)}
+          value={tags}
+          onChange={(_, value) => setTags(value)}
+          renderInput={params => (
+            <TextField {...params} autoFocus margin="dense" label="Tags" placeholder="Type a tag and press Enter" />
+          )}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave}>Save</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
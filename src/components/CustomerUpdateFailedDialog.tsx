@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Button,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Radio,
+  Typography,
+} from '@mui/material';
+import { Customer, CustomerInput } from '../types';
+
+export type UpdateFailureReason = 'notFound' | 'conflict';
+
+interface CustomerUpdateFailedDialogProps {
+  open: boolean;
+  reason: UpdateFailureReason;
+  // The changes the user tried to save
+  input: CustomerInput;
+  // Existing customers that look like the same person
+  candidates: Customer[];
+  onRetry: () => void;
+  onUpdateExisting: (customer: Customer) => void;
+  onCreateNew: () => void;
+  onCancel: () => void;
+}
+
+const REASON_TEXT: Record<UpdateFailureReason, string> = {
+  notFound: 'This customer no longer exists on the server. It may have been deleted by someone else.',
+  conflict: 'The server rejected the update because it conflicts with its current copy of this customer.',
+};
+
+/**
+ * Asks what to do when a customer update can't be applied. Nothing is
+ * written until the user picks one of the options.
+ */
+const CustomerUpdateFailedDialog = ({
+  open,
+  reason,
+  input,
+  candidates,
+  onRetry,
+  onUpdateExisting,
+  onCreateNew,
+  onCancel,
+}: CustomerUpdateFailedDialogProps) => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const selected = candidates.find(customer => customer.id === selectedId);
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="sm" fullWidth>
+      <DialogTitle>Could not update {input.firstname} {input.lastname}</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          {REASON_TEXT[reason]} Your changes have not been saved.
+        </DialogContentText>
+
+        {candidates.length > 0 ? (
+          <>
+            <Typography variant="subtitle2">Apply the changes to an existing customer instead:</Typography>
+            <List dense>
+              {candidates.map(customer => (
+                <ListItemButton key={customer.id} onClick={() => setSelectedId(customer.id)}>
+                  <ListItemIcon>
+                    <Radio edge="start" checked={customer.id === selectedId} tabIndex={-1} disableRipple />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={`${customer.firstname} ${customer.lastname}`}
+                    secondary={[customer.email, customer.phone, customer.city].filter(Boolean).join(' · ')}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          </>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            No existing customer matches this name or email.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2, flexWrap: 'wrap', gap: 1 }}>
+        <Button onClick={onCancel} color="inherit">
+          Discard Changes
+        </Button>
+        <Button onClick={onRetry}>
+          Retry
+        </Button>
+        <Button onClick={onCreateNew} color="warning">
+          Create as New Customer
+        </Button>
+        <Button
+          variant="contained"
+          disabled={!selected}
+          onClick={() => selected && onUpdateExisting(selected)}
+        >
+          Update Selected
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CustomerUpdateFailedDialog;
@@ -0,0 +1,50 @@
+import { FC, ReactNode } from 'react';
+import { Alert, AlertTitle, Box, Button, Typography } from '@mui/material';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { getErrorMessage } from '../services/api';
+
+/**
+ * Error state shown when a view could not load its data
+ */
+export const LoadError: FC<{
+  title: string;
+  error: unknown;
+  onRetry: () => void;
+}> = ({ title, error, onRetry }) => (
+  <Alert
+    severity="error"
+    sx={{ mt: 2 }}
+    action={
+      <Button color="inherit" size="small" startIcon={<RefreshIcon />} onClick={onRetry}>
+        Retry
+      </Button>
+    }
+  >
+    <AlertTitle>{title}</AlertTitle>
+    {getErrorMessage(error)}
+  </Alert>
+);
+
+/**
+ * Empty state shown when a view loaded successfully but has nothing to show
+ */
+export const EmptyState: FC<{
+  message: string;
+  action?: ReactNode;
+}> = ({ message, action }) => (
+  <Box
+    sx={{
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: 2,
+      py: 6,
+      textAlign: 'center',
+    }}
+  >
+    <Typography variant="body1" color="text.secondary">
+      {message}
+    </Typography>
+    {action}
+  </Box>
+);
@@ -0,0 +1,130 @@
+import { useState, useMemo } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Grid,
+  Link,
+  Paper,
+  Stack,
+  Typography,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import MergeIcon from '@mui/icons-material/MergeType';
+import { countBy } from 'lodash';
+import { Customer, CustomerInput } from '../types';
+import { DuplicatePair, REASON_LABELS, findDuplicates } from '../services/duplicates';
+import { useCustomers, useTrainingsWithCustomers } from '../context/DataStoreContext';
+import { useNotification } from '../context/NotificationContext';
+import { useCustomerMerge, MergeAbortedError } from '../hooks/useCustomerMerge';
+import MergeCustomersDialog from './MergeCustomersDialog';
+import { LoadError, EmptyState } from './DataState';
+
+const CustomerSummary = ({ customer, trainings }: { customer: Customer; trainings: number }) => (
+  <Box>
+    <Link component={RouterLink} to={`/customers/${customer.id}`} variant="subtitle1">
+      {customer.firstname} {customer.lastname}
+    </Link>
+    <Typography variant="body2" color="text.secondary">
+      {[customer.email, customer.phone].filter(Boolean).join(' · ')}
+    </Typography>
+    <Typography variant="body2" color="text.secondary">
+      {[customer.streetaddress, customer.postcode, customer.city].filter(Boolean).join(', ')}
+    </Typography>
+    <Typography variant="caption">{trainings} training{trainings === 1 ? '' : 's'}</Typography>
+  </Box>
+);
+
+/**
+ * Customers that look like the same person, by email, phone or a similar
+ * name, with a merge for each pair
+ */
+const DuplicateCustomers = () => {
+  const { customers, isLoading, error, reload } = useCustomers();
+  const { trainings } = useTrainingsWithCustomers();
+  const { merge, progress } = useCustomerMerge();
+  const { showNotification } = useNotification();
+  const [merging, setMerging] = useState<DuplicatePair | null>(null);
+
+  const pairs = useMemo(() => findDuplicates(customers), [customers]);
+  const trainingCounts = useMemo(
+    () => countBy(trainings.filter(training => training.customer), training => training.customer?.id),
+    [trainings]
+  );
+
+  const handleMerge = async (survivor: Customer, duplicate: Customer, fields: CustomerInput) => {
+    try {
+      await merge(survivor, duplicate, fields);
+      showNotification(`Merged ${duplicate.firstname} ${duplicate.lastname} into ${survivor.firstname} ${survivor.lastname}`, 'success');
+    } catch (mergeError) {
+      console.error('Merge failed:', mergeError);
+      showNotification(
+        `Merge stopped. ${mergeError instanceof Error ? mergeError.message : String(mergeError)}`,
+        mergeError instanceof MergeAbortedError && mergeError.undone ? 'warning' : 'error'
+      );
+    } finally {
+      setMerging(null);
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, width: '100%' }}>
+      <Button component={RouterLink} to="/" startIcon={<ArrowBackIcon />} sx={{ mb: 2 }}>
+        Customers
+      </Button>
+      <Typography variant="h4" gutterBottom>
+        Possible Duplicates
+      </Typography>
+
+      {error && customers.length === 0 ? (
+        <LoadError title="Could not load customers" error={error} onRetry={reload} />
+      ) : isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress />
+        </Box>
+      ) : pairs.length === 0 ? (
+        <EmptyState message="No likely duplicates among your customers." />
+      ) : (
+        <Stack spacing={2}>
+          {pairs.map(pair => (
+            <Paper key={`${pair.first.id}-${pair.second.id}`} variant="outlined" sx={{ p: 2 }}>
+              <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
+                {pair.reasons.map(reason => (
+                  <Chip key={reason} label={REASON_LABELS[reason]} size="small" color="warning" />
+                ))}
+              </Stack>
+              <Grid container spacing={2} alignItems="center">
+                <Grid item xs={12} md={5}>
+                  <CustomerSummary customer={pair.first} trainings={trainingCounts[pair.first.id] ?? 0} />
+                </Grid>
+                <Grid item xs={12} md={5}>
+                  <CustomerSummary customer={pair.second} trainings={trainingCounts[pair.second.id] ?? 0} />
+                </Grid>
+                <Grid item xs={12} md={2} sx={{ textAlign: { md: 'right' } }}>
+                  <Button variant="outlined" startIcon={<MergeIcon />} onClick={() => setMerging(pair)}>
+                    Merge
+                  </Button>
+                </Grid>
+              </Grid>
+            </Paper>
+          ))}
+        </Stack>
+      )}
+
+      {merging && (
+        <MergeCustomersDialog
+          first={merging.first}
+          second={merging.second}
+          trainingCounts={trainingCounts}
+          progress={progress}
+          onMerge={handleMerge}
+          onCancel={() => setMerging(null)}
+        />
+      )}
+    </Paper>
+  );
+};
+
+export default DuplicateCustomers;
@@ -0,0 +1,61 @@
+import { useState, useEffect, useRef } from 'react';
+import { Box, Button, CircularProgress } from '@mui/material';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { CSVLink } from 'react-csv';
+import { useNotification } from '../context/NotificationContext';
+import { getErrorMessage } from '../services/api';
+
+interface ExportCsvButtonProps {
+  filename: string;
+  headers: { label: string; key: string }[];
+  // Loads the rows on click, so grids that page on the server can still export everything
+  loadData: () => Promise<object[]>;
+}
+
+/**
+ * Export CSV button that fetches its data only when clicked
+ */
+const ExportCsvButton = ({ filename, headers, loadData }: ExportCsvButtonProps) => {
+  const [data, setData] = useState<object[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const linkContainer = useRef<HTMLDivElement>(null);
+  const { showNotification } = useNotification();
+
+  // Trigger the download once the loaded rows have been rendered into the link
+  useEffect(() => {
+    if (data) {
+      linkContainer.current?.querySelector('a')?.click();
+      setData(null);
+    }
+  }, [data]);
+
+  const handleClick = async () => {
+    setIsLoading(true);
+    try {
+      setData(await loadData());
+    } catch (error) {
+      showNotification(`Export failed. ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="contained"
+        color="secondary"
+        startIcon={isLoading ? <CircularProgress size={20} color="inherit" /> : <FileDownloadIcon />}
+        onClick={handleClick}
+        disabled={isLoading}
+      >
+        Export CSV
+      </Button>
+      <Box ref={linkContainer} sx={{ display: 'none' }}>
+        {data && <CSVLink data={data} headers={headers} filename={filename} />}
+      </Box>
+    </>
+  );
+};
+
+export default ExportCsvButton;
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import {
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  ListSubheader,
+  TextField,
+  Typography,
+} from '@mui/material';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { allTags, deleteSegment, deleteTag, renameTag } from '../services/tags';
+import { useTags } from '../hooks/useTags';
+import ConfirmationDialog from './ConfirmationDialog';
+
+/**
+ * Rename or delete tags across every customer, and delete saved segments
+ */
+const ManageTagsDialog = ({ open, onClose }: { open: boolean; onClose: () => void }) => {
+  const tagState = useTags();
+  const tags = allTags(tagState);
+  const [renaming, setRenaming] = useState<{ from: string; to: string } | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const handleRename = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (renaming?.to.trim()) {
+      renameTag(renaming.from, renaming.to);
+    }
+    setRenaming(null);
+  };
+
+  const handleDeleteConfirm = () => {
+    if (deleting) {
+      deleteTag(deleting);
+    }
+    setDeleting(null);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Manage Tags</DialogTitle>
+      <DialogContent>
+        <List dense subheader={<ListSubheader disableGutters>Tags</ListSubheader>}>
+          {tags.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              No tags yet. Tag customers from the Tags column of the customer list.
+            </Typography>
+          )}
+          {tags.map(({ tag, count }) => (
+            <ListItem
+              key={tag}
+              disableGutters
+              secondaryAction={renaming?.from !== tag && (
+                <>
+                  <IconButton aria-label={`rename ${tag}`} onClick={() => setRenaming({ from: tag, to: tag })}>
+                    <EditIcon />
+                  </IconButton>
+                  <IconButton aria-label={`delete ${tag}`} color="error" onClick={() => setDeleting(tag)}>
+                    <DeleteIcon />
+                  </IconButton>
+                </>
+              )}
+            >
+              {renaming?.from === tag ? (
+                <form onSubmit={handleRename} style={{ display: 'flex', gap: 8, width: '100%' }}>
+                  <TextField
+                    autoFocus
+                    size="small"
+                    fullWidth
+                    value={renaming.to}
+                    onChange={event => setRenaming({ from: tag, to: event.target.value })}
+                    helperText="Renaming to an existing tag merges the two"
+                  />
+                  <Button type="submit" disabled={!renaming.to.trim()}>Rename</Button>
+                  <Button onClick={() => setRenaming(null)}>Cancel</Button>
+                </form>
+              ) : (
+                <ListItemText
+                  primary={<Chip label={tag} size="small" />}
+                  secondary={`${count} customer${count === 1 ? '' : 's'}`}
+                />
+              )}
+            </ListItem>
+          ))}
+        </List>
+
+        <List dense subheader={<ListSubheader disableGutters>Segments</ListSubheader>}>
+          {tagState.segments.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              No saved segments. Filter the customer list by tags and save the filter as a segment.
+            </Typography>
+          )}
+          {tagState.segments.map(segment => (
+            <ListItem
+              key={segment.id}
+              disableGutters
+              secondaryAction={
+                <IconButton aria-label={`delete ${segment.name}`} color="error" onClick={() => deleteSegment(segment.id)}>
+                  <DeleteIcon />
+                </IconButton>
+              }
+            >
+              <ListItemText
+                primary={segment.name}
+                secondary={`${segment.match === 'all' ? 'All' : 'Any'} of: ${segment.tags.join(', ')}`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+
+      <ConfirmationDialog
+        open={deleting !== null}
+        title="Delete Tag"
+        message={`Remove the tag "${deleting}" from every customer and segment?`}
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleting(null)}
+      />
+    </Dialog>
+  );
+};
+
+export default ManageTagsDialog;
@@ -0,0 +1,230 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Button,
+  Grid,
+  Autocomplete,
+  IconButton,
+  InputAdornment,
+  Typography,
+  FormHelperText,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import dayjs from 'dayjs';
+import { BodyMeasurement, BodyMeasurementInput } from '../types';
+import { BUILT_IN_METRICS, isBuiltInMetric } from '../utils/measurements';
+
+interface MeasurementFormDialogProps {
+  open: boolean;
+  measurement: BodyMeasurement | null;
+  // Custom metrics already in use, offered when adding another
+  customNames: string[];
+  onSave: (input: BodyMeasurementInput) => void;
+  onCancel: () => void;
+}
+
+interface CustomRow {
+  name: string;
+  value: string;
+}
+
+type Errors = Record<string, string>;
+
+// Comma decimals are common in the locales this is used in
+const parseValue = (text: string): number => Number(text.trim().replace(',', '.'));
+
+// Custom metrics can't shadow a built-in one by key or label
+const BUILT_IN_NAMES = new Set(BUILT_IN_METRICS.flatMap(({ key, label }) => [key.toLowerCase(), label.toLowerCase()]));
+
+const validate = (date: string, values: Record<string, string>, custom: CustomRow[]): Errors => {
+  const errors: Errors = {};
+  if (!dayjs(date, 'YYYY-MM-DD', true).isValid()) {
+    errors.date = 'Enter the day measured';
+  }
+  BUILT_IN_METRICS.forEach(({ key }) => {
+    const text = values[key]?.trim();
+    if (!text) return;
+    const value = parseValue(text);
+    if (!Number.isFinite(value) || value <= 0) {
+      errors[key] = 'Enter a positive number';
+    } else if (key === 'bodyFat' && value >= 100) {
+      errors[key] = 'Must be under 100 %';
+    }
+  });
+  const seen = new Set<string>();
+  custom.forEach(({ name, value }, index) => {
+    const trimmed = name.trim();
+    if (!trimmed && !value.trim()) return;
+    if (!trimmed) {
+      errors[`customName${index}`] = 'Name the metric';
+    } else if (BUILT_IN_NAMES.has(trimmed.toLowerCase()) || seen.has(trimmed.toLowerCase())) {
+      errors[`customName${index}`] = 'Already measured above';
+    }
+    seen.add(trimmed.toLowerCase());
+    if (!Number.isFinite(parseValue(value)) || !value.trim()) {
+      errors[`customValue${index}`] = 'Enter a number';
+    }
+  });
+  return errors;
+};
+
+const toInput = (date: string, values: Record<string, string>, custom: CustomRow[]): BodyMeasurementInput => ({
+  date,
+  values: Object.fromEntries([
+    ...BUILT_IN_METRICS
+      .filter(({ key }) => values[key]?.trim())
+      .map(({ key }) => [key, parseValue(values[key])]),
+    ...custom
+      .filter(({ name }) => name.trim())
+      .map(({ name, value }) => [name.trim(), parseValue(value)]),
+  ]),
+});
+
+/**
+ * Add or edit one measuring session: the built-in metrics plus any number
+ * of custom ones. Metrics left empty weren't measured that day.
+ */
+const MeasurementFormDialog: React.FC<MeasurementFormDialogProps> = ({ open, measurement, customNames, onSave, onCancel }) => {
+  const [date, setDate] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [custom, setCustom] = useState<CustomRow[]>([]);
+  const [submitted, setSubmitted] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const existing = measurement?.values ?? {};
+    setDate(measurement?.date ?? dayjs().format('YYYY-MM-DD'));
+    setValues(Object.fromEntries(
+      BUILT_IN_METRICS.filter(({ key }) => key in existing).map(({ key }) => [key, String(existing[key])])
+    ));
+    setCustom(Object.entries(existing)
+      .filter(([key]) => !isBuiltInMetric(key))
+      .map(([name, value]) => ({ name, value: String(value) })));
+    setSubmitted(false);
+  }, [open, measurement]);
+
+  // Errors show once a save has been tried, then follow every keystroke
+  const errors = validate(date, values, custom);
+  const errorOf = (key: string) => (submitted ? errors[key] : undefined);
+  const input = toInput(date, values, custom);
+  const isEmpty = Object.keys(input.values).length === 0;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitted(true);
+    if (Object.keys(errors).length === 0 && !isEmpty) {
+      onSave(input);
+    }
+  };
+
+  const updateCustom = (index: number, change: Partial<CustomRow>) =>
+    setCustom(rows => rows.map((row, rowIndex) => (rowIndex === index ? { ...row, ...change } : row)));
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="sm" fullWidth>
+      <DialogTitle>{measurement ? 'Edit Measurement' : 'Add Measurement'}</DialogTitle>
+      <form onSubmit={handleSubmit} noValidate>
+        <DialogContent>
+          <Grid container spacing={2}>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                autoFocus
+                label="Date"
+                type="date"
+                value={date}
+                onChange={event => setDate(event.target.value)}
+                error={Boolean(errorOf('date'))}
+                helperText={errorOf('date')}
+                InputLabelProps={{ shrink: true }}
+                fullWidth
+                required
+                margin="dense"
+              />
+            </Grid>
+            <Grid item xs={12} sm={6} />
+            {BUILT_IN_METRICS.map(metric => (
+              <Grid item xs={6} sm={4} key={metric.key}>
+                <TextField
+                  label={metric.label}
+                  value={values[metric.key] ?? ''}
+                  onChange={event => setValues({ ...values, [metric.key]: event.target.value })}
+                  error={Boolean(errorOf(metric.key))}
+                  helperText={errorOf(metric.key)}
+                  inputProps={{ inputMode: 'decimal' }}
+                  InputProps={{ endAdornment: <InputAdornment position="end">{metric.unit}</InputAdornment> }}
+                  fullWidth
+                  margin="dense"
+                />
+              </Grid>
+            ))}
+          </Grid>
+
+          <Typography variant="subtitle2" sx={{ mt: 3 }}>Custom metrics</Typography>
+          {custom.map((row, index) => (
+            <Grid container spacing={2} key={index} sx={{ alignItems: 'center' }}>
+              <Grid item xs={7}>
+                <Autocomplete
+                  freeSolo
+                  options={customNames}
+                  inputValue={row.name}
+                  onInputChange={(_, name) => updateCustom(index, { name })}
+                  renderInput={params => (
+                    <TextField
+                      {...params}
+                      label="Metric"
+                      placeholder="e.g. Resting heart rate"
+                      error={Boolean(errorOf(`customName${index}`))}
+                      helperText={errorOf(`customName${index}`)}
+                      margin="dense"
+                    />
+                  )}
+                />
+              </Grid>
+              <Grid item xs={4}>
+                <TextField
+                  label="Value"
+                  value={row.value}
+                  onChange={event => updateCustom(index, { value: event.target.value })}
+                  error={Boolean(errorOf(`customValue${index}`))}
+                  helperText={errorOf(`customValue${index}`)}
+                  inputProps={{ inputMode: 'decimal' }}
+                  fullWidth
+                  margin="dense"
+                />
+              </Grid>
+              <Grid item xs={1}>
+                <IconButton
+                  aria-label="remove metric"
+                  onClick={() => setCustom(rows => rows.filter((_, rowIndex) => rowIndex !== index))}
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </Grid>
+            </Grid>
+          ))}
+          <Button size="small" startIcon={<AddIcon />} onClick={() => setCustom([...custom, { name: '', value: '' }])}>
+            Add Custom Metric
+          </Button>
+          {submitted && isEmpty && (
+            <FormHelperText error>Enter at least one measurement</FormHelperText>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onCancel} color="primary">
+            Cancel
+          </Button>
+          <Button type="submit" color="primary" variant="contained">
+            Save
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default MeasurementFormDialog;
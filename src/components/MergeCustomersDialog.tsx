@@ -0,0 +1,152 @@
+import { useState, useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  LinearProgress,
+  Radio,
+  RadioGroup,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { Customer, CustomerInput } from '../types';
+import { CUSTOMER_FIELDS, toCustomerInput } from '../services/conflicts';
+import { MergeProgress } from '../hooks/useCustomerMerge';
+
+interface MergeCustomersDialogProps {
+  first: Customer;
+  second: Customer;
+  // Trainings each customer has, from what is loaded, to help pick who to keep
+  trainingCounts: Record<number, number>;
+  progress: MergeProgress | null;
+  onMerge: (survivor: Customer, duplicate: Customer, fields: CustomerInput) => void;
+  onCancel: () => void;
+}
+
+const fullName = (customer: Customer) => `${customer.firstname} ${customer.lastname}`;
+
+// The kept customer's values, filling its empty fields from the duplicate
+const defaultFields = (survivor: Customer, duplicate: Customer): CustomerInput =>
+  CUSTOMER_FIELDS.reduce((fields, { name }) => (
+    { ...fields, [name]: survivor[name].trim() ? survivor[name] : duplicate[name] }
+  ), toCustomerInput(survivor));
+
+/**
+ * Pick which of two customers to keep and, field by field, which values it
+ * ends up with. The other customer's trainings move to the kept one and the
+ * other customer is deleted.
+ */
+const MergeCustomersDialog = ({
+  first,
+  second,
+  trainingCounts,
+  progress,
+  onMerge,
+  onCancel,
+}: MergeCustomersDialogProps) => {
+  // Keep the customer with more history by default
+  const [survivorId, setSurvivorId] = useState(
+    (trainingCounts[second.id] ?? 0) > (trainingCounts[first.id] ?? 0) ? second.id : first.id
+  );
+  const survivor = survivorId === first.id ? first : second;
+  const duplicate = survivorId === first.id ? second : first;
+  const [fields, setFields] = useState<CustomerInput>(() => defaultFields(survivor, duplicate));
+
+  const differing = useMemo(
+    () => CUSTOMER_FIELDS.filter(({ name }) => first[name] !== second[name]),
+    [first, second]
+  );
+
+  const handleSurvivorChange = (id: number) => {
+    setSurvivorId(id);
+    setFields(id === first.id ? defaultFields(first, second) : defaultFields(second, first));
+  };
+
+  const isMerging = progress !== null;
+  const count = (customer: Customer) => trainingCounts[customer.id] ?? 0;
+
+  return (
+    <Dialog open onClose={isMerging ? undefined : onCancel} maxWidth="sm" fullWidth>
+      <DialogTitle>Merge Customers</DialogTitle>
+      <DialogContent>
+        <Typography variant="subtitle2" gutterBottom>Keep</Typography>
+        <RadioGroup value={String(survivorId)} onChange={event => handleSurvivorChange(Number(event.target.value))}>
+          {[first, second].map(customer => (
+            <FormControlLabel
+              key={customer.id}
+              value={String(customer.id)}
+              control={<Radio />}
+              disabled={isMerging}
+              label={`${fullName(customer)} (${count(customer)} training${count(customer) === 1 ? '' : 's'})`}
+            />
+          ))}
+        </RadioGroup>
+
+        {differing.length > 0 && (
+          <>
+            <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>Values to keep</Typography>
+            <Stack spacing={1.5}>
+              {differing.map(({ name, label }) => (
+                <Box key={name}>
+                  <Typography variant="caption" color="text.secondary">{label}</Typography>
+                  <ToggleButtonGroup
+                    exclusive
+                    size="small"
+                    fullWidth
+                    disabled={isMerging}
+                    value={fields[name] === survivor[name] ? 'survivor' : fields[name] === duplicate[name] ? 'duplicate' : null}
+                    onChange={(_event, side: 'survivor' | 'duplicate' | null) => {
+                      if (side) {
+                        setFields(prev => ({ ...prev, [name]: side === 'survivor' ? survivor[name] : duplicate[name] }));
+                      }
+                    }}
+                  >
+                    {[survivor, duplicate].map((customer, index) => (
+                      <ToggleButton key={customer.id} value={index === 0 ? 'survivor' : 'duplicate'} sx={{ textTransform: 'none' }}>
+                        {customer[name] || '(empty)'}
+                      </ToggleButton>
+                    ))}
+                  </ToggleButtonGroup>
+                </Box>
+              ))}
+            </Stack>
+          </>
+        )}
+
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          {count(duplicate) > 0
+            ? `${count(duplicate)} training${count(duplicate) === 1 ? '' : 's'} of ${fullName(duplicate)} will move to ${fullName(survivor)}, then `
+            : 'Then '}
+          {fullName(duplicate)} will be deleted. If any step fails, the merge is undone.
+        </Alert>
+
+        {progress && (
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="body2" color="text.secondary">
+              {progress.label}{progress.total > 0 && ` (${progress.done} of ${progress.total})`}
+            </Typography>
+            <LinearProgress
+              variant={progress.total > 0 ? 'determinate' : 'indeterminate'}
+              value={progress.total > 0 ? (progress.done / progress.total) * 100 : undefined}
+            />
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel} disabled={isMerging}>Cancel</Button>
+        <Button variant="contained" color="warning" disabled={isMerging} onClick={() => onMerge(survivor, duplicate, fields)}>
+          Merge
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MergeCustomersDialog;
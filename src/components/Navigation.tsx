@@ -1,33 +1,58 @@
 import { useState } from 'react';
 import { Link as RouterLink, useLocation } from 'react-router-dom';
-import { AppBar, Toolbar, Typography, Tabs, Tab, Box, Button, IconButton, Drawer, List, ListItem, ListItemText, Divider } from '@mui/material';
+import { AppBar, Toolbar, Typography, Tabs, Tab, Box, Button, Chip, IconButton, Badge, Tooltip, Drawer, List, ListItem, ListItemText, Divider } from '@mui/material';
 import MenuIcon from '@mui/icons-material/Menu';
-import { resetDatabase } from '../services/api';
+import SettingsIcon from '@mui/icons-material/Settings';
+import CloudDoneIcon from '@mui/icons-material/CloudDone';
+import CloudOffIcon from '@mui/icons-material/CloudOff';
+import CloudSyncIcon from '@mui/icons-material/CloudSync';
+import { getErrorMessage } from '../services/api';
 import { useNotification } from '../context/NotificationContext';
+import { useDataStore } from '../context/DataStoreContext';
 import ConfirmationDialog from './ConfirmationDialog';
+import ApiSettingsDialog from './ApiSettingsDialog';
+import { API_PROFILES, getApiConfig } from '../config/apiConfig';
+
+// Paths that have a tab; each tab also covers the pages below it
+const TAB_PATHS = ['/', '/trainings', '/calendar', '/statistics', '/engagement'];
+
+/**
+ * The tab to highlight for a path, by its first segment. A customer's page
+ * belongs to Customers; pages without a tab highlight none.
+ */
+const tabForPath = (pathname: string): string | false => {
+  const section = `/${pathname.split('/')[1] ?? ''}`;
+  const path = section === '/customers' ? '/' : section;
+  return TAB_PATHS.includes(path) ? path : false;
+};
 
 const Navigation = () => {
   const [mobileOpen, setMobileOpen] = useState(false);
   const [resetDialogOpen, setResetDialogOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
   const location = useLocation();
-  const [value, setValue] = useState(location.pathname);
   const { showNotification } = useNotification();
-  
-  const handleChange = (_event: React.SyntheticEvent, newValue: string) => {
-    setValue(newValue);
-  };
+  const { resetDatabase, offlineQueue } = useDataStore();
+  const apiProfile = getApiConfig().profile;
 
+  // Offline changes waiting to sync, failed ones are highlighted in the badge
+  const { mutations, isOnline, isReplaying } = offlineQueue;
+  const failedCount = mutations.filter(mutation => mutation.status === 'failed').length;
+  const syncTooltip = !isOnline
+    ? `Offline - ${mutations.length} change(s) waiting to sync`
+    : isReplaying
+      ? 'Syncing offline changes...'
+      : mutations.length > 0
+        ? `${mutations.length} change(s) not yet synced`
+        : 'All changes synced';
+  
   const handleResetDatabase = async () => {
     setResetDialogOpen(false);
     try {
-      const success = await resetDatabase();
-      if (success) {
-        showNotification('Database reset successful. Please refresh the page to see the changes.', 'success');
-      } else {
-        showNotification('Database reset failed.', 'error');
-      }
+      await resetDatabase();
+      showNotification('Database reset successful.', 'success');
     } catch (error) {
-      showNotification('Database reset failed.', 'error');
+      showNotification(`Database reset failed. ${getErrorMessage(error)}`, 'error');
     }
   };
 
@@ -41,8 +66,7 @@ const Navigation = () => {
           
           <Box sx={{ flexGrow: 1 }}>
             <Tabs 
-              value={value} 
-              onChange={handleChange} 
+              value={tabForPath(location.pathname)} 
               textColor="inherit" 
               indicatorColor="secondary"
             >
@@ -50,6 +74,7 @@ const Navigation = () => {
               <Tab label="Trainings" value="/trainings" component={RouterLink} to="/trainings" />
               <Tab label="Calendar" value="/calendar" component={RouterLink} to="/calendar" />
               <Tab label="Statistics" value="/statistics" component={RouterLink} to="/statistics" />
+              <Tab label="Re-engagement" value="/engagement" component={RouterLink} to="/engagement" />
             </Tabs>
           </Box>
           
@@ -60,6 +85,36 @@ const Navigation = () => {
           >
             Reset Database
           </Button>
+
+          {apiProfile !== 'production' && (
+            <Chip
+              label={API_PROFILES[apiProfile].label}
+              size="small"
+              color="warning"
+              sx={{ ml: 2 }}
+            />
+          )}
+          <Tooltip title={syncTooltip}>
+            <IconButton
+              color="inherit"
+              aria-label="Pending changes"
+              component={RouterLink}
+              to="/sync"
+              sx={{ ml: 1 }}
+            >
+              <Badge badgeContent={mutations.length} color={failedCount > 0 ? 'error' : 'secondary'}>
+                {!isOnline ? <CloudOffIcon /> : mutations.length > 0 ? <CloudSyncIcon /> : <CloudDoneIcon />}
+              </Badge>
+            </IconButton>
+          </Tooltip>
+          <IconButton
+            color="inherit"
+            aria-label="API settings"
+            onClick={() => setSettingsOpen(true)}
+            sx={{ ml: 1 }}
+          >
+            <SettingsIcon />
+          </IconButton>
         </Toolbar>
       </AppBar>
       
@@ -73,6 +128,8 @@ const Navigation = () => {
         onConfirm={handleResetDatabase}
         onCancel={() => setResetDialogOpen(false)}
       />
+
+      <ApiSettingsDialog open={settingsOpen} onClose={() => setSettingsOpen(false)} />
     </Box>
   );
 };
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import dayjs from 'dayjs';
+import {
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  Stack,
+  Divider,
+} from '@mui/material';
+import SyncIcon from '@mui/icons-material/Sync';
+import { useDataStore } from '../context/DataStoreContext';
+import { useNotification } from '../context/NotificationContext';
+import { describeMutation } from '../offline/mutations';
+import { getErrorMessage } from '../services/api';
+import { EmptyState } from './DataState';
+
+/**
+ * Review screen for changes made offline: pending ones wait for a connection,
+ * failed ones were rejected by the server and need a retry or a discard
+ */
+const PendingChanges = () => {
+  const { offlineQueue } = useDataStore();
+  const { mutations, isOnline, isReplaying, replay, retry, discard } = offlineQueue;
+  const { showNotification } = useNotification();
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const failedCount = mutations.filter(mutation => mutation.status === 'failed').length;
+
+  const runAction = async (id: number, action: (id: number) => Promise<void>, failureMessage: string) => {
+    setBusyId(id);
+    try {
+      await action(id);
+    } catch (error) {
+      showNotification(`${failureMessage} ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, width: '100%' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h4" gutterBottom>
+          Pending Changes
+        </Typography>
+        <Button
+          variant="contained"
+          color="primary"
+          startIcon={<SyncIcon />}
+          onClick={replay}
+          disabled={!isOnline || isReplaying || mutations.length === failedCount}
+        >
+          {isReplaying ? 'Syncing...' : 'Sync Now'}
+        </Button>
+      </Box>
+
+      {!isOnline && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          You are offline. Changes are saved on this device and will sync when the connection returns.
+        </Alert>
+      )}
+      {failedCount > 0 && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {failedCount} {failedCount === 1 ? 'change was' : 'changes were'} rejected by the server.
+          Retry or discard them below.
+        </Alert>
+      )}
+
+      {mutations.length === 0 ? (
+        <EmptyState message="All changes are synced." />
+      ) : (
+        <List>
+          {mutations.map((mutation, index) => (
+            <Box key={mutation.id}>
+              {index > 0 && <Divider component="li" />}
+              <ListItem
+                secondaryAction={mutation.status === 'failed' && (
+                  <Stack direction="row" spacing={1}>
+                    <Button
+                      size="small"
+                      disabled={busyId !== null || !isOnline}
+                      onClick={() => runAction(mutation.id, retry, 'Retry failed.')}
+                    >
+                      Retry
+                    </Button>
+                    <Button
+                      size="small"
+                      color="error"
+                      disabled={busyId !== null}
+                      onClick={() => runAction(mutation.id, discard, 'Discard failed.')}
+                    >
+                      Discard
+                    </Button>
+                  </Stack>
+                )}
+              >
+                <ListItemText
+                  primary={
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <span>{describeMutation(mutation)}</span>
+                      <Chip
+                        label={mutation.status === 'failed' ? 'Failed' : 'Pending'}
+                        color={mutation.status === 'failed' ? 'error' : 'default'}
+                        size="small"
+                      />
+                    </Stack>
+                  }
+                  secondary={
+                    mutation.error
+                      ? `${dayjs(mutation.createdAt).format('DD.MM.YYYY HH:mm')}: ${mutation.error}`
+                      : dayjs(mutation.createdAt).format('DD.MM.YYYY HH:mm')
+                  }
+                />
+              </ListItem>
+            </Box>
+          ))}
+        </List>
+      )}
+    </Paper>
+  );
+};
+
+export default PendingChanges;
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Chip,
+  Divider,
+  Drawer,
+  Fab,
+  List,
+  ListItem,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import BugReportIcon from '@mui/icons-material/BugReport';
+import { useQuarantine } from '../hooks/useQuarantine';
+import { clearQuarantine } from '../services/quarantine';
+
+/**
+ * Developer console for records the API layer rejected: what was wrong with
+ * each one and the raw data the server sent. Only rendered in dev builds.
+ */
+const QuarantinePanel = () => {
+  const records = useQuarantine();
+  const [open, setOpen] = useState(false);
+
+  if (records.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Tooltip title="Rejected API records">
+        <Fab
+          size="small"
+          color="warning"
+          onClick={() => setOpen(true)}
+          sx={{ position: 'fixed', bottom: 16, left: 16 }}
+        >
+          <Badge badgeContent={records.length} color="error">
+            <BugReportIcon />
+          </Badge>
+        </Fab>
+      </Tooltip>
+
+      <Drawer anchor="bottom" open={open} onClose={() => setOpen(false)}>
+        <Box sx={{ p: 2, maxHeight: '60vh', overflow: 'auto' }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+            <Typography variant="h6">
+              Rejected records ({records.length})
+            </Typography>
+            <Button
+              onClick={() => {
+                clearQuarantine();
+                setOpen(false);
+              }}
+            >
+              Clear
+            </Button>
+          </Box>
+          <List dense>
+            {[...records].reverse().map((entry, index) => (
+              <Box key={entry.id}>
+                {index > 0 && <Divider component="li" />}
+                <ListItem sx={{ display: 'block' }}>
+                  <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 0.5 }}>
+                    <Chip label={entry.kind} size="small" color="warning" />
+                    <Typography variant="body2" color="text.secondary" noWrap>
+                      {new Date(entry.rejectedAt).toLocaleTimeString()} · {entry.source}
+                    </Typography>
+                  </Stack>
+                  {entry.issues.map(({ path, message }) => (
+                    <Typography key={`${path}:${message}`} variant="body2">
+                      <code>{path}</code>: {message}
+                    </Typography>
+                  ))}
+                  <Box
+                    component="pre"
+                    sx={{ fontSize: 12, bgcolor: 'grey.100', p: 1, mt: 1, overflow: 'auto', maxHeight: 200 }}
+                  >
+                    {JSON.stringify(entry.record, null, 2)}
+                  </Box>
+                </ListItem>
+              </Box>
+            ))}
+          </List>
+        </Box>
+      </Drawer>
+    </>
+  );
+};
+
+export default QuarantinePanel;
@@ -0,0 +1,100 @@
+import { useState, useMemo } from 'react';
+import { Autocomplete, Box, TextField } from '@mui/material';
+import { QueryError, QueryField, QuerySuggestion, suggestQuery } from '../utils/queryLanguage';
+
+interface QuerySearchFieldProps {
+  label: string;
+  placeholder: string;
+  fields: QueryField[];
+  query: string;
+  errors: QueryError[];
+  onChange: (query: string) => void;
+  // Values worth suggesting for a field, e.g. cities of loaded customers
+  valuesOf: (field: QueryField) => string[];
+}
+
+/**
+ * The query with the terms that have errors underlined, followed by the messages
+ */
+const QueryErrors = ({ query, errors }: { query: string; errors: QueryError[] }) => {
+  const pieces: { text: string; isError: boolean }[] = [];
+  let position = 0;
+  [...errors].sort((a, b) => a.start - b.start).forEach(({ start, end }) => {
+    if (start < position) return;
+    pieces.push({ text: query.slice(position, start), isError: false }, { text: query.slice(start, end), isError: true });
+    position = end;
+  });
+  pieces.push({ text: query.slice(position), isError: false });
+
+  return (
+    <>
+      <Box component="span" sx={{ display: 'block', fontFamily: 'monospace', whiteSpace: 'pre-wrap', color: 'text.secondary' }}>
+        {pieces.map((piece, index) => (piece.isError ? (
+          <Box
+            key={index}
+            component="span"
+            sx={{ color: 'error.main', textDecoration: 'underline wavy', textUnderlineOffset: 3 }}
+          >
+            {piece.text}
+          </Box>
+        ) : piece.text))}
+      </Box>
+      {errors.map(error => error.message).join(' · ')}
+    </>
+  );
+};
+
+/**
+ * Search box for the query language, completing field names and values
+ * for the term under the caret
+ */
+const QuerySearchField = ({ label, placeholder, fields, query, errors, onChange, valuesOf }: QuerySearchFieldProps) => {
+  const [caret, setCaret] = useState(0);
+  const suggestions = useMemo(
+    () => suggestQuery(query, Math.min(caret, query.length), fields, valuesOf),
+    [query, caret, fields, valuesOf]
+  );
+
+  const trackCaret = (event: React.SyntheticEvent<HTMLInputElement>) => {
+    setCaret(event.currentTarget.selectionStart ?? query.length);
+  };
+
+  return (
+    <Autocomplete<QuerySuggestion, false, false, true>
+      freeSolo
+      fullWidth
+      options={suggestions}
+      value={null}
+      inputValue={query}
+      // Suggestions are already worked out for the term under the caret
+      filterOptions={options => options}
+      getOptionLabel={option => (typeof option === 'string' ? option : option.text)}
+      renderOption={(props, option) => <li {...props} key={option.text}>{option.label}</li>}
+      onInputChange={(_, value, reason) => {
+        if (reason === 'input' || reason === 'clear') {
+          onChange(value);
+        }
+      }}
+      onChange={(_, option) => {
+        if (option && typeof option !== 'string') {
+          onChange(option.text);
+          setCaret(option.caret);
+        }
+      }}
+      renderInput={params => (
+        <TextField
+          {...params}
+          label={label}
+          placeholder={placeholder}
+          variant="outlined"
+          margin="normal"
+          error={errors.length > 0}
+          helperText={errors.length > 0 ? <QueryErrors query={query} errors={errors} /> : undefined}
+          inputProps={{ ...params.inputProps, onSelect: trackCaret, spellCheck: false }}
+        />
+      )}
+    />
+  );
+};
+
+export default QuerySearchField;
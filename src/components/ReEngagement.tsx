@@ -0,0 +1,326 @@
+import { useState, useMemo, useCallback } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { AgGridReact } from 'ag-grid-react';
+import { ColDef, ICellRendererParams, ValueFormatterParams } from 'ag-grid-community';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Link,
+  Paper,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import EventIcon from '@mui/icons-material/Event';
+import dayjs from 'dayjs';
+import 'ag-grid-community/styles/ag-grid.css';
+import 'ag-grid-community/styles/ag-theme-material.css';
+import { DEFAULT_THRESHOLDS, EngagementThresholds, loadThresholds, saveThresholds } from '../config/engagement';
+import { ClientEngagement, EngagementStatus, STATUS_LABELS, classifyClients } from '../services/engagement';
+import { formatDate } from '../utils/dateUtils';
+import { useCustomers, useTrainingsWithCustomers } from '../context/DataStoreContext';
+import { useTrainingEditor } from '../hooks/useTrainingEditor';
+import { LoadError, EmptyState } from './DataState';
+import ExportCsvButton from './ExportCsvButton';
+
+const STATUS_COLORS = {
+  active: 'success',
+  'at-risk': 'warning',
+  lapsed: 'error',
+  new: 'default',
+} as const;
+
+const STATUSES: EngagementStatus[] = ['lapsed', 'at-risk', 'active', 'new'];
+
+const weekdayName = (weekday: number | null) => (weekday === null ? '' : dayjs().day(weekday).format('dddd'));
+
+const perWeek = (value: number | null) => (value === null ? '' : value.toFixed(1));
+
+// Threshold fields as typed; the percentage is shown as a whole number
+type ThresholdDraft = Record<keyof EngagementThresholds, string>;
+
+const toDraft = (thresholds: EngagementThresholds): ThresholdDraft => ({
+  atRiskDays: String(thresholds.atRiskDays),
+  lapsedDays: String(thresholds.lapsedDays),
+  recentWeeks: String(thresholds.recentWeeks),
+  declineRatio: String(Math.round(thresholds.declineRatio * 100)),
+});
+
+// Null while any field is empty, out of range or contradicts another. Every
+// field is a whole number; the percentage becomes a ratio only once checked.
+const fromDraft = (draft: ThresholdDraft): EngagementThresholds | null => {
+  const atRiskDays = Number(draft.atRiskDays);
+  const lapsedDays = Number(draft.lapsedDays);
+  const recentWeeks = Number(draft.recentWeeks);
+  const declinePercent = Number(draft.declineRatio);
+  const valid = [atRiskDays, lapsedDays, recentWeeks, declinePercent].every(value => Number.isInteger(value) && value > 0) &&
+    declinePercent <= 100 &&
+    lapsedDays > atRiskDays;
+  return valid ? { atRiskDays, lapsedDays, recentWeeks, declineRatio: declinePercent / 100 } : null;
+};
+
+const CSV_HEADERS = [
+  { label: 'First Name', key: 'firstname' },
+  { label: 'Last Name', key: 'lastname' },
+  { label: 'Email', key: 'email' },
+  { label: 'Phone', key: 'phone' },
+  { label: 'Status', key: 'status' },
+  { label: 'Reasons', key: 'reasons' },
+  { label: 'Last Session', key: 'lastSession' },
+  { label: 'Days Since', key: 'daysSinceLast' },
+  { label: 'Recent Sessions per Week', key: 'recentPerWeek' },
+  { label: 'Usual Sessions per Week', key: 'usualPerWeek' },
+  { label: 'Usual Activity', key: 'usualActivity' },
+  { label: 'Typical Weekday', key: 'typicalWeekday' },
+];
+
+/**
+ * Clients sorted into active, at risk and lapsed from their training
+ * history, with what they usually do and a quick way to book them back in
+ */
+const ReEngagement = () => {
+  const { customers, isLoading: isLoadingCustomers, error: customersError, reload: reloadCustomers } = useCustomers();
+  const { trainings, isLoading: isLoadingTrainings, error: trainingsError, reload: reloadTrainings } = useTrainingsWithCustomers();
+  const { openAdd, dialogs } = useTrainingEditor();
+  const [draft, setDraft] = useState<ThresholdDraft>(() => toDraft(loadThresholds()));
+  const [thresholds, setThresholds] = useState<EngagementThresholds>(loadThresholds);
+  const [shown, setShown] = useState<EngagementStatus[]>(['lapsed', 'at-risk']);
+
+  const handleThresholdChange = (name: keyof EngagementThresholds, value: string) => {
+    const next = { ...draft, [name]: value };
+    setDraft(next);
+    const parsed = fromDraft(next);
+    if (parsed) {
+      setThresholds(parsed);
+      saveThresholds(parsed);
+    }
+  };
+
+  const handleResetThresholds = () => {
+    setDraft(toDraft(DEFAULT_THRESHOLDS));
+    setThresholds(DEFAULT_THRESHOLDS);
+    saveThresholds(DEFAULT_THRESHOLDS);
+  };
+
+  // Without trainings every client would look like they never trained
+  const clients = useMemo(
+    () => (trainingsError ? [] : classifyClients(customers, trainings, thresholds)),
+    [customers, trainings, trainingsError, thresholds]
+  );
+  const counts = useMemo(() => {
+    const byStatus: Record<EngagementStatus, number> = { active: 0, 'at-risk': 0, lapsed: 0, new: 0 };
+    clients.forEach(client => byStatus[client.status]++);
+    return byStatus;
+  }, [clients]);
+  const rows = useMemo(() => clients.filter(client => shown.includes(client.status)), [clients, shown]);
+
+  const columnDefs = useMemo<ColDef<ClientEngagement>[]>(() => [
+    {
+      colId: 'name',
+      headerName: 'Client',
+      valueGetter: params => (params.data ? `${params.data.customer.firstname} ${params.data.customer.lastname}` : ''),
+      cellRenderer: (params: ICellRendererParams<ClientEngagement>) => params.data && (
+        <Link component={RouterLink} to={`/customers/${params.data.customer.id}`}>{params.value}</Link>
+      ),
+      minWidth: 160,
+      flex: 1.2,
+    },
+    {
+      field: 'status',
+      headerName: 'Status',
+      // Most urgent first when sorted ascending
+      comparator: (a: EngagementStatus, b: EngagementStatus) => STATUSES.indexOf(a) - STATUSES.indexOf(b),
+      cellRenderer: (params: ICellRendererParams<ClientEngagement>) => params.data && (
+        <Tooltip title={params.data.reasons.join('; ')}>
+          <Chip size="small" label={STATUS_LABELS[params.data.status]} color={STATUS_COLORS[params.data.status]} />
+        </Tooltip>
+      ),
+      minWidth: 130,
+      flex: 0.8,
+    },
+    {
+      colId: 'lastSession',
+      headerName: 'Last Session',
+      valueGetter: params => (params.data?.lastSession ? dayjs(params.data.lastSession.date).valueOf() : null),
+      valueFormatter: (params: ValueFormatterParams<ClientEngagement, number | null>) =>
+        (params.value ? formatDate(dayjs(params.value).toISOString()) : '-'),
+      minWidth: 150,
+      flex: 1,
+    },
+    { field: 'daysSinceLast', headerName: 'Days Since', minWidth: 110, flex: 0.6 },
+    {
+      field: 'recentPerWeek',
+      headerName: 'Recent / Week',
+      headerTooltip: 'Sessions per week in the recent window',
+      valueFormatter: params => perWeek(params.value),
+      minWidth: 120,
+      flex: 0.7,
+    },
+    {
+      field: 'usualPerWeek',
+      headerName: 'Usual / Week',
+      headerTooltip: 'Sessions per week before the recent window',
+      valueFormatter: params => perWeek(params.value),
+      minWidth: 120,
+      flex: 0.7,
+    },
+    { field: 'usualActivity', headerName: 'Usual Activity', minWidth: 130, flex: 0.9 },
+    {
+      field: 'typicalWeekday',
+      headerName: 'Typical Day',
+      valueFormatter: params => weekdayName(params.value),
+      // Monday first, like the calendar
+      comparator: (a: number | null, b: number | null) => ((a ?? 7) + 6) % 7 - ((b ?? 7) + 6) % 7,
+      minWidth: 120,
+      flex: 0.7,
+    },
+    {
+      colId: 'actions',
+      headerName: '',
+      sortable: false,
+      minWidth: 140,
+      flex: 0.8,
+      cellRenderer: (params: ICellRendererParams<ClientEngagement>) => params.data && (
+        <Button
+          size="small"
+          startIcon={<EventIcon />}
+          onClick={() => params.data && openAdd(params.data.customer, params.data.suggestion ?? undefined)}
+        >
+          Schedule
+        </Button>
+      ),
+    },
+  ], [openAdd]);
+
+  const defaultColDef = useMemo<ColDef>(() => ({ resizable: true, sortable: true }), []);
+
+  const getRowId = useCallback(
+    (params: { data: ClientEngagement }) => String(params.data.customer.id),
+    []
+  );
+
+  const loadExportData = async () => rows.map(client => ({
+    firstname: client.customer.firstname,
+    lastname: client.customer.lastname,
+    email: client.customer.email,
+    phone: client.customer.phone,
+    status: STATUS_LABELS[client.status],
+    reasons: client.reasons.join('; '),
+    lastSession: client.lastSession ? formatDate(client.lastSession.date) : '',
+    daysSinceLast: client.daysSinceLast ?? '',
+    recentPerWeek: perWeek(client.recentPerWeek),
+    usualPerWeek: perWeek(client.usualPerWeek),
+    usualActivity: client.usualActivity ?? '',
+    typicalWeekday: weekdayName(client.typicalWeekday),
+  }));
+
+  const error = trainingsError || customersError;
+  const isLoading = (isLoadingCustomers && customers.length === 0) || (isLoadingTrainings && trainings.length === 0);
+  const thresholdsValid = fromDraft(draft) !== null;
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, width: '100%' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h4" gutterBottom>
+          Re-engagement
+        </Typography>
+        <ExportCsvButton filename="re-engagement.csv" headers={CSV_HEADERS} loadData={loadExportData} />
+      </Box>
+
+      <Stack direction="row" spacing={2} sx={{ mb: 2, flexWrap: 'wrap', alignItems: 'flex-start' }} useFlexGap>
+        <TextField
+          size="small"
+          type="number"
+          label="At risk after (days)"
+          value={draft.atRiskDays}
+          onChange={event => handleThresholdChange('atRiskDays', event.target.value)}
+          sx={{ width: 170 }}
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="Lapsed after (days)"
+          value={draft.lapsedDays}
+          onChange={event => handleThresholdChange('lapsedDays', event.target.value)}
+          sx={{ width: 170 }}
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="Recent window (weeks)"
+          value={draft.recentWeeks}
+          onChange={event => handleThresholdChange('recentWeeks', event.target.value)}
+          sx={{ width: 170 }}
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="Declining below (% of usual)"
+          value={draft.declineRatio}
+          onChange={event => handleThresholdChange('declineRatio', event.target.value)}
+          sx={{ width: 210 }}
+        />
+        <Button onClick={handleResetThresholds}>Reset</Button>
+      </Stack>
+      {!thresholdsValid && (
+        <Typography variant="caption" color="error" display="block" sx={{ mt: -1, mb: 2 }}>
+          Thresholds must be positive, with lapsed after more days than at risk and the percentage at most 100.
+          The last valid ones are in use.
+        </Typography>
+      )}
+
+      <ToggleButtonGroup
+        size="small"
+        value={shown}
+        onChange={(_event, next: EngagementStatus[]) => setShown(next)}
+        sx={{ mb: 2 }}
+      >
+        {STATUSES.map(status => (
+          <ToggleButton key={status} value={status}>
+            {STATUS_LABELS[status]} ({counts[status]})
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+
+      {trainingsError || (customersError && customers.length === 0) ? (
+        <LoadError
+          title="Could not load clients"
+          error={error}
+          onRetry={() => {
+            reloadCustomers();
+            reloadTrainings();
+          }}
+        />
+      ) : isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress />
+        </Box>
+      ) : customers.length === 0 ? (
+        <EmptyState message="No customers yet. Clients will be sorted by activity once they have trainings." />
+      ) : (
+        <Box className="ag-theme-material" sx={{ height: 600, width: '100%' }}>
+          <AgGridReact
+            rowData={rows}
+            columnDefs={columnDefs}
+            defaultColDef={defaultColDef}
+            getRowId={getRowId}
+            animateRows={true}
+            pagination={true}
+            paginationPageSize={25}
+            paginationPageSizeSelector={[10, 25, 50, 100]}
+            overlayNoRowsTemplate="No clients with the chosen statuses."
+          />
+        </Box>
+      )}
+
+      {dialogs}
+    </Paper>
+  );
+};
+
+export default ReEngagement;
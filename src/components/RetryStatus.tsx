@@ -0,0 +1,31 @@
+import { Alert, CircularProgress } from '@mui/material';
+import { useRetryStatus } from '../hooks/useRetryStatus';
+
+/**
+ * Banner shown while requests are being retried after timeouts or
+ * temporary server errors; hidden when nothing is retrying
+ */
+const RetryStatus = () => {
+  const retries = useRetryStatus();
+
+  if (retries.length === 0) {
+    return null;
+  }
+
+  const [latest] = retries.slice(-1);
+  const message = retries.length === 1
+    ? `${latest.reason} Retrying (attempt ${latest.attempt} of ${latest.maxAttempts})...`
+    : `${latest.reason} Retrying ${retries.length} requests...`;
+
+  return (
+    <Alert
+      severity="warning"
+      icon={<CircularProgress size={20} color="inherit" />}
+      sx={{ borderRadius: 0 }}
+    >
+      {message}
+    </Alert>
+  );
+};
+
+export default RetryStatus;
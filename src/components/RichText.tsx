@@ -0,0 +1,49 @@
+import { Fragment } from 'react';
+import { Box, Link, Typography } from '@mui/material';
+import { RichInline, parseRichText } from '../utils/richText';
+
+const Inlines = ({ inlines }: { inlines: RichInline[] }) => (
+  <>
+    {inlines.map((inline, index) => (
+      inline.href ? (
+        <Link key={index} href={inline.href} target="_blank" rel="noopener noreferrer">{inline.text}</Link>
+      ) : inline.bold ? (
+        <strong key={index}>{inline.text}</strong>
+      ) : inline.italic ? (
+        <em key={index}>{inline.text}</em>
+      ) : (
+        <Fragment key={index}>{inline.text}</Fragment>
+      )
+    ))}
+  </>
+);
+
+/**
+ * A note's rich-text-lite rendered as paragraphs and bullet lists
+ */
+const RichText = ({ text }: { text: string }) => (
+  <>
+    {parseRichText(text).map((block, index) => (
+      block.type === 'list' ? (
+        <Box key={index} component="ul" sx={{ my: 0.5, pl: 3 }}>
+          {block.items.map((item, itemIndex) => (
+            <Typography key={itemIndex} component="li" variant="body2">
+              <Inlines inlines={item} />
+            </Typography>
+          ))}
+        </Box>
+      ) : (
+        <Typography key={index} variant="body2" sx={{ my: 0.5 }}>
+          {block.lines.map((line, lineIndex) => (
+            <Fragment key={lineIndex}>
+              {lineIndex > 0 && <br />}
+              <Inlines inlines={line} />
+            </Fragment>
+          ))}
+        </Typography>
+      )
+    ))}
+  </>
+);
+
+export default RichText;
@@ -0,0 +1,37 @@
+import { MenuItem, TextField } from '@mui/material';
+import { useTags } from '../hooks/useTags';
+
+interface SegmentSelectProps {
+  // Saved segment id, or '' for every customer
+  value: string;
+  onChange: (segmentId: string) => void;
+}
+
+/**
+ * Limit a view to the customers of a saved segment
+ */
+const SegmentSelect = ({ value, onChange }: SegmentSelectProps) => {
+  const { segments } = useTags();
+  // A segment deleted elsewhere falls back to everyone
+  const selected = segments.some(({ id }) => id === value) ? value : '';
+
+  return (
+    <TextField
+      select
+      size="small"
+      label="Segment"
+      value={selected}
+      onChange={event => onChange(event.target.value)}
+      sx={{ minWidth: 200 }}
+      disabled={segments.length === 0}
+      helperText={segments.length === 0 ? 'Save a tag filter on Customers to add segments' : undefined}
+    >
+      <MenuItem value="">All customers</MenuItem>
+      {segments.map(segment => (
+        <MenuItem key={segment.id} value={segment.id}>{segment.name}</MenuItem>
+      ))}
+    </TextField>
+  );
+};
+
+export default SegmentSelect;
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useMemo } from 'react';
 import { Paper, Typography, Box, CircularProgress, Grid } from '@mui/material';
 import { 
   BarChart, 
@@ -13,30 +13,24 @@ import {
   Pie,
   Cell
 } from 'recharts';
-import { getTrainings } from '../services/api';
+import { LoadError, EmptyState } from './DataState';
 import { groupBy, sumBy } from 'lodash';
-import { Training } from '../types';
+import { useTrainingsWithCustomers } from '../context/DataStoreContext';
+import { useSegmentSelection } from '../hooks/useTags';
+import SegmentSelect from './SegmentSelect';
 
 const Statistics = () => {
-  const [trainings, setTrainings] = useState<Training[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const { trainings: allTrainings, isLoading, error: loadError, reload } = useTrainingsWithCustomers();
+  const [segmentId, setSegmentId] = useState('');
+  const { customerIds: segmentIds } = useSegmentSelection(segmentId);
 
-  // Fetch trainings on component mount
-  const fetchTrainings = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const data = await getTrainings();
-      setTrainings(data);
-    } catch (error) {
-      console.error('Error fetching trainings:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchTrainings();
-  }, [fetchTrainings]);
+  // Only the trainings of the chosen segment's customers
+  const trainings = useMemo(
+    () => (segmentIds
+      ? allTrainings.filter(training => training.customer && segmentIds.has(training.customer.id))
+      : allTrainings),
+    [allTrainings, segmentIds]
+  );
 
   // Group and sum minutes by activity using lodash
   const activityStats = useMemo(() => {
@@ -95,14 +89,25 @@ const Statistics = () => {
 
   return (
     <Paper elevation={3} sx={{ p: 3, width: '100%' }}>
-      <Typography variant="h4" gutterBottom>
-        Activity Statistics
-      </Typography>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2 }}>
+        <Typography variant="h4" gutterBottom>
+          Activity Statistics
+        </Typography>
+        <SegmentSelect value={segmentId} onChange={setSegmentId} />
+      </Box>
 
       {isLoading ? (
         <Box sx={{ display: 'flex', justifyContent: 'center', p: 5 }}>
           <CircularProgress />
         </Box>
+      ) : loadError ? (
+        <LoadError title="Could not load statistics" error={loadError} onRetry={reload} />
+      ) : trainings.length === 0 ? (
+        <EmptyState
+          message={segmentIds
+            ? 'No trainings for the customers in this segment.'
+            : 'No trainings recorded yet. Statistics will appear once trainings are added.'}
+        />
       ) : (
         <>
           <Grid container spacing={3}>
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import {
+  Autocomplete,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import BookmarkAddIcon from '@mui/icons-material/BookmarkAdd';
+import LocalOfferIcon from '@mui/icons-material/LocalOffer';
+import { TagFilter, TagMatch, allTags, saveSegment } from '../services/tags';
+import { useTags } from '../hooks/useTags';
+import { useNotification } from '../context/NotificationContext';
+import ManageTagsDialog from './ManageTagsDialog';
+
+interface TagFilterBarProps {
+  filter: TagFilter;
+  onChange: (filter: TagFilter) => void;
+}
+
+/**
+ * Narrow the customer list to customers with any or all of some tags, save
+ * that as a segment, or open tag management
+ */
+const TagFilterBar = ({ filter, onChange }: TagFilterBarProps) => {
+  const tagState = useTags();
+  const { showNotification } = useNotification();
+  const [segmentName, setSegmentName] = useState<string | null>(null);
+  const [manageOpen, setManageOpen] = useState(false);
+
+  const handleSaveSegment = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (segmentName?.trim()) {
+      const segment = saveSegment(segmentName, filter);
+      showNotification(`Segment "${segment.name}" saved`, 'success');
+      setSegmentName(null);
+    }
+  };
+
+  return (
+    <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ alignItems: { md: 'center' } }}>
+      <Autocomplete
+        multiple
+        size="small"
+        sx={{ flex: 1 }}
+        options={allTags(tagState).map(({ tag }) => tag)}
+        value={filter.tags}
+        onChange={(_, tags) => onChange({ ...filter, tags })}
+        renderInput={params => <TextField {...params} label="Filter by Tags" />}
+        noOptionsText="No tags yet"
+      />
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={filter.match}
+        onChange={(_, match: TagMatch | null) => match && onChange({ ...filter, match })}
+        aria-label="tag match"
+      >
+        <ToggleButton value="any">Any Tag</ToggleButton>
+        <ToggleButton value="all">All Tags</ToggleButton>
+      </ToggleButtonGroup>
+      <Button
+        startIcon={<BookmarkAddIcon />}
+        disabled={filter.tags.length === 0}
+        onClick={() => setSegmentName('')}
+      >
+        Save as Segment
+      </Button>
+      <Button startIcon={<LocalOfferIcon />} onClick={() => setManageOpen(true)}>
+        Manage Tags
+      </Button>
+
+      <Dialog open={segmentName !== null} onClose={() => setSegmentName(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Save Segment</DialogTitle>
+        <form onSubmit={handleSaveSegment}>
+          <DialogContent>
+            <TextField
+              autoFocus
+              fullWidth
+              margin="dense"
+              label="Segment Name"
+              value={segmentName ?? ''}
+              onChange={event => setSegmentName(event.target.value)}
+              helperText={`Customers with ${filter.match === 'all' ? 'all' : 'any'} of: ${filter.tags.join(', ')}`}
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setSegmentName(null)}>Cancel</Button>
+            <Button type="submit" variant="contained" disabled={!segmentName?.trim()}>
+              Save
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+
+      <ManageTagsDialog open={manageOpen} onClose={() => setManageOpen(false)} />
+    </Stack>
+  );
+};
+
+export default TagFilterBar;
@@ -1,4 +1,4 @@
-import { useState, useEffect, FC, useCallback } from 'react';
+import { useState, useEffect, useMemo, FC } from 'react';
 import {
   Dialog,
   DialogActions,
@@ -12,27 +12,21 @@ import {
   InputLabel,
   Select,
   SelectChangeEvent,
+  FormControlLabel,
+  Switch,
   Typography
 } from '@mui/material';
 import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
 import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import dayjs, { Dayjs } from 'dayjs';
-import { Customer, Training } from '../types';
-import { getCustomerId, extractIdFromUrl } from '../services/api';
-
-// Available activities list
-const ACTIVITIES = [
-  'Gym training', 
-  'Fitness', 
-  'Zumba', 
-  'Jogging', 
-  'Spinning', 
-  'Pilates', 
-  'Yoga',
-  'Running',
-  'Swimming'
-];
+import { Customer, Training, TrainingInput } from '../types';
+import { EditConflict, TRAINING_FIELDS, mergeChanges } from '../services/conflicts';
+import { formatDate } from '../utils/dateUtils';
+import { ACTIVITIES } from '../config/activities';
+import { RecurrenceRule, defaultRecurrence, expandRecurrence } from '../utils/recurrence';
+import ConflictFields from './ConflictFields';
+import TrainingSeriesFields from './TrainingSeriesFields';
 
 // Form data interface
 interface TrainingFormData {
@@ -50,13 +44,41 @@ const DEFAULT_FORM_DATA: TrainingFormData = {
   customerId: '',
 };
 
+const toFormData = (training: TrainingInput): TrainingFormData => ({
+  date: dayjs(training.date),
+  duration: training.duration,
+  activity: training.activity,
+  customerId: Number.isNaN(training.customerId) ? '' : String(training.customerId),
+});
+
+// A new training's starting values, with any the caller suggests
+const withPreset = (preset?: Partial<Omit<TrainingInput, 'customerId'>>): TrainingFormData => ({
+  ...DEFAULT_FORM_DATA,
+  ...(preset?.date ? { date: dayjs(preset.date) } : {}),
+  ...(preset?.duration ? { duration: preset.duration } : {}),
+  ...(preset?.activity ? { activity: preset.activity } : {}),
+});
+
+const toTrainingInput = (formData: TrainingFormData): TrainingInput => ({
+  date: formData.date.toISOString(),
+  duration: Number(formData.duration),
+  activity: formData.activity,
+  customerId: Number(formData.customerId),
+});
+
 interface TrainingFormDialogProps {
   open: boolean;
   customers: Customer[];
   selectedCustomer: Customer | null;
-  onSave: (training: { date: string; duration: number; activity: string; customer: string }) => void;
+  onSave: (training: TrainingInput) => void;
+  // When given, new trainings can repeat and the whole series comes here instead
+  onSaveSeries?: (trainings: TrainingInput[]) => void;
   onCancel: () => void;
   training?: Training; // Optional training for edit mode
+  // Starting values for a new training, like a client's usual activity and time
+  preset?: Partial<Omit<TrainingInput, 'customerId'>>;
+  // Set when an update clashed with someone else's; the form then merges the two
+  conflict?: EditConflict<TrainingInput>;
 }
 
 /**
@@ -101,14 +123,11 @@ const CustomerSelector: FC<{
       label="Customer"
       required
     >
-      {customers.map((customer) => {
-        const customerId = getCustomerId(customer) || '';
-        return (
-          <MenuItem key={customerId} value={customerId}>
-            {`${customer.firstname} ${customer.lastname}`}
-          </MenuItem>
-        );
-      })}
+      {customers.map((customer) => (
+        <MenuItem key={customer.id} value={String(customer.id)}>
+          {`${customer.firstname} ${customer.lastname}`}
+        </MenuItem>
+      ))}
     </Select>
   </FormControl>
 );
@@ -122,79 +141,58 @@ const TrainingFormDialog: FC<TrainingFormDialogProps> = ({
   customers,
   selectedCustomer,
   onSave,
+  onSaveSeries,
   onCancel,
-  training
+  training,
+  preset,
+  conflict
 }) => {
   // Training form state
   const [formData, setFormData] = useState<TrainingFormData>(DEFAULT_FORM_DATA);
+  // Repeat settings, used only while `repeat` is on
+  const [repeat, setRepeat] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(() => defaultRecurrence(dayjs()));
 
   // Determine if we're in edit mode
   const isEditMode = Boolean(training);
-  
-  /**
-   * Get customer ID from training or selected customer
-   */
-  const getCustomerIdFromProps = useCallback((
-    trainingObj?: Training, 
-    customerObj?: Customer | null
-  ): string => {
-    // Case 1: Get ID from training
-    if (trainingObj?.customer) {
-      // Try standard method first
-      const customerId = getCustomerId(trainingObj.customer);
-      if (customerId) return customerId;
-      
-      // Try direct ID access
-      if ('id' in trainingObj.customer && trainingObj.customer.id) {
-        return String(trainingObj.customer.id);
-      }
-      
-      // Try links
-      if (trainingObj.customer.links?.self?.href) {
-        const idFromLink = extractIdFromUrl(trainingObj.customer.links.self.href);
-        if (idFromLink) return idFromLink;
-      }
-      
-      // Last resort - customer link in training
-      if (trainingObj.links?.customer?.href) {
-        return trainingObj.links.customer.href;
-      }
-    }
-    
-    // Case 2: Get ID from selected customer
-    if (customerObj) {
-      const customerId = getCustomerId(customerObj);
-      if (customerId) return customerId;
-      
-      if (customerObj.links?.self?.href) {
-        return customerObj.links.self.href;
-      }
-    }
-    
-    return '';
-  }, []);
+  const isSeries = repeat && !isEditMode && !conflict && Boolean(onSaveSeries);
+
+  const occurrences = useMemo(
+    () => expandRecurrence(formData.date, recurrence),
+    [formData.date, recurrence]
+  );
   
   // Update form when training or selectedCustomer changes
   useEffect(() => {
-    if (training) {
+    if (conflict) {
+      setFormData(toFormData(mergeChanges(TRAINING_FIELDS, conflict)));
+    } else if (training) {
       // Edit mode - populate form with training data
       setFormData({
         date: dayjs(training.date),
         duration: training.duration,
         activity: training.activity,
-        customerId: getCustomerIdFromProps(training),
+        // Empty until the training's customer has been resolved
+        customerId: training.customer ? String(training.customer.id) : '',
       });
     } else if (selectedCustomer) {
       // Add mode with preselected customer
       setFormData({
-        ...DEFAULT_FORM_DATA,
-        customerId: getCustomerIdFromProps(undefined, selectedCustomer),
+        ...withPreset(preset),
+        customerId: String(selectedCustomer.id),
       });
     } else {
       // Reset form
-      setFormData(DEFAULT_FORM_DATA);
+      setFormData(withPreset(preset));
     }
-  }, [training, selectedCustomer, getCustomerIdFromProps]);
+  }, [training, selectedCustomer, preset, conflict]);
+
+  // Each time the dialog opens it starts with a single training
+  useEffect(() => {
+    if (open) {
+      setRepeat(false);
+    }
+  }, [open]);
 
   /**
    * Handle form input changes
@@ -229,18 +227,42 @@ const TrainingFormDialog: FC<TrainingFormDialogProps> = ({
     }
   };
 
+  /**
+   * Show dates and customers the way the form does
+   */
+  const formatConflictValue = (name: keyof TrainingInput, value: TrainingInput[keyof TrainingInput]) => {
+    if (name === 'date') {
+      return formatDate(String(value));
+    }
+    if (name === 'customerId') {
+      const customer = customers.find(candidate => candidate.id === value);
+      return customer ? `${customer.firstname} ${customer.lastname}` : 'Unknown customer';
+    }
+    return String(value);
+  };
+
+  /**
+   * Turn repeating on, starting with a weekly series on the form's weekday
+   */
+  const handleRepeatChange = (checked: boolean) => {
+    if (checked) {
+      setRecurrence(defaultRecurrence(formData.date));
+    }
+    setRepeat(checked);
+  };
+
   /**
    * Handle form submission
    */
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    onSave({
-      date: formData.date.toISOString(),
-      duration: formData.duration,
-      activity: formData.activity,
-      customer: formData.customerId
-    });
+    if (isSeries && onSaveSeries) {
+      const input = toTrainingInput(formData);
+      onSaveSeries(occurrences.dates.map(date => ({ ...input, date: date.toISOString() })));
+      return;
+    }
+    onSave(toTrainingInput(formData));
   };
 
   return (
@@ -255,12 +277,24 @@ const TrainingFormDialog: FC<TrainingFormDialogProps> = ({
     >
       <DialogTitle>
         <Typography variant="h6" component="div">
-          {isEditMode ? 'Edit Training' : 'Add Training'}
+          {conflict ? 'Resolve Conflicting Changes' : isEditMode ? 'Edit Training' : 'Add Training'}
         </Typography>
       </DialogTitle>
       
       <form onSubmit={handleSubmit}>
         <DialogContent>
+          {conflict && (
+            <ConflictFields
+              fields={TRAINING_FIELDS}
+              conflict={conflict}
+              current={toTrainingInput(formData)}
+              onPick={(name, value) => setFormData(prev => ({
+                ...prev,
+                ...toFormData({ ...toTrainingInput(prev), [name]: value }),
+              }))}
+              format={formatConflictValue}
+            />
+          )}
           <Grid container spacing={3}>
             <Grid item xs={12}>
               <LocalizationProvider dateAdapter={AdapterDayjs}>
@@ -306,6 +340,24 @@ const TrainingFormDialog: FC<TrainingFormDialogProps> = ({
                 </Typography>
               )}
             </Grid>
+
+            {!isEditMode && !conflict && onSaveSeries && (
+              <Grid item xs={12}>
+                <FormControlLabel
+                  control={<Switch checked={repeat} onChange={event => handleRepeatChange(event.target.checked)} />}
+                  label="Repeat"
+                />
+                {repeat && (
+                  <TrainingSeriesFields
+                    start={formData.date}
+                    duration={formData.duration}
+                    rule={recurrence}
+                    occurrences={occurrences}
+                    onChange={setRecurrence}
+                  />
+                )}
+              </Grid>
+            )}
           </Grid>
         </DialogContent>
         
@@ -317,9 +369,11 @@ const TrainingFormDialog: FC<TrainingFormDialogProps> = ({
             type="submit" 
             variant="contained" 
             color="primary"
-            disabled={!formData.customerId}
+            disabled={!formData.customerId || (isSeries && occurrences.dates.length === 0)}
           >
-            {isEditMode ? 'Update' : 'Save'}
+            {conflict
+              ? 'Save Merged'
+              : isEditMode ? 'Update' : isSeries ? `Save ${occurrences.dates.length} Sessions` : 'Save'}
           </Button>
         </DialogActions>
       </form>
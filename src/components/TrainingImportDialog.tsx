@@ -0,0 +1,446 @@
+import { useState, useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  MenuItem,
+  Stack,
+  Step,
+  StepLabel,
+  Stepper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { CSVLink } from 'react-csv';
+import { orderBy } from 'lodash';
+import { Customer } from '../types';
+import { useCustomers, useDataStore } from '../context/DataStoreContext';
+import { useNotification } from '../context/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import {
+  CustomerResolution,
+  TRAINING_IMPORT_FIELDS,
+  TrainingImportRow,
+  TrainingMapping,
+  autoResolve,
+  buildTrainingRows,
+  collectCustomerReferences,
+  guessTrainingMapping,
+  isValidTrainingRow,
+  toImportedTraining,
+} from '../services/trainingImport';
+import { ParsedCsv } from '../utils/csv';
+import { formatDate } from '../utils/dateUtils';
+import { CsvFileStep, ColumnMappingStep } from './CsvImportSteps';
+import { LoadError } from './DataState';
+
+interface TrainingImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type RowResult =
+  | { status: 'created' | 'queued' | 'wouldCreate' }
+  | { status: 'failed' | 'skipped'; message: string };
+
+const STEPS = ['Upload', 'Map columns', 'Match customers', 'Preview', 'Report'];
+
+const RESULT_CHIPS = {
+  created: { label: 'Created', color: 'success' },
+  queued: { label: 'Queued offline', color: 'info' },
+  wouldCreate: { label: 'Would be created', color: 'success' },
+  failed: { label: 'Failed', color: 'error' },
+  skipped: { label: 'Skipped', color: 'default' },
+} as const;
+
+const REPORT_HEADERS = [
+  { label: 'Line', key: 'line' },
+  { label: 'Problem', key: 'problem' },
+  ...TRAINING_IMPORT_FIELDS.map(({ name, label }) => ({ label, key: name })),
+];
+
+const customerName = (customer: Customer) => `${customer.firstname} ${customer.lastname}`;
+
+const describeErrors = (row: TrainingImportRow) =>
+  TRAINING_IMPORT_FIELDS
+    .filter(({ name }) => row.errors[name])
+    .map(({ name, label }) => `${label}: ${row.errors[name]}`)
+    .join(', ');
+
+/**
+ * Import wizard for training logs kept in a spreadsheet: upload a CSV, map
+ * its columns, settle which customer each name or email means, preview,
+ * then create the trainings. A dry run goes through every check and reports
+ * what would happen without saving anything; rows that fail or are skipped
+ * can be downloaded as an error report.
+ */
+const TrainingImportDialog = ({ open, onClose }: TrainingImportDialogProps) => {
+  const { invalidate, addTraining } = useDataStore();
+  const { customers, isLoading: isLoadingCustomers, error: customersError, reload: reloadCustomers } = useCustomers();
+  const { showNotification } = useNotification();
+
+  const [step, setStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [mapping, setMapping] = useState<TrainingMapping | null>(null);
+  // Customers the user picked for references that didn't match exactly one
+  const [picked, setPicked] = useState<CustomerResolution>({});
+  const [results, setResults] = useState<Record<number, RowResult>>({});
+  const [isDryRun, setIsDryRun] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const rows = useMemo(() => (csv && mapping ? buildTrainingRows(csv, mapping) : []), [csv, mapping]);
+  const references = useMemo(() => collectCustomerReferences(rows, customers), [rows, customers]);
+  const unresolved = references.filter(reference => reference.candidates.length !== 1);
+  const resolution = useMemo(() => ({ ...autoResolve(references), ...picked }), [references, picked]);
+  const sortedCustomers = useMemo(() => orderBy(customers, ['lastname', 'firstname']), [customers]);
+
+  const customersById = useMemo(
+    () => new Map(customers.map(customer => [customer.id, customer])),
+    [customers]
+  );
+  const resolvedCustomer = (row: TrainingImportRow) => {
+    const customerId = resolution[row.customerKey];
+    return customerId === undefined || customerId === null ? undefined : customersById.get(customerId);
+  };
+
+  // Why a row won't be imported; undefined for rows that will
+  const problemOf = (row: TrainingImportRow) => {
+    if (!isValidTrainingRow(row)) {
+      return describeErrors(row);
+    }
+    if (!resolvedCustomer(row)) {
+      return resolution[row.customerKey] === null ? 'Customer skipped' : 'Customer not matched';
+    }
+    return undefined;
+  };
+
+  const readyRows = rows.filter(row => !problemOf(row));
+
+  const reset = () => {
+    setStep(0);
+    setFileName('');
+    setCsv(null);
+    setMapping(null);
+    setPicked({});
+    setResults({});
+  };
+
+  const handleClose = () => {
+    if (isImporting) {
+      return;
+    }
+    reset();
+    onClose();
+  };
+
+  const handleFileLoaded = (name: string, parsed: ParsedCsv) => {
+    setFileName(name);
+    setCsv(parsed);
+    setMapping(guessTrainingMapping(parsed.headers));
+    setPicked({});
+    setStep(1);
+  };
+
+  /**
+   * Create the ready rows one at a time so each gets its own result, or with
+   * `dryRun` only record what would be created. Lists are refreshed once at
+   * the end rather than after every row.
+   */
+  const runImport = async (dryRun: boolean) => {
+    const skipped = rows.reduce<Record<number, RowResult>>((report, row) => {
+      const problem = problemOf(row);
+      return problem ? { ...report, [row.line]: { status: 'skipped', message: problem } } : report;
+    }, {});
+    setIsDryRun(dryRun);
+    setStep(4);
+
+    if (dryRun) {
+      setResults({
+        ...skipped,
+        ...Object.fromEntries(readyRows.map(row => [row.line, { status: 'wouldCreate' }])),
+      });
+      return;
+    }
+
+    setResults(skipped);
+    setIsImporting(true);
+    let created = 0;
+    for (const row of readyRows) {
+      let result: RowResult;
+      try {
+        const customerId = resolution[row.customerKey] as number;
+        const outcome = await addTraining(toImportedTraining(row, customerId), { refetch: false });
+        result = { status: outcome === 'synced' ? 'created' : 'queued' };
+        created++;
+      } catch (error) {
+        result = { status: 'failed', message: getErrorMessage(error) };
+      }
+      setResults(prev => ({ ...prev, [row.line]: result }));
+    }
+    setIsImporting(false);
+    invalidate(['trainings']);
+
+    const failed = readyRows.length - created;
+    showNotification(
+      failed === 0
+        ? `Imported ${created} training${created === 1 ? '' : 's'}`
+        : `Imported ${created} of ${readyRows.length} trainings, ${failed} failed`,
+      failed === 0 ? 'success' : 'warning'
+    );
+  };
+
+  const reportedRows = rows.filter(row => results[row.line]);
+  const errorReport = rows.flatMap(row => {
+    const result = results[row.line];
+    return result && 'message' in result ? [{ line: row.line, problem: result.message, ...row.values }] : [];
+  });
+  const finished = Object.keys(results).length;
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Import Trainings from CSV</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={step} sx={{ mb: 3 }}>
+          {STEPS.map(label => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {step === 0 && (
+          <CsvFileStep
+            description="Choose a CSV file with one training per row and a header line naming the columns. Customers are found by email, or by full name when the file has no email column. Files exported from this app can be imported as they are."
+            onLoaded={handleFileLoaded}
+          />
+        )}
+
+        {step === 1 && csv && mapping && (
+          <ColumnMappingStep
+            fields={TRAINING_IMPORT_FIELDS}
+            required={['date', 'duration', 'activity']}
+            fileName={fileName}
+            csv={csv}
+            mapping={mapping}
+            onChange={setMapping}
+          />
+        )}
+
+        {step === 2 && (
+          customersError && customers.length === 0 ? (
+            <LoadError title="Could not load customers" error={customersError} onRetry={reloadCustomers} />
+          ) : isLoadingCustomers ? (
+            <LinearProgress />
+          ) : unresolved.length === 0 ? (
+            <Alert severity="success">
+              Every customer in the file matches exactly one existing customer.
+            </Alert>
+          ) : (
+            <>
+              <Typography sx={{ mb: 2 }}>
+                These customers match more than one existing customer, or none. Choose who they are,
+                or skip their trainings.
+              </Typography>
+              <Stack spacing={2}>
+                {unresolved.map(reference => {
+                  const options = reference.candidates.length > 0 ? reference.candidates : sortedCustomers;
+                  const value = picked[reference.key];
+                  return (
+                    <Box key={reference.key}>
+                      <Typography variant="subtitle2">
+                        {[reference.name, reference.email].filter(Boolean).join(' · ')}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>
+                        {reference.candidates.length > 0
+                          ? `${reference.candidates.length} customers match`
+                          : 'No customer matches'}
+                        {`, used on ${reference.lines.length} row${reference.lines.length === 1 ? '' : 's'}`}
+                      </Typography>
+                      <TextField
+                        select
+                        fullWidth
+                        size="small"
+                        label="Customer"
+                        value={value === undefined ? '' : value === null ? 'skip' : String(value)}
+                        onChange={event => setPicked(prev => ({
+                          ...prev,
+                          [reference.key]: event.target.value === 'skip' ? null : Number(event.target.value),
+                        }))}
+                      >
+                        <MenuItem value="skip">
+                          <em>Skip these trainings</em>
+                        </MenuItem>
+                        {options.map(customer => (
+                          <MenuItem key={customer.id} value={String(customer.id)}>
+                            {customerName(customer)}
+                            {customer.email && ` (${customer.email})`}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    </Box>
+                  );
+                })}
+              </Stack>
+            </>
+          )
+        )}
+
+        {step === 3 && (
+          <>
+            <Stack direction="row" spacing={1} sx={{ mb: 2 }}>
+              <Chip label={`${readyRows.length} ready`} color="primary" />
+              <Chip label={`${rows.length - readyRows.length} will be skipped`} variant="outlined" />
+            </Stack>
+            <TableContainer sx={{ maxHeight: 420 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Line</TableCell>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Duration</TableCell>
+                    <TableCell>Activity</TableCell>
+                    <TableCell>Customer</TableCell>
+                    <TableCell>Status</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.map(row => {
+                    const problem = problemOf(row);
+                    const customer = resolvedCustomer(row);
+                    return (
+                      <TableRow key={row.line} hover>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell>{row.date ? formatDate(row.date) : row.values.date || '-'}</TableCell>
+                        <TableCell>{row.values.duration || '-'}</TableCell>
+                        <TableCell>{row.activity ?? (row.values.activity || '-')}</TableCell>
+                        <TableCell>{customer ? customerName(customer) : row.values.customer || row.values.email || '-'}</TableCell>
+                        <TableCell>
+                          {problem ? (
+                            <Typography variant="caption" color="error">{problem}</Typography>
+                          ) : (
+                            <Chip label="Ready" size="small" color="success" />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+
+        {step === 4 && (
+          <>
+            {isDryRun ? (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Dry run: nothing was saved. {readyRows.length} training{readyRows.length === 1 ? '' : 's'} would
+                be created and {errorReport.length} row{errorReport.length === 1 ? '' : 's'} skipped.
+              </Alert>
+            ) : (
+              <LinearProgress
+                variant="determinate"
+                value={rows.length ? (finished / rows.length) * 100 : 100}
+                sx={{ mb: 2 }}
+              />
+            )}
+            <TableContainer sx={{ maxHeight: 420 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Line</TableCell>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Activity</TableCell>
+                    <TableCell>Customer</TableCell>
+                    <TableCell>Result</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {reportedRows.map(row => {
+                    const result = results[row.line];
+                    const customer = resolvedCustomer(row);
+                    return (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell>{row.values.date}</TableCell>
+                        <TableCell>{row.values.activity}</TableCell>
+                        <TableCell>{customer ? customerName(customer) : row.values.customer || row.values.email}</TableCell>
+                        <TableCell>
+                          <Chip size="small" {...RESULT_CHIPS[result.status]} />
+                          {'message' in result && (
+                            <Typography variant="caption" color="text.secondary" display="block">
+                              {result.message}
+                            </Typography>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {step === 4 && errorReport.length > 0 && !isImporting && (
+          <Button
+            component={CSVLink}
+            data={errorReport}
+            headers={REPORT_HEADERS}
+            filename="training-import-errors.csv"
+            startIcon={<FileDownloadIcon />}
+            sx={{ mr: 'auto' }}
+          >
+            Download Error Report
+          </Button>
+        )}
+        {step === 4 && !isDryRun ? (
+          <Button variant="contained" onClick={handleClose} disabled={isImporting}>
+            Done
+          </Button>
+        ) : (
+          <>
+            <Button onClick={handleClose}>Cancel</Button>
+            {step > 0 && <Button onClick={() => setStep(step === 4 ? 3 : step - 1)}>Back</Button>}
+            {(step === 1 || step === 2) && (
+              <Button
+                variant="contained"
+                onClick={() => setStep(step + 1)}
+                disabled={step === 2 && isLoadingCustomers}
+              >
+                Next
+              </Button>
+            )}
+            {step === 3 && (
+              <Button onClick={() => runImport(true)} disabled={rows.length === 0}>
+                Dry Run
+              </Button>
+            )}
+            {(step === 3 || step === 4) && (
+              <Button variant="contained" onClick={() => runImport(false)} disabled={readyRows.length === 0}>
+                Import {readyRows.length} Training{readyRows.length === 1 ? '' : 's'}
+              </Button>
+            )}
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TrainingImportDialog;
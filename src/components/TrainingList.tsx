@@ -1,51 +1,134 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
 import { AgGridReact } from 'ag-grid-react';
-import { ColDef, GridReadyEvent, GridApi } from 'ag-grid-community';
-import { Box, TextField, Typography, Paper, Button, Stack } from '@mui/material';
+import { ColDef, GetRowIdParams, ICellRendererParams } from 'ag-grid-community';
+import { Link as RouterLink } from 'react-router-dom';
+import { Box, Typography, Paper, Button, Stack, Link } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
-import FileDownloadIcon from '@mui/icons-material/FileDownload';
 import EditIcon from '@mui/icons-material/Edit';
-import { CSVLink } from 'react-csv';
-import { Training, Customer } from '../types';
-import { getTrainings, deleteTraining, getCustomers, addTraining, updateTraining, extractIdFromUrl, API_BASE_URL } from '../services/api';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import { Training } from '../types';
+import {
+  getTrainings,
+  getTrainingsPage,
+  PageRequest,
+  RequestOptions,
+} from '../services/api';
 import { formatDate } from '../utils/dateUtils';
-import TrainingFormDialog from './TrainingFormDialog';
-import ConfirmationDialog from './ConfirmationDialog';
+import ExportCsvButton from './ExportCsvButton';
+import TrainingImportDialog from './TrainingImportDialog';
+import SegmentSelect from './SegmentSelect';
+import QuerySearchField from './QuerySearchField';
+import { LoadError, EmptyState } from './DataState';
 import 'ag-grid-community/styles/ag-grid.css';
 import 'ag-grid-community/styles/ag-theme-material.css';
-import axios from 'axios';
-import { useNotification } from '../context/NotificationContext';
+import { useDataStore } from '../context/DataStoreContext';
+import { trainingKey, selectTrainingsWithCustomers } from '../store/dataStore';
+import { useInfiniteGrid, DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '../hooks/useInfiniteGrid';
+import { useTrainingEditor } from '../hooks/useTrainingEditor';
+import { useSegmentSelection } from '../hooks/useTags';
+import { useQuerySearch } from '../hooks/useQuerySearch';
+import { ACTIVITIES } from '../config/activities';
+import { DATE_FILTER_PARAMS, NUMBER_FILTER_PARAMS, TEXT_FILTER_PARAMS } from '../utils/gridFilters';
+import { QueryField } from '../utils/queryLanguage';
+
+// Fields the search box looks in
+const SEARCH_FIELDS = ['activity', 'customer.firstname', 'customer.lastname'];
+
+const QUERY_FIELDS: QueryField[] = [
+  { name: 'date', column: 'date', type: 'date' },
+  { name: 'duration', column: 'duration', type: 'number', aliases: ['minutes'] },
+  { name: 'activity', column: 'activity', type: 'text' },
+  { name: 'lastname', column: 'customer.lastname', type: 'text', aliases: ['customer', 'last'] },
+];
 
 const TrainingList = () => {
-  const [trainings, setTrainings] = useState<Training[]>([]);
-  const [customers, setCustomers] = useState<Customer[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [gridApi, setGridApi] = useState<GridApi | null>(null);
-  
-  // Dialog states
-  const [trainingFormOpen, setTrainingFormOpen] = useState(false);
-  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [selectedTraining, setSelectedTraining] = useState<Training | null>(null);
+  const { state, upsert, resolveCustomerLinks } = useDataStore();
+  const { openAdd, openEdit, openDelete, dialogs } = useTrainingEditor();
+  const querySearch = useQuerySearch(QUERY_FIELDS);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [segmentId, setSegmentId] = useState('');
+  const { customerIds: segmentIds, scope } = useSegmentSelection(segmentId);
 
-  const { showNotification } = useNotification();
+  // Loaded trainings with their customers attached, keyed like the grid rows
+  const { trainings: trainingCollection, customers: customerCollection, customerLinks } = state;
+  const rows = useMemo(() => {
+    const joined = selectTrainingsWithCustomers({
+      trainings: trainingCollection,
+      customers: customerCollection,
+      customerLinks,
+    });
+    return Object.fromEntries(joined.map(training => [trainingKey(training), training]));
+  }, [trainingCollection, customerCollection, customerLinks]);
 
+  // Paged trainings only link to their customer; look those up in one batch
+  useEffect(() => {
+    resolveCustomerLinks();
+  }, [trainingCollection, customerLinks, resolveCustomerLinks]);
+
+  const fetchPage = useCallback(async (pageRequest: PageRequest, options: RequestOptions) => {
+    const page = await getTrainingsPage(pageRequest, options);
+    upsert('trainings', page.items);
+    return page;
+  }, [upsert]);
+
+  // Search, column filters and segments (built from tags only this browser
+  // knows) are applied in the browser over the full list, which carries
+  // customers, since the server only pages and sorts
+  const loadAllTrainings = useCallback(async (options: RequestOptions) => {
+    const allTrainings = await getTrainings(options);
+    upsert('trainings', allTrainings);
+    return allTrainings;
+  }, [upsert]);
+
+  const keepInSegment = useMemo(
+    () => (segmentIds ? (training: Training) => !!training.customer && segmentIds.has(training.customer.id) : undefined),
+    [segmentIds]
+  );
+
+  const { onGridReady, onFilterChanged, datasource, error: loadError, isEmpty, refresh } = useInfiniteGrid({
+    fetchPage,
+    loadAll: loadAllTrainings,
+    searchFields: SEARCH_FIELDS,
+    search: querySearch.search,
+    filterModel: querySearch.filterModel,
+    onFilterModelChange: querySearch.syncFromGrid,
+    rows,
+    getRowKey: trainingKey,
+    invalidatedAt: trainingCollection.invalidatedAt,
+    keep: keepInSegment,
+    scope,
+  });
+
+  // Values offered while typing a query: the usual activities and the
+  // last names of loaded customers
+  const queryValuesOf = useCallback((field: QueryField) => {
+    if (field.column === 'activity') {
+      return ACTIVITIES;
+    }
+    if (field.column === 'customer.lastname') {
+      return customerCollection.ids.map(id => customerCollection.byId[id].lastname);
+    }
+    return [];
+  }, [customerCollection]);
+  
   // Define columns for AG-Grid
   const columnDefs = useMemo<ColDef[]>(() => [
     { 
       field: 'date', 
-      headerName: 'Date', 
-      sortable: true, 
-      filter: true, 
+      headerName: 'Date',
+      sortable: true,
       minWidth: 180,
       flex: 1.2,
-      valueFormatter: (params) => formatDate(params.value)
+      valueFormatter: (params) => (params.value ? formatDate(params.value) : ''),
+      filter: 'agDateColumnFilter',
+      filterParams: DATE_FILTER_PARAMS
     },
     { 
       field: 'duration', 
       headerName: 'Duration (min)', 
       sortable: true, 
-      filter: true, 
+      filter: 'agNumberColumnFilter',
+      filterParams: NUMBER_FILTER_PARAMS,
       minWidth: 120,
       flex: 0.8
     },
@@ -58,35 +141,46 @@ const TrainingList = () => {
       flex: 1
     },
     { 
+      // Sorted on the server by last name
+      colId: 'customer.lastname',
       headerName: 'Customer', 
       sortable: true, 
-      filter: true, 
       minWidth: 180,
       flex: 1.2,
+      // Customers are resolved in batch by the data store; this only reads them
       valueGetter: (params) => {
-        const training = params.data as Training;
+        const training = params.data as Training | undefined;
+        if (!training) {
+          return '';
+        }
         if (training.customer && training.customer.firstname) {
           return `${training.customer.firstname} ${training.customer.lastname}`;
         }
-        // If customer data isn't loaded yet, fetch it
-        if (training.links?.customer) {
-          fetchCustomerForTraining(training);
-          return 'Loading...';
-        }
-        return 'No Customer';
+        return training.links?.customer ? 'Loading...' : 'No Customer';
+      },
+      // Customer names link to the customer's page
+      cellRenderer: (params: ICellRendererParams<Training>) => {
+        const customer = params.data?.customer;
+        return customer?.firstname ? (
+          <Link component={RouterLink} to={`/customers/${customer.id}`}>
+            {params.value}
+          </Link>
+        ) : params.value;
       }
     },
     {
       headerName: 'Actions',
       minWidth: 180,
       flex: 1.2,
+      sortable: false,
+      filter: false,
       cellRenderer: (params: any) => {
         const training = params.data as Training;
         return (
           <Stack direction="row" spacing={1}>
             <Button
               size="small"
-              onClick={() => handleEditTraining(training)}
+              onClick={() => openEdit(training)}
               startIcon={<EditIcon />}
             >
               Edit
@@ -94,7 +188,7 @@ const TrainingList = () => {
             <Button
               size="small"
               color="error"
-              onClick={() => handleDeleteClick(training)}
+              onClick={() => openDelete(training)}
               startIcon={<DeleteIcon />}
             >
               Delete
@@ -103,175 +197,25 @@ const TrainingList = () => {
         );
       }
     }
-  ], []);
+  ], [openEdit, openDelete]);
   
-  // Add a function to fetch customer data for a training if it's not already loaded
-  const fetchCustomerForTraining = useCallback(async (training: Training) => {
-    if (!training.customer && training.links?.customer) {
-      try {
-        const response = await axios.get<Customer>(training.links.customer.href);
-        // Update the training with customer data
-        const updatedTrainings = trainings.map(t => 
-          t.links?.self.href === training.links?.self.href 
-            ? { ...t, customer: response.data } 
-            : t
-        );
-        setTrainings(updatedTrainings);
-      } catch (error) {
-        console.error('Error fetching customer for training:', error);
-      }
-    }
-  }, [trainings]);
+  // Stable row identity lets the grid apply store updates as row deltas
+  const getRowId = useCallback((params: GetRowIdParams<Training>) => trainingKey(params.data), []);
 
-  // Default column settings
-  const defaultColDef = useMemo(() => ({
+  // Default column settings. The conditions offered are the ones the
+  // search query can write, so the two stay in sync.
+  const defaultColDef = useMemo<ColDef>(() => ({
     resizable: true,
     sortable: true,
-    filter: true,
+    filter: 'agTextColumnFilter',
+    filterParams: TEXT_FILTER_PARAMS,
   }), []);
 
-  // Fetch trainings and customers on component mount
-  const fetchData = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const [trainingsData, customersData] = await Promise.all([
-        getTrainings(),
-        getCustomers()
-      ]);
-      setTrainings(trainingsData);
-      setCustomers(customersData);
-    } catch (error) {
-      console.error('Error fetching data:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
-
-  // Filter trainings based on search term
-  const filteredTrainings = useMemo(() => {
-    return trainings.filter((training) => {
-      const customerName = training.customer 
-        ? `${training.customer.firstname} ${training.customer.lastname}`.toLowerCase() 
-        : '';
-      
-      const searchFields = [
-        training.activity.toLowerCase(),
-        customerName,
-        formatDate(training.date).toLowerCase(),
-      ];
-      
-      return searchFields.some(field => field.includes(searchTerm.toLowerCase()));
-    });
-  }, [trainings, searchTerm]);
-
-  // Handle search input change
-  const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(event.target.value);
-  };
-
-  // Grid ready event handler
-  const onGridReady = useCallback((params: GridReadyEvent) => {
-    setGridApi(params.api);
-    params.api.sizeColumnsToFit();
-  }, []);
-
-  // Handle add training button click
-  const handleAddTraining = () => {
-    setSelectedTraining(null);
-    setTrainingFormOpen(true);
-  };
-
-  // Handle edit training button click
-  const handleEditTraining = (training: Training) => {
-    setSelectedTraining(training);
-    setTrainingFormOpen(true);
-  };
-
-  // Handle delete training button click
-  const handleDeleteClick = (training: Training) => {
-    setSelectedTraining(training);
-    setDeleteDialogOpen(true);
-  };
-
-  // Handle training form save
-  const handleTrainingSave = async (trainingData: { date: string; duration: number; activity: string; customer: string }) => {
-    try {
-      let success = false;
-      
-      if (selectedTraining) {
-        // We're editing an existing training
-        // First try to use the id property directly (from /gettrainings endpoint)
-        const trainingId = selectedTraining.id?.toString() || extractIdFromUrl(selectedTraining.links?.self?.href || '');
-        
-        if (trainingId) {
-          success = await updateTraining(trainingId, trainingData);
-        } else {
-          console.error('Cannot update training - no valid ID available');
-          showNotification('Cannot update training - no valid ID available', 'error');
-          return;
-        }
-      } else {
-        // Adding a new training
-        success = await addTraining(trainingData);
-      }
-      
-      if (success) {
-        await fetchData();
-        setTrainingFormOpen(false);
-        showNotification(
-          selectedTraining ? 'Training updated successfully' : 'Training added successfully', 
-          'success'
-        );
-      } else {
-        showNotification(
-          selectedTraining ? 'Failed to update training' : 'Failed to add training', 
-          'error'
-        );
-      }
-    } catch (error) {
-      console.error('Error saving training:', error);
-      showNotification('An error occurred while saving the training', 'error');
-    }
-  };
-
-  // Handle training delete confirmation
-  const handleDeleteConfirm = async () => {
-    if (!selectedTraining) {
-      setDeleteDialogOpen(false);
-      showNotification('No training selected to delete', 'warning');
-      return;
-    }
-    
-    let success = false;
-    
-    // First try to use the id property directly
-    if (selectedTraining.id) {
-      success = await fetch(`${API_BASE_URL}/trainings/${selectedTraining.id}`, {
-        method: 'DELETE',
-      }).then(response => response.ok);
-    } 
-    // Fall back to using links
-    else if (selectedTraining.links?.self?.href) {
-      success = await deleteTraining(selectedTraining);
-    }
-    
-    if (success) {
-      await fetchData();
-      showNotification('Training deleted successfully', 'success');
-    } else {
-      showNotification('Failed to delete training', 'error');
-    }
-    
-    setDeleteDialogOpen(false);
-  };
-
-  // Prepare data for CSV export
-  const exportData = useMemo(() => {
-    return trainings.map(training => {
+  // Prepare data for CSV export. The grid only holds the pages it has shown,
+  // so export fetches every training with its customer.
+  const loadExportData = async () => {
+    const allTrainings = await getTrainings();
+    return allTrainings.map(training => {
       const customerName = training.customer 
         ? `${training.customer.firstname} ${training.customer.lastname}` 
         : 'No Customer';
@@ -283,7 +227,7 @@ const TrainingList = () => {
         customer: customerName
       };
     });
-  }, [trainings]);
+  };
 
   // Define CSV headers
   const csvHeaders = [
@@ -300,74 +244,78 @@ const TrainingList = () => {
           Trainings
         </Typography>
         <Stack direction="row" spacing={2}>
-          <CSVLink 
-            data={exportData}
+          <ExportCsvButton
+            filename="trainings.csv"
             headers={csvHeaders}
-            filename={"trainings.csv"}
-            className="button-link"
-            style={{ textDecoration: 'none' }}
+            loadData={loadExportData}
+          />
+          <Button
+            variant="contained"
+            color="secondary"
+            startIcon={<FileUploadIcon />}
+            onClick={() => setImportDialogOpen(true)}
           >
-            <Button
-              variant="contained"
-              color="secondary"
-              startIcon={<FileDownloadIcon />}
-            >
-              Export CSV
-            </Button>
-          </CSVLink>
+            Import CSV
+          </Button>
           <Button
             variant="contained"
             color="primary"
-            onClick={handleAddTraining}
+            onClick={() => openAdd()}
           >
             Add Training
           </Button>
         </Stack>
       </Box>
       
-      <TextField
-        label="Search Trainings"
-        variant="outlined"
-        fullWidth
-        margin="normal"
-        value={searchTerm}
-        onChange={handleSearchChange}
-        placeholder="Search by activity, customer name, or date"
-      />
+      <Stack direction="row" spacing={2} sx={{ alignItems: 'center' }}>
+        <QuerySearchField
+          label="Search Trainings"
+          placeholder="Search by activity or customer name, or filter like activity:Yoga duration>45 date:2024-03"
+          fields={QUERY_FIELDS}
+          query={querySearch.query}
+          errors={querySearch.errors}
+          onChange={querySearch.setQuery}
+          valuesOf={queryValuesOf}
+        />
+        <SegmentSelect value={segmentId} onChange={setSegmentId} />
+      </Stack>
       
-      <Box className="ag-theme-material" sx={{ height: 600, width: '100%', mt: 2 }}>
+      {loadError ? (
+        <LoadError title="Could not load trainings" error={loadError} onRetry={refresh} />
+      ) : isEmpty && (
+        <EmptyState
+          message="No trainings recorded yet."
+          action={
+            <Button variant="outlined" onClick={() => openAdd()}>
+              Add Training
+            </Button>
+          }
+        />
+      )}
+      {/* The grid stays mounted so it can pick up the first training once added */}
+      <Box
+        className="ag-theme-material"
+        sx={{ height: 600, width: '100%', mt: 2, display: isEmpty ? 'none' : 'block' }}
+      >
         <AgGridReact
-          rowData={filteredTrainings}
+          rowModelType="infinite"
+          datasource={datasource}
+          cacheBlockSize={DEFAULT_PAGE_SIZE}
+          getRowId={getRowId}
           columnDefs={columnDefs}
           defaultColDef={defaultColDef}
           animateRows={true}
           rowSelection="single"
           pagination={true}
-          paginationPageSize={10}
-          paginationPageSizeSelector={[5, 10, 25, 50]}
+          paginationPageSize={DEFAULT_PAGE_SIZE}
+          paginationPageSizeSelector={PAGE_SIZE_OPTIONS}
           onGridReady={onGridReady}
-          domLayout="autoHeight"
+          onFilterChanged={onFilterChanged}
         />
       </Box>
 
-      {/* Training Form Dialog */}
-      <TrainingFormDialog
-        open={trainingFormOpen}
-        customers={customers}
-        selectedCustomer={selectedTraining?.customer || null}
-        training={selectedTraining || undefined}
-        onSave={handleTrainingSave}
-        onCancel={() => setTrainingFormOpen(false)}
-      />
-
-      {/* Delete Confirmation Dialog */}
-      <ConfirmationDialog
-        open={deleteDialogOpen}
-        title="Delete Training"
-        message={`Are you sure you want to delete this training session?`}
-        onConfirm={handleDeleteConfirm}
-        onCancel={() => setDeleteDialogOpen(false)}
-      />
+      {dialogs}
+      <TrainingImportDialog open={importDialogOpen} onClose={() => setImportDialogOpen(false)} />
     </Paper>
   );
 };
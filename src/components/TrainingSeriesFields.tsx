@@ -0,0 +1,212 @@
+import { useState, useMemo, FC } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import EventBusyIcon from '@mui/icons-material/EventBusy';
+import dayjs, { Dayjs } from 'dayjs';
+import { MAX_OCCURRENCES, Occurrences, RecurrenceFrequency, RecurrenceRule, findClashes } from '../utils/recurrence';
+import { formatDate, formatDay } from '../utils/dateUtils';
+import { useTrainingsWithCustomers } from '../context/DataStoreContext';
+
+// Monday first, in dayjs numbering
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+interface TrainingSeriesFieldsProps {
+  start: Dayjs;
+  duration: number;
+  rule: RecurrenceRule;
+  occurrences: Occurrences;
+  onChange: (rule: RecurrenceRule) => void;
+}
+
+/**
+ * Repeat settings for a new training, with a preview of every session it
+ * creates and any booked training each one would overlap
+ */
+const TrainingSeriesFields: FC<TrainingSeriesFieldsProps> = ({ start, duration, rule, occurrences, onChange }) => {
+  // Loaded only once the trainer asks for a series
+  const { trainings, isLoading, error } = useTrainingsWithCustomers();
+  const [skipDay, setSkipDay] = useState('');
+
+  const clashes = useMemo(
+    () => occurrences.dates.map(date => findClashes(date, Number(duration) || 0, trainings)),
+    [occurrences, duration, trainings]
+  );
+  const clashCount = clashes.filter(clashing => clashing.length > 0).length;
+
+  const update = (changes: Partial<RecurrenceRule>) => onChange({ ...rule, ...changes });
+
+  const addSkipDate = (day: string) => {
+    if (day && !rule.skipDates.includes(day)) {
+      update({ skipDates: [...rule.skipDates, day].sort() });
+    }
+    setSkipDay('');
+  };
+
+  return (
+    <Box>
+      <Grid container spacing={2}>
+        <Grid item xs={6}>
+          <TextField
+            label="Repeats"
+            select
+            value={rule.frequency}
+            onChange={event => update({ frequency: event.target.value as RecurrenceFrequency })}
+            fullWidth
+          >
+            <MenuItem value="daily">Daily</MenuItem>
+            <MenuItem value="weekly">Weekly</MenuItem>
+          </TextField>
+        </Grid>
+        {rule.frequency === 'weekly' && (
+          <Grid item xs={6}>
+            <TextField
+              label="Every (weeks)"
+              type="number"
+              value={rule.interval}
+              onChange={event => update({ interval: Number(event.target.value) })}
+              fullWidth
+              inputProps={{ min: 1 }}
+            />
+          </Grid>
+        )}
+        {rule.frequency === 'weekly' && (
+          <Grid item xs={12}>
+            <ToggleButtonGroup
+              size="small"
+              value={rule.weekdays}
+              onChange={(_event, weekdays: number[]) => update({ weekdays })}
+              aria-label="weekdays"
+            >
+              {WEEKDAYS.map(weekday => (
+                <ToggleButton key={weekday} value={weekday} sx={{ px: 1.5 }}>
+                  {dayjs().day(weekday).format('ddd')}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Grid>
+        )}
+
+        <Grid item xs={12}>
+          <RadioGroup
+            row
+            value={rule.end.type}
+            onChange={event => update({
+              end: event.target.value === 'count'
+                ? { type: 'count', count: 10 }
+                : { type: 'until', until: start.add(3, 'month').format('YYYY-MM-DD') },
+            })}
+          >
+            <FormControlLabel value="count" control={<Radio />} label="End after" />
+            <FormControlLabel value="until" control={<Radio />} label="End on" />
+          </RadioGroup>
+          {rule.end.type === 'count' ? (
+            <TextField
+              label="Sessions"
+              type="number"
+              size="small"
+              value={rule.end.count}
+              onChange={event => update({ end: { type: 'count', count: Number(event.target.value) } })}
+              inputProps={{ min: 1, max: MAX_OCCURRENCES }}
+            />
+          ) : (
+            <TextField
+              label="Last day"
+              type="date"
+              size="small"
+              value={rule.end.until}
+              onChange={event => update({ end: { type: 'until', until: event.target.value } })}
+              InputLabelProps={{ shrink: true }}
+            />
+          )}
+        </Grid>
+
+        <Grid item xs={12}>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <TextField
+              label="Skip a day"
+              type="date"
+              size="small"
+              value={skipDay}
+              onChange={event => setSkipDay(event.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <Button onClick={() => addSkipDate(skipDay)} disabled={!skipDay}>Skip</Button>
+          </Box>
+          {rule.skipDates.length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 1 }}>
+              {rule.skipDates.map(day => (
+                <Chip
+                  key={day}
+                  size="small"
+                  label={formatDay(day)}
+                  onDelete={() => update({ skipDates: rule.skipDates.filter(skipped => skipped !== day) })}
+                />
+              ))}
+            </Box>
+          )}
+        </Grid>
+      </Grid>
+
+      <Typography variant="subtitle2" sx={{ mt: 2 }}>
+        {occurrences.dates.length === 1 ? '1 session' : `${occurrences.dates.length} sessions`}
+        {clashCount > 0 && `, ${clashCount} overlapping booked trainings`}
+      </Typography>
+      {occurrences.truncated && (
+        <Alert severity="warning" sx={{ my: 1 }}>
+          A series is limited to {MAX_OCCURRENCES} sessions; later dates are left out.
+        </Alert>
+      )}
+      {error ? (
+        <Typography variant="caption" color="error">
+          Booked trainings could not be loaded, so clashes aren't checked.
+        </Typography>
+      ) : isLoading && trainings.length === 0 && (
+        <Typography variant="caption" color="text.secondary">Checking for clashes...</Typography>
+      )}
+      <List dense sx={{ maxHeight: 220, overflow: 'auto' }}>
+        {occurrences.dates.map((date, index) => (
+          <ListItem
+            key={date.valueOf()}
+            disableGutters
+            secondaryAction={
+              <Tooltip title="Skip this day">
+                <IconButton edge="end" size="small" onClick={() => addSkipDate(date.format('YYYY-MM-DD'))}>
+                  <EventBusyIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            }
+          >
+            <ListItemText
+              primary={`${date.format('ddd')} ${formatDate(date.toISOString())}`}
+              secondary={clashes[index].length > 0 && clashes[index].map(training =>
+                `Overlaps ${training.activity} at ${dayjs(training.date).format('HH:mm')}` +
+                (training.customer ? ` with ${training.customer.firstname} ${training.customer.lastname}` : '')
+              ).join('; ')}
+              secondaryTypographyProps={{ color: 'warning.main' }}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default TrainingSeriesFields;
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import {
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  Typography,
+} from '@mui/material';
+import { Customer } from '../types';
+import { getCustomers, getErrorMessage } from '../services/api';
+import { VCardVersion, toVCards } from '../utils/vcard';
+import { useNotification } from '../context/NotificationContext';
+
+type ExportScope = 'selected' | 'matching' | 'all';
+
+interface VCardExportDialogProps {
+  open: boolean;
+  // Customers ticked in the grid
+  selected: Customer[];
+  // Every customer the grid's search, filters and tags currently match
+  loadMatching: () => Promise<Customer[]>;
+  onClose: () => void;
+}
+
+const download = (fileName: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/vcard;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const fileNameFor = (customers: Customer[]) =>
+  customers.length === 1
+    ? `${customers[0].firstname}-${customers[0].lastname}.vcf`.toLowerCase().replace(/\s+/g, '-')
+    : 'customers.vcf';
+
+/**
+ * Save customers as a .vcf file for phone contacts: the ticked ones, the
+ * ones the list currently shows, or everyone
+ */
+const VCardExportDialog = ({ open, selected, loadMatching, onClose }: VCardExportDialogProps) => {
+  const [scope, setScope] = useState<ExportScope>('matching');
+  const [version, setVersion] = useState<VCardVersion>('4.0');
+  const [isExporting, setIsExporting] = useState(false);
+  const { showNotification } = useNotification();
+
+  // Nothing ticked leaves the current results as the default
+  const chosenScope = scope === 'selected' && selected.length === 0 ? 'matching' : scope;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const customers = chosenScope === 'selected'
+        ? selected
+        : chosenScope === 'matching' ? await loadMatching() : await getCustomers();
+      if (customers.length === 0) {
+        showNotification('No customers to export', 'info');
+        return;
+      }
+      download(fileNameFor(customers), toVCards(customers, version));
+      onClose();
+    } catch (error) {
+      showNotification(`Export failed. ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={isExporting ? undefined : onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Export vCards</DialogTitle>
+      <DialogContent>
+        <Typography variant="subtitle2">Customers</Typography>
+        <RadioGroup value={chosenScope} onChange={event => setScope(event.target.value as ExportScope)}>
+          <FormControlLabel
+            value="selected"
+            control={<Radio />}
+            disabled={selected.length === 0}
+            label={selected.length === 1
+              ? `${selected[0].firstname} ${selected[0].lastname}`
+              : `Selected (${selected.length})`}
+          />
+          <FormControlLabel value="matching" control={<Radio />} label="Current search and filters" />
+          <FormControlLabel value="all" control={<Radio />} label="All customers" />
+        </RadioGroup>
+
+        <Typography variant="subtitle2" sx={{ mt: 2 }}>Format</Typography>
+        <RadioGroup value={version} onChange={event => setVersion(event.target.value as VCardVersion)}>
+          <FormControlLabel value="4.0" control={<Radio />} label="vCard 4.0" />
+          <FormControlLabel value="3.0" control={<Radio />} label="vCard 3.0, for older phones and Outlook" />
+        </RadioGroup>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isExporting}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleExport}
+          disabled={isExporting}
+          startIcon={isExporting ? <CircularProgress size={20} color="inherit" /> : undefined}
+        >
+          Export
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default VCardExportDialog;
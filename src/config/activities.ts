@@ -0,0 +1,12 @@
+// Activities a training can be recorded as
+export const ACTIVITIES = [
+  'Gym training',
+  'Fitness',
+  'Zumba',
+  'Jogging',
+  'Spinning',
+  'Pilates',
+  'Yoga',
+  'Running',
+  'Swimming'
+];
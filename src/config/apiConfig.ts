@@ -0,0 +1,97 @@
+/**
+ * Runtime API configuration
+ *
+ * The active profile comes from VITE_API_PROFILE (falling back to development
+ * or production depending on the build mode). Users can override the profile
+ * and base URL at runtime from the settings dialog, which is stored in
+ * localStorage, so a deployed build can be pointed at another backend
+ * without rebuilding.
+ */
+export type ApiProfile = 'development' | 'staging' | 'production' | 'mock';
+
+export interface ApiConfig {
+  profile: ApiProfile;
+  baseUrl: string;
+  useMock: boolean;
+}
+
+export interface ApiSettings {
+  profile?: ApiProfile;
+  baseUrl?: string;
+}
+
+// Base URL the in-memory mock backend answers on
+export const MOCK_API_BASE_URL = 'https://mock.personal-trainer.local/api';
+
+const DEFAULT_REMOTE_URL = 'https://customer-rest-service-frontend-personaltrainer.2.rahtiapp.fi/api';
+const SETTINGS_STORAGE_KEY = 'personal-trainer:api-settings';
+
+const env = import.meta.env;
+
+export const API_PROFILES: Record<ApiProfile, { label: string; baseUrl: string }> = {
+  development: { label: 'Development', baseUrl: env.VITE_API_DEV_URL || DEFAULT_REMOTE_URL },
+  staging: { label: 'Staging', baseUrl: env.VITE_API_STAGING_URL || DEFAULT_REMOTE_URL },
+  production: { label: 'Production', baseUrl: env.VITE_API_PRODUCTION_URL || DEFAULT_REMOTE_URL },
+  mock: { label: 'Mock (in-memory)', baseUrl: MOCK_API_BASE_URL },
+};
+
+const isApiProfile = (value: unknown): value is ApiProfile =>
+  typeof value === 'string' && value in API_PROFILES;
+
+/**
+ * Profile selected at build time
+ */
+const getEnvProfile = (): ApiProfile => {
+  if (isApiProfile(env.VITE_API_PROFILE)) {
+    return env.VITE_API_PROFILE;
+  }
+  return env.PROD ? 'production' : 'development';
+};
+
+/**
+ * Read the user's runtime override, ignoring anything malformed
+ */
+export const loadApiSettings = (): ApiSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+    return {
+      profile: isApiProfile(stored.profile) ? stored.profile : undefined,
+      baseUrl: typeof stored.baseUrl === 'string' && stored.baseUrl ? stored.baseUrl : undefined,
+    };
+  } catch {
+    return {};
+  }
+};
+
+let cachedConfig: ApiConfig | null = null;
+
+export const saveApiSettings = (settings: ApiSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  cachedConfig = null;
+};
+
+export const clearApiSettings = () => {
+  localStorage.removeItem(SETTINGS_STORAGE_KEY);
+  cachedConfig = null;
+};
+
+/**
+ * Resolve the configuration in effect: settings override > env > defaults
+ */
+export const getApiConfig = (): ApiConfig => {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const settings = loadApiSettings();
+  const profile = settings.profile || getEnvProfile();
+  const useMock = profile === 'mock';
+
+  // The mock only answers on its own base URL, so overrides don't apply to it
+  const baseUrl = useMock
+    ? API_PROFILES.mock.baseUrl
+    : settings.baseUrl || (profile === getEnvProfile() && env.VITE_API_BASE_URL) || API_PROFILES[profile].baseUrl;
+
+  cachedConfig = { profile, baseUrl: baseUrl.replace(/\/+$/, ''), useMock };
+  return cachedConfig;
+};
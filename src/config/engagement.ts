@@ -0,0 +1,48 @@
+/**
+ * When a client counts as at risk or lapsed. The trainer can tune these on
+ * the re-engagement page; their choice is kept in localStorage.
+ */
+export interface EngagementThresholds {
+  // Days since the last session before a client is at risk
+  atRiskDays: number;
+  // Days since the last session before a client has lapsed
+  lapsedDays: number;
+  // Weeks counted as recent when comparing how often a client trains
+  recentWeeks: number;
+  // Recent sessions per week below this share of the client's usual rate count as declining
+  declineRatio: number;
+}
+
+export const DEFAULT_THRESHOLDS: EngagementThresholds = {
+  atRiskDays: 14,
+  lapsedDays: 45,
+  recentWeeks: 4,
+  declineRatio: 0.5,
+};
+
+const THRESHOLDS_STORAGE_KEY = 'personal-trainer:engagement-thresholds';
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * The saved thresholds, with defaults for anything missing or malformed
+ */
+export const loadThresholds = (): EngagementThresholds => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(THRESHOLDS_STORAGE_KEY) || '{}');
+    return {
+      atRiskDays: isPositive(stored.atRiskDays) ? stored.atRiskDays : DEFAULT_THRESHOLDS.atRiskDays,
+      lapsedDays: isPositive(stored.lapsedDays) ? stored.lapsedDays : DEFAULT_THRESHOLDS.lapsedDays,
+      recentWeeks: isPositive(stored.recentWeeks) ? stored.recentWeeks : DEFAULT_THRESHOLDS.recentWeeks,
+      declineRatio: isPositive(stored.declineRatio) && stored.declineRatio <= 1
+        ? stored.declineRatio
+        : DEFAULT_THRESHOLDS.declineRatio,
+    };
+  } catch {
+    return DEFAULT_THRESHOLDS;
+  }
+};
+
+export const saveThresholds = (thresholds: EngagementThresholds) => {
+  localStorage.setItem(THRESHOLDS_STORAGE_KEY, JSON.stringify(thresholds));
+};
@@ -0,0 +1,496 @@
+import { createContext, useContext, useReducer, useRef, useState, useCallback, useEffect, useMemo, ReactNode } from 'react';
+import * as api from '../services/api';
+import { Customer, CustomerInput, Training, TrainingInput } from '../types';
+import {
+  CollectionName,
+  DataState,
+  Entities,
+  EntityCollection,
+  customerKey,
+  dataStoreReducer,
+  initialDataState,
+  needsFetch,
+  selectTrainingsWithCustomers,
+  selectUnresolvedCustomerLinks,
+} from '../store/dataStore';
+import {
+  MutationOutcome,
+  MutationRequest,
+  createTempId,
+  executeMutation,
+} from '../offline/mutations';
+import { MutationQueue, useMutationQueue } from '../offline/useMutationQueue';
+import { useAbortSignal } from '../hooks/useAbortSignal';
+import { moveCustomerTags } from '../services/tags';
+import { moveCustomerNotes } from '../services/customerNotes';
+import { moveCustomerMeasurements } from '../services/measurements';
+
+interface EnsureOptions {
+  force?: boolean;
+  // Aborted when the caller no longer needs the data; the fetch is cancelled
+  // once every caller waiting on it has gone
+  signal?: AbortSignal;
+}
+
+interface WriteOptions {
+  // Bulk writes turn this off and invalidate once when the batch is done
+  refetch?: boolean;
+}
+
+interface InFlightFetch {
+  promise: Promise<void>;
+  controller: AbortController;
+  subscribers: number;
+  // Requested without a signal, so nobody can cancel it
+  pinned: boolean;
+}
+
+interface DataStoreContextType {
+  state: DataState;
+  ensure: (collection: CollectionName, options?: EnsureOptions) => Promise<void>;
+  invalidate: (collections: CollectionName[]) => Promise<void>;
+  upsert: <K extends CollectionName>(collection: K, items: Entities[K][]) => void;
+  remove: (collection: CollectionName, ids: string[]) => void;
+  resolveCustomerLinks: () => Promise<void>;
+  offlineQueue: MutationQueue;
+  addCustomer: (customer: CustomerInput, options?: WriteOptions) => Promise<MutationOutcome>;
+  // `original` is the record as it was when editing started; see MutationRequest
+  updateCustomer: (customer: Customer, original?: Customer) => Promise<MutationOutcome>;
+  deleteCustomer: (customer: Customer) => Promise<MutationOutcome>;
+  addTraining: (training: TrainingInput, options?: WriteOptions) => Promise<MutationOutcome>;
+  updateTraining: (trainingId: number, training: TrainingInput, original?: Training) => Promise<MutationOutcome>;
+  deleteTraining: (training: Training) => Promise<MutationOutcome>;
+  resetDatabase: () => Promise<void>;
+}
+
+/**
+ * Count a caller as waiting on a fetch, cancelling the fetch when the last one aborts
+ */
+const subscribe = (entry: InFlightFetch, signal?: AbortSignal) => {
+  if (!signal) {
+    entry.pinned = true;
+    return;
+  }
+  entry.subscribers++;
+  signal.addEventListener('abort', () => {
+    entry.subscribers--;
+    if (entry.subscribers === 0 && !entry.pinned) {
+      entry.controller.abort();
+    }
+  }, { once: true });
+};
+
+const FETCHERS: { [K in CollectionName]: (options: api.RequestOptions) => Promise<Entities[K][]> } = {
+  customers: api.getCustomers,
+  trainings: api.getTrainings,
+};
+
+const DataStoreContext = createContext<DataStoreContextType | null>(null);
+
+export const useDataStore = (): DataStoreContextType => {
+  const context = useContext(DataStoreContext);
+  if (!context) {
+    throw new Error('useDataStore must be used inside a DataStoreProvider');
+  }
+  return context;
+};
+
+export const DataStoreProvider = ({ children }: { children: ReactNode }) => {
+  const [state, dispatch] = useReducer(dataStoreReducer, initialDataState);
+
+  // Mirror state in a ref so the callbacks below can stay referentially stable
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Writes the server hasn't confirmed yet: optimistic ones awaiting a response,
+  // then queued offline ones. Re-applied on top of every fetch so they stay visible.
+  const optimisticWrites = useRef(new Map<number, MutationRequest>());
+  const nextWriteId = useRef(0);
+  const queuedWrites = useRef<() => MutationRequest[]>(() => []);
+  const unconfirmedWrites = useCallback(
+    () => [...optimisticWrites.current.values(), ...queuedWrites.current()],
+    []
+  );
+
+  const inFlight = useRef<Partial<Record<CollectionName, InFlightFetch>>>({});
+  const latestRequest = useRef<Record<CollectionName, number>>({ customers: 0, trainings: 0 });
+
+  // Cancels whatever is still loading when the provider goes away
+  const getProviderSignal = useAbortSignal();
+
+  /**
+   * Fetch a collection; a newer request cancels the one it replaces
+   */
+  const fetchCollection = useCallback((collection: CollectionName, signal?: AbortSignal): Promise<void> => {
+    inFlight.current[collection]?.controller.abort();
+    const requestId = ++latestRequest.current[collection];
+    const controller = new AbortController();
+    const providerSignal = getProviderSignal();
+    providerSignal.addEventListener('abort', () => controller.abort(), { once: true });
+    dispatch({ type: 'fetchStart', collection });
+
+    const promise = FETCHERS[collection]({ signal: controller.signal })
+      .then((items) => {
+        if (requestId === latestRequest.current[collection]) {
+          dispatch({ type: 'fetchSuccess', collection, items, fetchedAt: Date.now() });
+          unconfirmedWrites().forEach(mutation => dispatch({ type: 'applyMutation', mutation }));
+        }
+      })
+      .catch((error) => {
+        if (requestId !== latestRequest.current[collection] || providerSignal.aborted) {
+          return;
+        }
+        if (error instanceof api.RequestCancelledError) {
+          dispatch({ type: 'fetchCancelled', collection });
+          return;
+        }
+        console.error(`Error fetching ${collection}:`, error);
+        dispatch({ type: 'fetchError', collection, error });
+      })
+      .finally(() => {
+        if (inFlight.current[collection]?.promise === promise) {
+          delete inFlight.current[collection];
+        }
+      });
+
+    const entry: InFlightFetch = { promise, controller, subscribers: 0, pinned: false };
+    subscribe(entry, signal);
+    inFlight.current[collection] = entry;
+    return promise;
+  }, [getProviderSignal, unconfirmedWrites]);
+
+  /**
+   * Stale-while-revalidate: serve cached data and refetch only when it is stale
+   */
+  const ensure = useCallback((collection: CollectionName, { force = false, signal }: EnsureOptions = {}): Promise<void> => {
+    if (signal?.aborted) {
+      return Promise.resolve();
+    }
+    const pending = inFlight.current[collection];
+    if (pending && !force) {
+      subscribe(pending, signal);
+      return pending.promise;
+    }
+    if (force || needsFetch(stateRef.current[collection])) {
+      return fetchCollection(collection, signal);
+    }
+    return Promise.resolve();
+  }, [fetchCollection]);
+
+  /**
+   * Mark collections stale and refetch the ones already loaded. Collections
+   * only shown page by page are left to their grids, which reload on invalidation.
+   */
+  const invalidate = useCallback(async (collections: CollectionName[]) => {
+    if (collections.length === 0) {
+      return;
+    }
+    dispatch({ type: 'invalidate', collections, invalidatedAt: Date.now() });
+    const loaded = collections.filter(
+      collection => stateRef.current[collection].fetchedAt !== null || inFlight.current[collection]
+    );
+    await Promise.all(loaded.map(collection => fetchCollection(collection)));
+  }, [fetchCollection]);
+
+  const upsert = useCallback(<K extends CollectionName>(collection: K, items: Entities[K][]) => {
+    dispatch({ type: 'upsert', collection, items });
+  }, []);
+
+  const remove = useCallback((collection: CollectionName, ids: string[]) => {
+    dispatch({ type: 'remove', collection, ids });
+  }, []);
+
+  const pendingLinks = useRef(new Set<string>());
+
+  /**
+   * Look up, in one batch, every training customer link the loaded customers
+   * can't answer. Links already being fetched are skipped, so calling this
+   * on every change never issues duplicate requests.
+   */
+  const resolveCustomerLinks = useCallback(async () => {
+    const hrefs = selectUnresolvedCustomerLinks(stateRef.current)
+      .filter(href => !pendingLinks.current.has(href));
+    if (hrefs.length === 0) {
+      return;
+    }
+
+    hrefs.forEach(href => pendingLinks.current.add(href));
+    const signal = getProviderSignal();
+    const results = await api.getCustomersByUrls(hrefs, undefined, { signal });
+    hrefs.forEach(href => pendingLinks.current.delete(href));
+    if (signal.aborted) {
+      return;
+    }
+
+    const links: Record<string, string | null> = {};
+    const customers: Customer[] = [];
+    results.forEach((customer, href) => {
+      const key = customer ? customerKey(customer) : null;
+      links[href] = key;
+      if (customer) {
+        customers.push(customer);
+      }
+    });
+    dispatch({ type: 'resolveCustomerLinks', links, customers });
+  }, [getProviderSignal]);
+
+  const applyLocally = useCallback((mutation: MutationRequest) => {
+    dispatch({ type: 'applyMutation', mutation });
+  }, []);
+
+  const offlineQueue = useMutationQueue({
+    applyLocally,
+    onSynced: () => invalidate(['customers', 'trainings']),
+  });
+  queuedWrites.current = offlineQueue.pendingMutations;
+
+  /**
+   * Apply a write to local state right away and confirm it with the server in the background.
+   * Offline, the write is queued instead; while older writes are still queued, new ones
+   * queue behind them to keep order. A write the server rejects is rolled back and the
+   * returned promise rejects, so callers can report the error.
+   */
+  const runMutation = useCallback(async (
+    mutation: MutationRequest,
+    affected: CollectionName[]
+  ): Promise<MutationOutcome> => {
+    if (!navigator.onLine || offlineQueue.hasPending()) {
+      applyLocally(mutation);
+      await offlineQueue.enqueue(mutation);
+      offlineQueue.replay();
+      return 'queued';
+    }
+
+    const snapshot = { customers: stateRef.current.customers, trainings: stateRef.current.trainings };
+    const writeId = ++nextWriteId.current;
+    optimisticWrites.current.set(writeId, mutation);
+    applyLocally(mutation);
+
+    try {
+      const created = await executeMutation(mutation);
+      optimisticWrites.current.delete(writeId);
+      if (mutation.kind === 'addCustomer' || mutation.kind === 'addTraining') {
+        const collection = mutation.kind === 'addCustomer' ? 'customers' : 'trainings';
+        dispatch({ type: 'replaceTemp', collection, tempId: mutation.tempId, item: created });
+      }
+      if (mutation.kind === 'addCustomer' && created) {
+        // Tags, notes and measurements given while the customer was being created follow it to its real id
+        moveCustomerTags(mutation.tempId, created.id);
+        moveCustomerNotes(mutation.tempId, created.id).catch(error => console.error('Moving notes failed:', error));
+        moveCustomerMeasurements(mutation.tempId, created.id).catch(error => console.error('Moving measurements failed:', error));
+      }
+    } catch (error) {
+      optimisticWrites.current.delete(writeId);
+      if (error instanceof api.NetworkError) {
+        // Keep the change and sync it once the server is reachable again
+        await offlineQueue.enqueue(mutation);
+        return 'queued';
+      }
+      dispatch({ type: 'restore', snapshot });
+      unconfirmedWrites().forEach(write => dispatch({ type: 'applyMutation', mutation: write }));
+      invalidate(affected);
+      throw error;
+    }
+
+    // Pick up server-side changes (cascades, generated fields) without blocking the caller
+    invalidate(affected);
+    return 'synced';
+  }, [offlineQueue, applyLocally, unconfirmedWrites, invalidate]);
+
+  /**
+   * MUTATIONS
+   * Each one invalidates only the collections the change can affect
+   */
+
+  const addCustomer = useCallback((customer: CustomerInput, { refetch = true }: WriteOptions = {}) =>
+    runMutation({ kind: 'addCustomer', customer, tempId: createTempId() }, refetch ? ['customers'] : []),
+  [runMutation]);
+
+  // Trainings embed their customer, so customer changes invalidate both
+  const updateCustomer = useCallback((customer: Customer, original?: Customer) =>
+    runMutation({ kind: 'updateCustomer', customer, original }, ['customers', 'trainings']),
+  [runMutation]);
+
+  // The backend cascades customer deletes to their trainings
+  const deleteCustomer = useCallback((customer: Customer) =>
+    runMutation({ kind: 'deleteCustomer', customer }, ['customers', 'trainings']),
+  [runMutation]);
+
+  const addTraining = useCallback((training: TrainingInput, { refetch = true }: WriteOptions = {}) =>
+    runMutation({ kind: 'addTraining', training, tempId: createTempId() }, refetch ? ['trainings'] : []),
+  [runMutation]);
+
+  const updateTraining = useCallback((trainingId: number, training: TrainingInput, original?: Training) =>
+    runMutation({ kind: 'updateTraining', trainingId, training, original }, ['trainings']),
+  [runMutation]);
+
+  const deleteTraining = useCallback((training: Training) =>
+    runMutation({ kind: 'deleteTraining', training }, ['trainings']),
+  [runMutation]);
+
+  const resetDatabase = useCallback(async () => {
+    await api.resetDatabase();
+    await invalidate(['customers', 'trainings']);
+  }, [invalidate]);
+
+  const value = useMemo(() => ({
+    state,
+    ensure,
+    invalidate,
+    upsert,
+    remove,
+    resolveCustomerLinks,
+    offlineQueue,
+    addCustomer,
+    updateCustomer,
+    deleteCustomer,
+    addTraining,
+    updateTraining,
+    deleteTraining,
+    resetDatabase,
+  }), [state, ensure, invalidate, upsert, remove, resolveCustomerLinks, offlineQueue, addCustomer, updateCustomer, deleteCustomer, addTraining, updateTraining, deleteTraining, resetDatabase]);
+
+  return (
+    <DataStoreContext.Provider value={value}>
+      {children}
+    </DataStoreContext.Provider>
+  );
+};
+
+/**
+ * Subscribe a view to a collection, fetching it on mount if needed
+ */
+const useCollection = <K extends CollectionName>(collection: K) => {
+  const { state, ensure } = useDataStore();
+  const current = state[collection] as EntityCollection<Entities[K]>;
+  const getSignal = useAbortSignal();
+
+  useEffect(() => {
+    ensure(collection, { signal: getSignal() });
+  }, [ensure, collection, getSignal]);
+
+  const items = useMemo(() => current.ids.map(id => current.byId[id]), [current.ids, current.byId]);
+  const reload = useCallback(
+    () => ensure(collection, { force: true, signal: getSignal() }),
+    [ensure, collection, getSignal]
+  );
+
+  return {
+    items,
+    // True only for the very first load; background revalidation keeps showing data
+    isLoading: current.fetchedAt === null && current.error === null,
+    isFetching: current.isFetching,
+    error: current.error,
+    reload,
+  };
+};
+
+export const useCustomers = () => {
+  const { items, ...rest } = useCollection('customers');
+  return { customers: items, ...rest };
+};
+
+export const useTrainings = () => {
+  const { items, ...rest } = useCollection('trainings');
+  return { trainings: items, ...rest };
+};
+
+/**
+ * Trainings with their customer attached, resolving any customer that is
+ * only referenced by link in a single batched lookup
+ */
+export const useTrainingsWithCustomers = () => {
+  const { state, ensure, resolveCustomerLinks } = useDataStore();
+  const { isLoading, isFetching, error, reload } = useTrainings();
+  const { trainings, customers, customerLinks } = state;
+  const getSignal = useAbortSignal();
+
+  useEffect(() => {
+    ensure('customers', { signal: getSignal() });
+  }, [ensure, getSignal]);
+
+  useEffect(() => {
+    resolveCustomerLinks();
+  }, [trainings, customers, customerLinks, resolveCustomerLinks]);
+
+  const joined = useMemo(
+    () => selectTrainingsWithCustomers({ trainings, customers, customerLinks }),
+    [trainings, customers, customerLinks]
+  );
+
+  return { trainings: joined, isLoading, isFetching, error, reload };
+};
+
+/**
+ * One customer and their full training history. Trainings are read through
+ * the customer's trainings relation into the store, so changes made anywhere
+ * show up here, and are read again whenever trainings are invalidated.
+ */
+export const useCustomerDetail = (customerId: number) => {
+  const { state, upsert, remove } = useDataStore();
+  const { trainings, customers, customerLinks } = state;
+  const customer: Customer | undefined = customers.byId[String(customerId)];
+  const [error, setError] = useState<unknown>(null);
+  const [isLoadingTrainings, setIsLoadingTrainings] = useState(true);
+  const [reloadCount, setReloadCount] = useState(0);
+  const getSignal = useAbortSignal();
+
+  // Read through refs so optimistic edits don't trigger another load
+  const latest = useRef({ customer, trainings });
+  latest.current = { customer, trainings };
+
+  useEffect(() => {
+    // Created offline; the server doesn't know this customer yet
+    if (customerId < 0) {
+      setIsLoadingTrainings(false);
+      return;
+    }
+    let cancelled = false;
+    const signal = getSignal();
+
+    const load = async () => {
+      setError(null);
+      setIsLoadingTrainings(true);
+      try {
+        const loaded = latest.current.customer ?? await api.getCustomer(api.getCustomerUrl(customerId), { signal });
+        if (cancelled) return;
+        if (!latest.current.customer) {
+          upsert('customers', [loaded]);
+        }
+
+        const history = await api.getCustomerTrainings(loaded, { signal });
+        if (cancelled) return;
+        // The relation is the full list, so anything else on record for this customer is gone
+        const current = new Set(history.map(training => String(training.id)));
+        const { byId, ids } = latest.current.trainings;
+        remove('trainings', ids.filter(id =>
+          byId[id].customer?.id === customerId && !current.has(id) && byId[id].id > 0
+        ));
+        upsert('trainings', history);
+      } catch (loadError) {
+        if (!cancelled && !(loadError instanceof api.RequestCancelledError)) {
+          setError(loadError);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoadingTrainings(false);
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId, trainings.invalidatedAt, reloadCount, upsert, remove, getSignal]);
+
+  const history = useMemo(
+    () => selectTrainingsWithCustomers({ trainings, customers, customerLinks })
+      .filter(training => training.customer?.id === customerId),
+    [trainings, customers, customerLinks, customerId]
+  );
+
+  const reload = useCallback(() => setReloadCount(count => count + 1), []);
+
+  return { customer, trainings: history, isLoadingTrainings, error, reload };
+};
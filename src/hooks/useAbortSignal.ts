@@ -0,0 +1,21 @@
+import { useRef, useEffect, useCallback } from 'react';
+
+/**
+ * Abort signal tied to the calling component's lifetime. Returns a getter so
+ * a remount (e.g. under StrictMode) gets a fresh signal instead of a dead one.
+ */
+export const useAbortSignal = (): (() => AbortSignal) => {
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => {
+    controller.current?.abort();
+    controller.current = null;
+  }, []);
+
+  return useCallback(() => {
+    if (!controller.current || controller.current.signal.aborted) {
+      controller.current = new AbortController();
+    }
+    return controller.current.signal;
+  }, []);
+};
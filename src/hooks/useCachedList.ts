@@ -0,0 +1,24 @@
+import { useCallback, useRef } from 'react';
+import { RequestOptions } from '../services/api';
+
+/**
+ * Load a whole list once per key and share it between the page requests of
+ * a grid that pages in the browser. A failed or cancelled load is forgotten
+ * so the next request tries again.
+ */
+export const useCachedList = <T,>(load: (options: RequestOptions) => Promise<T[]>, key: string) => {
+  const cache = useRef<{ key: string; promise: Promise<T[]> } | null>(null);
+
+  return useCallback((options: RequestOptions): Promise<T[]> => {
+    if (cache.current?.key !== key) {
+      const promise: Promise<T[]> = load(options).catch(error => {
+        if (cache.current?.promise === promise) {
+          cache.current = null;
+        }
+        throw error;
+      });
+      cache.current = { key, promise };
+    }
+    return cache.current.promise;
+  }, [load, key]);
+};
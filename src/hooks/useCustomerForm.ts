@@ -0,0 +1,130 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { CustomerInput } from '../types';
+import { useDataStore } from '../context/DataStoreContext';
+import {
+  findEmailOwner,
+  normalizeCustomer,
+  normalizeEmail,
+  validateCustomer,
+} from '../utils/customerValidation';
+
+type Field = keyof CustomerInput;
+
+// Wait for typing to pause before checking the email against other customers
+const EMAIL_CHECK_DELAY_MS = 300;
+
+/**
+ * Values, validation and touched/dirty state of a customer form. Errors
+ * show once a field has been left or the form submitted. A changed email
+ * is also checked, after a pause, against every loaded customer. When
+ * editing (`excludeId` set), only changed fields and the ones whose rules
+ * depend on them are validated and normalized; the others are saved as stored.
+ */
+export const useCustomerForm = (excludeId?: number) => {
+  const { state, ensure } = useDataStore();
+  // What the form was opened with, to tell which fields were changed
+  const [initial, setInitial] = useState<CustomerInput | null>(null);
+  const [values, setValues] = useState<CustomerInput>({
+    firstname: '',
+    lastname: '',
+    streetaddress: '',
+    postcode: '',
+    city: '',
+    email: '',
+    phone: '',
+  });
+  const [touched, setTouched] = useState<Partial<Record<Field, boolean>>>({});
+  const [submitted, setSubmitted] = useState(false);
+  const [checkedEmail, setCheckedEmail] = useState<string | null>(null);
+
+  const reset = useCallback((next: CustomerInput, changedFrom: CustomerInput = next) => {
+    setInitial(changedFrom);
+    setValues(next);
+    setTouched({});
+    setSubmitted(false);
+  }, []);
+
+  const setField = useCallback((field: Field, value: string) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  const touch = useCallback((field: Field) => {
+    setTouched(prev => ({ ...prev, [field]: true }));
+  }, []);
+
+  const isDirty = useCallback(
+    (field: Field) => initial !== null && values[field] !== initial[field],
+    [initial, values]
+  );
+  // A new customer is checked in full
+  const isChanged = useCallback(
+    (field: Field) => excludeId === undefined || isDirty(field),
+    [excludeId, isDirty]
+  );
+  const errors = useMemo(() => validateCustomer(values, isChanged), [values, isChanged]);
+
+  // Only a changed email is checked, so customers already sharing one can still be edited
+  const email = normalizeEmail(values.email);
+  const shouldCheckEmail = !errors.email && isDirty('email');
+
+  useEffect(() => {
+    if (!shouldCheckEmail) {
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      // Checked against whatever is loaded if the list can't be fetched
+      ensure('customers')
+        .catch(() => undefined)
+        .then(() => {
+          if (!cancelled) {
+            setCheckedEmail(email);
+          }
+        });
+    }, EMAIL_CHECK_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [email, shouldCheckEmail, ensure]);
+
+  const customerCollection = state.customers;
+  const customers = useMemo(
+    () => customerCollection.ids.map(id => customerCollection.byId[id]),
+    [customerCollection]
+  );
+  const emailOwner = shouldCheckEmail && checkedEmail === email ? findEmailOwner(email, customers, excludeId) : undefined;
+  const isCheckingEmail = shouldCheckEmail && checkedEmail !== email;
+
+  const allErrors = emailOwner && !errors.email
+    ? { ...errors, email: `Already used by ${emailOwner.firstname} ${emailOwner.lastname}` }
+    : errors;
+
+  // Message to show under a field, once the user is done with it
+  const errorOf = (field: Field): string | undefined =>
+    touched[field] || submitted ? allErrors[field] : undefined;
+
+  const isValid = Object.keys(allErrors).length === 0 && !isCheckingEmail;
+
+  /**
+   * Show every error and return the values to save, normalized, or null
+   * while the form is invalid or the email is still being checked
+   */
+  const submit = (): CustomerInput | null => {
+    setSubmitted(true);
+    return isValid ? normalizeCustomer(values, isChanged) : null;
+  };
+
+  return {
+    values,
+    setField,
+    touch,
+    reset,
+    errorOf,
+    isDirty,
+    isFormDirty: (Object.keys(values) as Field[]).some(isDirty),
+    isCheckingEmail,
+    isValid,
+    submit,
+  };
+};
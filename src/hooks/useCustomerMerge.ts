@@ -0,0 +1,157 @@
+import { useState, useRef, useCallback } from 'react';
+import { Customer, CustomerInput, Training } from '../types';
+import * as api from '../services/api';
+import { CUSTOMER_FIELDS, changedFields, toCustomerInput, toTrainingInput } from '../services/conflicts';
+import { useDataStore } from '../context/DataStoreContext';
+import { MutationOutcome } from '../offline/mutations';
+import { moveCustomerTags } from '../services/tags';
+import { moveCustomerNotes } from '../services/customerNotes';
+import { moveCustomerMeasurements } from '../services/measurements';
+
+/**
+ * A merge stopped before deleting the duplicate. `undone` tells whether the
+ * steps already taken were rolled back.
+ */
+export class MergeAbortedError extends Error {
+  undone: boolean;
+  reason: unknown;
+
+  constructor(message: string, undone: boolean, reason?: unknown) {
+    super(message);
+    this.name = 'MergeAbortedError';
+    this.undone = undone;
+    this.reason = reason;
+  }
+}
+
+export interface MergeProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+const fullName = (customer: Customer) => `${customer.firstname} ${customer.lastname}`;
+
+// Each step must reach the server before the next one runs
+const requireSynced = (outcome: MutationOutcome) => {
+  if (outcome !== 'synced') {
+    throw new MergeAbortedError('The connection was lost during the merge.', false);
+  }
+};
+
+/**
+ * Merge a duplicate customer into the one being kept: update the kept
+ * customer's fields, move every training of the duplicate over, then
+ * delete the duplicate. The backend deletes a customer's trainings with
+ * it, so the duplicate is only deleted once the server confirms it has no
+ * trainings left. If a step fails, the steps before it are undone.
+ */
+export const useCustomerMerge = () => {
+  const { offlineQueue, updateCustomer, updateTraining, deleteCustomer } = useDataStore();
+  const [progress, setProgress] = useState<MergeProgress | null>(null);
+  const isRunning = useRef(false);
+
+  const merge = useCallback(async (survivor: Customer, duplicate: Customer, fields: CustomerInput) => {
+    if (isRunning.current) {
+      throw new MergeAbortedError('Another merge is still running.', true);
+    }
+    // Every step is checked against the server, which queued offline writes can't be
+    if (!navigator.onLine || offlineQueue.hasPending()) {
+      throw new MergeAbortedError('Merging needs a connection and all offline changes synced.', true);
+    }
+    isRunning.current = true;
+
+    const updatedSurvivor = { ...survivor, ...fields };
+    const fieldsChanged = changedFields(CUSTOMER_FIELDS, toCustomerInput(survivor), fields).length > 0;
+    let survivorUpdated = false;
+    const moved: Training[] = [];
+
+    // Put back what was changed before the failure; a failed undo is reported, not retried
+    const undo = async (): Promise<boolean> => {
+      setProgress({ label: 'Undoing changes', done: 0, total: moved.length });
+      let undone = true;
+      for (const training of moved) {
+        try {
+          requireSynced(await updateTraining(training.id, toTrainingInput(training)));
+        } catch (error) {
+          console.error('Could not move training back after a failed merge:', error);
+          undone = false;
+        }
+      }
+      if (survivorUpdated) {
+        try {
+          requireSynced(await updateCustomer(survivor));
+        } catch (error) {
+          console.error('Could not restore customer after a failed merge:', error);
+          undone = false;
+        }
+      }
+      return undone;
+    };
+
+    try {
+      setProgress({ label: `Loading trainings of ${fullName(duplicate)}`, done: 0, total: 0 });
+      const trainings = await api.getCustomerTrainings(duplicate);
+
+      try {
+        if (fieldsChanged) {
+          setProgress({ label: `Updating ${fullName(survivor)}`, done: 0, total: 0 });
+          requireSynced(await updateCustomer(updatedSurvivor, survivor));
+          survivorUpdated = true;
+        }
+
+        for (const training of trainings) {
+          setProgress({ label: 'Moving trainings', done: moved.length, total: trainings.length });
+          requireSynced(await updateTraining(
+            training.id,
+            { ...toTrainingInput(training), customerId: survivor.id },
+            training
+          ));
+          moved.push(training);
+        }
+
+        setProgress({ label: 'Checking for new trainings', done: 0, total: 0 });
+        const remaining = await api.getCustomerTrainings(duplicate);
+        if (remaining.length > 0) {
+          throw new MergeAbortedError(
+            `${fullName(duplicate)} got new trainings during the merge.`,
+            false
+          );
+        }
+      } catch (error) {
+        const undone = await undo();
+        const reason = error instanceof MergeAbortedError ? error.message : api.getErrorMessage(error);
+        throw new MergeAbortedError(
+          `${reason} ${undone ? 'The merge was undone.' : 'Some changes could not be undone; check both customers.'}`,
+          undone,
+          error
+        );
+      }
+
+      setProgress({ label: `Deleting ${fullName(duplicate)}`, done: 0, total: 0 });
+      try {
+        requireSynced(await deleteCustomer(duplicate));
+        moveCustomerTags(duplicate.id, survivor.id);
+        moveCustomerNotes(duplicate.id, survivor.id).catch(error => console.error('Moving notes failed:', error));
+        moveCustomerMeasurements(duplicate.id, survivor.id).catch(error => console.error('Moving measurements failed:', error));
+      } catch (error) {
+        // Everything is on the kept customer already; the empty duplicate can be deleted by hand
+        throw new MergeAbortedError(
+          `Trainings were moved, but ${fullName(duplicate)} could not be deleted. ${api.getErrorMessage(error)}`,
+          false,
+          error
+        );
+      }
+    } catch (error) {
+      if (error instanceof MergeAbortedError) {
+        throw error;
+      }
+      throw new MergeAbortedError(api.getErrorMessage(error), true, error);
+    } finally {
+      isRunning.current = false;
+      setProgress(null);
+    }
+  }, [offlineQueue, updateCustomer, updateTraining, deleteCustomer]);
+
+  return { merge, progress, isMerging: progress !== null };
+};
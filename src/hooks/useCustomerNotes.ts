@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { CustomerNote, TrainingGoal } from '../types';
+import { loadGoals, loadNotes, subscribeToNotes } from '../services/customerNotes';
+
+/**
+ * A customer's notes and goals, reloaded whenever they change here or in another tab
+ */
+export const useCustomerNotes = (customerId: number) => {
+  const [notes, setNotes] = useState<CustomerNote[]>([]);
+  const [goals, setGoals] = useState<TrainingGoal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const [loadedNotes, loadedGoals] = await Promise.all([loadNotes(customerId), loadGoals(customerId)]);
+        if (cancelled) return;
+        setNotes(loadedNotes);
+        setGoals(loadedGoals);
+        setError(null);
+      } catch (loadError) {
+        if (!cancelled) setError(loadError);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    setIsLoading(true);
+    load();
+    const unsubscribe = subscribeToNotes(changedId => {
+      if (changedId === undefined || changedId === customerId) {
+        load();
+      }
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [customerId]);
+
+  return { notes, goals, isLoading, error };
+};
@@ -0,0 +1,197 @@
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { FilterChangedEvent, GridApi, GridReadyEvent, IDatasource, IGetRowsParams, SortModelItem } from 'ag-grid-community';
+import { isEqual } from 'lodash';
+import { Page, PageRequest, RequestOptions, SortOrder, RequestCancelledError } from '../services/api';
+import { FilterModel, matchesFilterModel } from '../utils/gridFilters';
+import { pageLocally } from '../utils/localPaging';
+import { useAbortSignal } from './useAbortSignal';
+import { useCachedList } from './useCachedList';
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const PAGE_SIZE_OPTIONS = [5, 10, 25, 50];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Grid sort model to server sort; column ids are the server property names
+ */
+const toSortOrders = (sortModel: SortModelItem[]): SortOrder[] =>
+  sortModel.map(({ colId, sort }) => ({ field: colId, direction: sort }));
+
+interface UseInfiniteGridOptions<T> {
+  fetchPage: (pageRequest: PageRequest, options: RequestOptions) => Promise<Page<T>>;
+  // Every row, for pages the server can't answer: any search, column
+  // filter or `keep` narrowing
+  loadAll: (options: RequestOptions) => Promise<T[]>;
+  // Fields the free text search looks in when paging in the browser
+  searchFields: string[];
+  // Free text search, debounced and applied in the browser
+  search: string;
+  // Column filters to show and apply, debounced with the search
+  filterModel?: FilterModel;
+  // Called when the user changes a column filter from the grid's menus
+  onFilterModelChange?: (filterModel: FilterModel) => void;
+  // Latest copy of every loaded row (from the data store), pushed into rendered rows
+  rows: Record<string, T>;
+  getRowKey: (row: T) => string | null;
+  // Changes whenever the data store invalidates the collection; reloads the grid
+  invalidatedAt: number | null;
+  // Narrowing only the browser knows, like a tag filter, and a key that
+  // changes with it; a new key starts the grid over
+  keep?: (row: T) => boolean;
+  scope?: string;
+}
+
+/**
+ * AG Grid infinite row model backed by a paged endpoint: the grid's page
+ * and sort state become server requests, and rows stay in sync with the
+ * data store so optimistic updates show up without a reload. The backend
+ * can't search or filter, so while either is in use the full list is paged
+ * in the browser instead.
+ */
+export const useInfiniteGrid = <T,>({
+  fetchPage,
+  loadAll,
+  searchFields,
+  search,
+  filterModel,
+  onFilterModelChange,
+  rows,
+  getRowKey,
+  invalidatedAt,
+  keep,
+  scope,
+}: UseInfiniteGridOptions<T>) => {
+  const [gridApi, setGridApi] = useState<GridApi<T> | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const [isEmpty, setIsEmpty] = useState(false);
+  const [debouncedSearch, setDebouncedSearch] = useState(search);
+  const getSignal = useAbortSignal();
+
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+  const keepRef = useRef(keep);
+  keepRef.current = keep;
+  const searchFieldsRef = useRef(searchFields);
+  searchFieldsRef.current = searchFields;
+  const onFilterModelChangeRef = useRef(onFilterModelChange);
+  onFilterModelChangeRef.current = onFilterModelChange;
+
+  // The full list is loaded once and reused until the collection is invalidated
+  const getAll = useCachedList(loadAll, String(invalidatedAt));
+  const getAllRef = useRef(getAll);
+  getAllRef.current = getAll;
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      if (gridApi && filterModel && !isEqual(gridApi.getFilterModel(), filterModel)) {
+        gridApi.setFilterModel(filterModel);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [search, filterModel, gridApi]);
+
+  // The full list narrowed by the column filters and `keep`
+  const filterAll = useCallback(async (gridFilters: FilterModel | null, options: RequestOptions) => {
+    const rowFilter = keepRef.current;
+    const all = await getAllRef.current(options);
+    return all.filter(row => (!rowFilter || rowFilter(row)) && matchesFilterModel(row, gridFilters));
+  }, []);
+
+  /**
+   * One page: from the server when nothing narrows the list, otherwise
+   * from the full list, filtered, searched and sorted here
+   */
+  const loadPage = useCallback(async (pageRequest: PageRequest, gridFilters: FilterModel | null, options: RequestOptions) => {
+    const isFiltered = Object.keys(gridFilters || {}).length > 0;
+    if (!pageRequest.search && !isFiltered && !keepRef.current) {
+      return fetchPageRef.current(pageRequest, options);
+    }
+    return pageLocally(await filterAll(gridFilters, options), pageRequest, searchFieldsRef.current);
+  }, [filterAll]);
+
+  /**
+   * Every row the grid currently matches, not just the loaded pages, for exports
+   */
+  const loadMatching = useCallback(async (options: RequestOptions = {}): Promise<T[]> => {
+    const matching = await filterAll(gridApi?.getFilterModel() ?? null, options);
+    const everything: PageRequest = { page: 0, size: Math.max(matching.length, 1), search: debouncedSearch };
+    return pageLocally(matching, everything, searchFieldsRef.current).items;
+  }, [filterAll, gridApi, debouncedSearch]);
+
+  // A new datasource (new search or scope) makes the grid start over from the first page
+  const datasource = useMemo<IDatasource>(() => ({
+    getRows: (params: IGetRowsParams) => {
+      const size = params.endRow - params.startRow;
+      const gridFilters: FilterModel | null = params.filterModel;
+      const pageRequest: PageRequest = {
+        page: Math.floor(params.startRow / size),
+        size,
+        sort: toSortOrders(params.sortModel),
+        search: debouncedSearch,
+      };
+
+      loadPage(pageRequest, gridFilters, { signal: getSignal() })
+        .then(({ items, page }) => {
+          setError(null);
+          setIsEmpty(page.totalElements === 0 && !debouncedSearch && !scope && Object.keys(gridFilters || {}).length === 0);
+          params.successCallback(items, page.totalElements);
+        })
+        .catch((loadError) => {
+          params.failCallback();
+          if (!(loadError instanceof RequestCancelledError)) {
+            console.error('Error loading page:', loadError);
+            setError(loadError);
+          }
+        });
+    },
+  }), [debouncedSearch, scope, loadPage, getSignal]);
+
+  // Push store updates (optimistic edits, resolved customers) into rendered rows;
+  // a row that left the store was deleted, so reload the pages around it
+  useEffect(() => {
+    if (!gridApi) return;
+    let removed = false;
+    gridApi.forEachNode(node => {
+      if (!node.data) return;
+      const key = getRowKey(node.data);
+      const latest = key ? rows[key] : undefined;
+      if (!latest) {
+        removed = true;
+      } else if (latest !== node.data) {
+        node.setData(latest);
+      }
+    });
+    if (removed) {
+      gridApi.refreshInfiniteCache();
+    }
+  }, [gridApi, rows, getRowKey]);
+
+  const lastInvalidation = useRef(invalidatedAt);
+  useEffect(() => {
+    if (gridApi && invalidatedAt !== lastInvalidation.current) {
+      lastInvalidation.current = invalidatedAt;
+      gridApi.refreshInfiniteCache();
+    }
+  }, [gridApi, invalidatedAt]);
+
+  const onGridReady = useCallback((params: GridReadyEvent<T>) => {
+    setGridApi(params.api);
+    params.api.sizeColumnsToFit();
+  }, []);
+
+  // Column menu changes are reported back; changes made through filterModel are not
+  const onFilterChanged = useCallback((event: FilterChangedEvent<T>) => {
+    if (event.source !== 'api') {
+      onFilterModelChangeRef.current?.(event.api.getFilterModel());
+    }
+  }, []);
+
+  const refresh = useCallback(() => {
+    setError(null);
+    gridApi?.refreshInfiniteCache();
+  }, [gridApi]);
+
+  return { gridApi, onGridReady, onFilterChanged, datasource, error, isEmpty, refresh, loadMatching };
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import { BodyMeasurement } from '../types';
+import { loadMeasurements, subscribeToMeasurements } from '../services/measurements';
+
+/**
+ * A customer's body measurements, oldest first, reloaded whenever they change
+ */
+export const useMeasurements = (customerId: number) => {
+  const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const loaded = await loadMeasurements(customerId);
+        if (cancelled) return;
+        setMeasurements(loaded);
+        setError(null);
+      } catch (loadError) {
+        if (!cancelled) setError(loadError);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    setIsLoading(true);
+    load();
+    const unsubscribe = subscribeToMeasurements(changedId => {
+      if (changedId === undefined || changedId === customerId) {
+        load();
+      }
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [customerId, reloadCount]);
+
+  return { measurements, isLoading, error, reload: () => setReloadCount(count => count + 1) };
+};
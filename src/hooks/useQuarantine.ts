@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { QuarantinedRecord, getQuarantined, subscribeToQuarantine } from '../services/quarantine';
+
+/**
+ * Records rejected by response validation, newest last
+ */
+export const useQuarantine = (): QuarantinedRecord[] =>
+  useSyncExternalStore(subscribeToQuarantine, getQuarantined);
@@ -0,0 +1,33 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { FilterModel } from '../utils/gridFilters';
+import { QueryField, parseQuery, queryFromFilterModel } from '../utils/queryLanguage';
+
+/**
+ * A list's search box written in the query language. The grid gets the
+ * last query that parsed, so a half typed term never clears its filters,
+ * and column menu changes are written back into the query.
+ */
+export const useQuerySearch = (fields: QueryField[]) => {
+  const [query, setQuery] = useState('');
+  const parsed = useMemo(() => parseQuery(query, fields), [query, fields]);
+  const [applied, setApplied] = useState<{ search: string; filterModel: FilterModel }>({ search: '', filterModel: {} });
+
+  useEffect(() => {
+    if (parsed.errors.length === 0) {
+      setApplied({ search: parsed.search, filterModel: parsed.filterModel });
+    }
+  }, [parsed]);
+
+  const syncFromGrid = useCallback((filterModel: FilterModel) => {
+    setQuery(queryFromFilterModel(filterModel, fields, applied.search));
+  }, [fields, applied.search]);
+
+  return {
+    query,
+    setQuery,
+    errors: parsed.errors,
+    search: applied.search,
+    filterModel: applied.filterModel,
+    syncFromGrid,
+  };
+};
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { RetryState, getRetryStates, subscribeToRetries } from '../services/request';
+
+/**
+ * Requests currently waiting to be retried, for showing retry progress
+ */
+export const useRetryStatus = (): RetryState[] =>
+  useSyncExternalStore(subscribeToRetries, getRetryStates);
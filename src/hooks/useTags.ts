@@ -0,0 +1,30 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { TagFilter, TagState, customerIdsMatching, getTagState, subscribeToTags } from '../services/tags';
+
+/**
+ * Customer tags and saved segments, updated on every change in any tab
+ */
+export const useTags = (): TagState => useSyncExternalStore(subscribeToTags, getTagState);
+
+/**
+ * Customers a tag filter selects, or null when it selects everyone, along
+ * with a key that changes only when the selection does (for grid scopes)
+ */
+export const useTagSelection = (filter: TagFilter | null) => {
+  const tagState = useTags();
+  const customerIds = useMemo(
+    () => (filter ? customerIdsMatching(tagState, filter) : null),
+    [tagState, filter]
+  );
+  const scope = customerIds ? `tags:${Array.from(customerIds).sort((a, b) => a - b).join(',')}` : undefined;
+  return { customerIds, scope };
+};
+
+/**
+ * Customers in a saved segment; null for no segment or one since deleted
+ */
+export const useSegmentSelection = (segmentId: string) => {
+  const { segments } = useTags();
+  const segment = segments.find(({ id }) => id === segmentId) ?? null;
+  return { segment, ...useTagSelection(segment) };
+};
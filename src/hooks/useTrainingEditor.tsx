@@ -0,0 +1,158 @@
+import { useState, useCallback, ReactNode } from 'react';
+import { Customer, Training, TrainingInput } from '../types';
+import { EditConflictError, getErrorMessage } from '../services/api';
+import { EditConflict, toTrainingInput } from '../services/conflicts';
+import { useCustomers, useDataStore } from '../context/DataStoreContext';
+import { useNotification } from '../context/NotificationContext';
+import { useTrainingSeriesSave } from './useTrainingSeriesSave';
+import { MutationOutcome, outcomeNotification } from '../offline/mutations';
+import TrainingFormDialog from '../components/TrainingFormDialog';
+import ConfirmationDialog from '../components/ConfirmationDialog';
+
+/**
+ * Add, edit and delete trainings through the shared dialogs. Views call the
+ * open* functions and render `dialogs` once; saving goes through the data
+ * store, with edit conflicts opening the merge form.
+ */
+export const useTrainingEditor = () => {
+  const { customers } = useCustomers();
+  const { addTraining, updateTraining, deleteTraining } = useDataStore();
+  const saveSeries = useTrainingSeriesSave();
+  const { showNotification } = useNotification();
+
+  const [trainingFormOpen, setTrainingFormOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedTraining, setSelectedTraining] = useState<Training | null>(null);
+  // Customer preselected when adding from a customer's context
+  const [presetCustomer, setPresetCustomer] = useState<Customer | null>(null);
+  // Suggested date, duration and activity for the new training
+  const [preset, setPreset] = useState<Partial<Omit<TrainingInput, 'customerId'>> | undefined>(undefined);
+  // An update that raced someone else's; `training` is the server's copy to merge with
+  const [editConflict, setEditConflict] = useState<{
+    training: Training;
+    conflict: EditConflict<TrainingInput>;
+  } | null>(null);
+
+  // Only state setters inside, so these stay stable for grid cell renderers
+  const openAdd = useCallback((customer: Customer | null = null, values?: Partial<Omit<TrainingInput, 'customerId'>>) => {
+    setSelectedTraining(null);
+    setPresetCustomer(customer);
+    setPreset(values);
+    setTrainingFormOpen(true);
+  }, []);
+
+  const openEdit = useCallback((training: Training) => {
+    setSelectedTraining(training);
+    setPresetCustomer(null);
+    setTrainingFormOpen(true);
+  }, []);
+
+  const openDelete = useCallback((training: Training) => {
+    setSelectedTraining(training);
+    setDeleteDialogOpen(true);
+  }, []);
+
+  // Save form changes. Updates are checked against the training as it was
+  // when the form opened, so someone else's edit isn't silently overwritten.
+  // Views update right away; the server confirms in the background.
+  const saveTraining = async (trainingData: TrainingInput, original: Training | null) => {
+    try {
+      const outcome: MutationOutcome = original
+        ? await updateTraining(original.id, trainingData, original)
+        : await addTraining(trainingData);
+      const { message, severity } = outcomeNotification(
+        outcome,
+        original ? 'Training updated successfully' : 'Training added successfully'
+      );
+      showNotification(message, severity);
+    } catch (error) {
+      console.error('Error saving training:', error);
+      if (original && error instanceof EditConflictError) {
+        const current = error.current as Training;
+        setEditConflict({
+          training: current,
+          conflict: { base: toTrainingInput(original), mine: trainingData, theirs: toTrainingInput(current) },
+        });
+        return;
+      }
+      showNotification(
+        `${original ? 'Failed to update training' : 'Failed to add training'}, the change was undone. ${getErrorMessage(error)}`,
+        'error'
+      );
+    }
+  };
+
+  const handleTrainingSave = (trainingData: TrainingInput) => {
+    setTrainingFormOpen(false);
+    saveTraining(trainingData, selectedTraining);
+  };
+
+  const handleSeriesSave = (trainings: TrainingInput[]) => {
+    setTrainingFormOpen(false);
+    saveSeries(trainings);
+  };
+
+  // The merged version is checked against the server's copy it was merged with
+  const handleMergedSave = (trainingData: TrainingInput) => {
+    if (editConflict) {
+      setEditConflict(null);
+      saveTraining(trainingData, editConflict.training);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    setDeleteDialogOpen(false);
+    if (!selectedTraining) {
+      showNotification('No training selected to delete', 'warning');
+      return;
+    }
+
+    try {
+      const { message, severity } = outcomeNotification(
+        await deleteTraining(selectedTraining),
+        'Training deleted successfully'
+      );
+      showNotification(message, severity);
+    } catch (error) {
+      showNotification(`Failed to delete training, the training was restored. ${getErrorMessage(error)}`, 'error');
+    }
+  };
+
+  const dialogs: ReactNode = (
+    <>
+      <TrainingFormDialog
+        open={trainingFormOpen}
+        customers={customers}
+        selectedCustomer={selectedTraining?.customer || presetCustomer}
+        training={selectedTraining || undefined}
+        preset={preset}
+        onSave={handleTrainingSave}
+        onSaveSeries={handleSeriesSave}
+        onCancel={() => setTrainingFormOpen(false)}
+      />
+
+      {/* Merge dialog for an update that raced someone else's */}
+      {editConflict && (
+        <TrainingFormDialog
+          open
+          customers={customers}
+          selectedCustomer={null}
+          training={editConflict.training}
+          conflict={editConflict.conflict}
+          onSave={handleMergedSave}
+          onCancel={() => setEditConflict(null)}
+        />
+      )}
+
+      <ConfirmationDialog
+        open={deleteDialogOpen}
+        title="Delete Training"
+        message="Are you sure you want to delete this training session?"
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleteDialogOpen(false)}
+      />
+    </>
+  );
+
+  return { customers, openAdd, openEdit, openDelete, dialogs };
+};
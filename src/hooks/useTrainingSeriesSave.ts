@@ -0,0 +1,47 @@
+import { useCallback } from 'react';
+import { TrainingInput } from '../types';
+import { getErrorMessage } from '../services/api';
+import { formatDate } from '../utils/dateUtils';
+import { useDataStore } from '../context/DataStoreContext';
+import { useNotification } from '../context/NotificationContext';
+
+/**
+ * Add a repeating series one training at a time, so a failed date doesn't
+ * stop the rest. Lists are refreshed once at the end, and the notification
+ * names every date that couldn't be added.
+ */
+export const useTrainingSeriesSave = () => {
+  const { addTraining, invalidate } = useDataStore();
+  const { showNotification } = useNotification();
+
+  return useCallback(async (trainings: TrainingInput[]) => {
+    const failed: { date: string; message: string }[] = [];
+    let queued = 0;
+    for (const training of trainings) {
+      try {
+        if (await addTraining(training, { refetch: false }) === 'queued') {
+          queued++;
+        }
+      } catch (error) {
+        console.error('Error adding training:', error);
+        failed.push({ date: formatDate(training.date), message: getErrorMessage(error) });
+      }
+    }
+    invalidate(['trainings']);
+
+    const added = trainings.length - failed.length;
+    if (failed.length === 0) {
+      showNotification(
+        queued > 0
+          ? `Saved ${added} trainings offline. They will sync when you're back online.`
+          : `Added ${added} trainings`,
+        queued > 0 ? 'info' : 'success'
+      );
+      return;
+    }
+    showNotification(
+      `Added ${added} of ${trainings.length} trainings. Failed on ${failed.map(({ date }) => date).join(', ')}. ${failed[0].message}`,
+      added === 0 ? 'error' : 'warning'
+    );
+  }, [addTraining, invalidate, showNotification]);
+};
@@ -0,0 +1,61 @@
+/**
+ * Seed data for the in-memory mock backend
+ */
+export interface CustomerFixture {
+  id: number;
+  firstname: string;
+  lastname: string;
+  streetaddress: string;
+  postcode: string;
+  city: string;
+  email: string;
+  phone: string;
+}
+
+export interface TrainingFixture {
+  id: number;
+  date: string;
+  duration: number;
+  activity: string;
+  customerId: number;
+}
+
+export interface MockFixtures {
+  customers: CustomerFixture[];
+  trainings: TrainingFixture[];
+}
+
+/**
+ * Build an ISO date relative to today so the calendar always has nearby sessions
+ */
+const daysFromNow = (days: number, hour: number, minute = 0): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  date.setHours(hour, minute, 0, 0);
+  return date.toISOString();
+};
+
+export const createDefaultFixtures = (): MockFixtures => ({
+  customers: [
+    { id: 1, firstname: 'John', lastname: 'Johnson', streetaddress: '5th Street', postcode: '23110', city: 'Flintsone', email: 'john@mail.com', phone: '232-2345540' },
+    { id: 2, firstname: 'Mary', lastname: 'Philips', streetaddress: 'Mannerheimintie 10', postcode: '00100', city: 'Helsinki', email: 'mary@mail.com', phone: '040-1234567' },
+    { id: 3, firstname: 'Mike', lastname: 'Lee', streetaddress: 'Hämeenkatu 5', postcode: '33100', city: 'Tampere', email: 'mike@mail.com', phone: '050-7654321' },
+    { id: 4, firstname: 'Anna', lastname: 'Virtanen', streetaddress: 'Aurakatu 8', postcode: '20100', city: 'Turku', email: 'anna.virtanen@mail.com', phone: '044-1112233' },
+    { id: 5, firstname: 'Pekka', lastname: 'Korhonen', streetaddress: 'Kauppakatu 21', postcode: '40100', city: 'Jyväskylä', email: 'pekka@mail.com', phone: '045-9988776' },
+    { id: 6, firstname: 'Laura', lastname: 'Nieminen', streetaddress: 'Isokatu 3', postcode: '90100', city: 'Oulu', email: 'laura.n@mail.com', phone: '041-5566778' },
+  ],
+  trainings: [
+    { id: 1, date: daysFromNow(-14, 9), duration: 60, activity: 'Gym training', customerId: 1 },
+    { id: 2, date: daysFromNow(-10, 17, 30), duration: 45, activity: 'Spinning', customerId: 2 },
+    { id: 3, date: daysFromNow(-7, 8), duration: 30, activity: 'Running', customerId: 3 },
+    { id: 4, date: daysFromNow(-5, 18), duration: 60, activity: 'Yoga', customerId: 4 },
+    { id: 5, date: daysFromNow(-3, 12), duration: 90, activity: 'Gym training', customerId: 1 },
+    { id: 6, date: daysFromNow(-2, 19), duration: 45, activity: 'Zumba', customerId: 5 },
+    { id: 7, date: daysFromNow(-1, 7, 30), duration: 40, activity: 'Swimming', customerId: 6 },
+    { id: 8, date: daysFromNow(0, 16), duration: 60, activity: 'Fitness', customerId: 2 },
+    { id: 9, date: daysFromNow(1, 10), duration: 50, activity: 'Pilates', customerId: 4 },
+    { id: 10, date: daysFromNow(3, 18, 30), duration: 60, activity: 'Spinning', customerId: 3 },
+    { id: 11, date: daysFromNow(6, 9), duration: 75, activity: 'Gym training', customerId: 5 },
+    { id: 12, date: daysFromNow(9, 17), duration: 60, activity: 'Yoga', customerId: 6 },
+  ],
+});
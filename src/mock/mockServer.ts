@@ -0,0 +1,412 @@
+import { CustomerFixture, TrainingFixture, MockFixtures, createDefaultFixtures } from './fixtures';
+import { MOCK_API_BASE_URL } from '../config/apiConfig';
+
+/**
+ * In-memory stand-in for the Spring Data REST backend.
+ * Responds with the same _embedded/_links shapes as the real server so the
+ * API layer can switch between the two without any other changes.
+ */
+
+type CustomerFields = Omit<CustomerFixture, 'id'>;
+
+interface MockServerOptions {
+  baseUrl?: string;
+  latencyMs?: number;
+  createFixtures?: () => MockFixtures;
+}
+
+export interface MockServer {
+  baseUrl: string;
+  fetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+  reset: () => void;
+}
+
+const CUSTOMER_FIELDS: (keyof CustomerFields)[] = [
+  'firstname',
+  'lastname',
+  'streetaddress',
+  'postcode',
+  'city',
+  'email',
+  'phone',
+];
+
+const DEFAULT_PAGE_SIZE = 20;
+
+interface CollectionQuery<T> {
+  fieldValue: (item: T, field: string) => unknown;
+}
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a ?? '').localeCompare(String(b ?? ''));
+};
+
+/**
+ * Sort and page a collection from Spring Data style query parameters
+ * (page, size, sort=field,dir). Without page or size the result is unpaged.
+ * Like the real backend, it has no search or filters; other parameters are
+ * ignored.
+ */
+const queryCollection = <T>(items: T[], query: URLSearchParams, { fieldValue }: CollectionQuery<T>) => {
+  let result = items;
+
+  const sorts = query.getAll('sort').map(sort => {
+    const [field, direction = 'asc'] = sort.split(',');
+    return { field, sign: direction.toLowerCase() === 'desc' ? -1 : 1 };
+  });
+  if (sorts.length > 0) {
+    result = [...result].sort((a, b) => {
+      for (const { field, sign } of sorts) {
+        const order = compareValues(fieldValue(a, field), fieldValue(b, field));
+        if (order !== 0) return order * sign;
+      }
+      return 0;
+    });
+  }
+
+  if (!query.has('page') && !query.has('size')) {
+    return { items: result };
+  }
+  const size = Math.max(1, Number(query.get('size')) || DEFAULT_PAGE_SIZE);
+  const number = Math.max(0, Number(query.get('page')) || 0);
+  return {
+    items: result.slice(number * size, (number + 1) * size),
+    page: {
+      size,
+      totalElements: result.length,
+      totalPages: Math.ceil(result.length / size),
+      number,
+    },
+  };
+};
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/hal+json', ...headers },
+  });
+
+const emptyResponse = (status: number): Response => new Response(null, { status });
+
+const errorResponse = (status: number, error: string, message: string, path: string): Response =>
+  jsonResponse({ timestamp: new Date().toISOString(), status, error, message, path }, status);
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Create a mock server seeded from fixtures
+ */
+export const createMockServer = ({
+  baseUrl = MOCK_API_BASE_URL,
+  latencyMs = 0,
+  createFixtures = createDefaultFixtures,
+}: MockServerOptions = {}): MockServer => {
+  let customers = new Map<number, CustomerFixture>();
+  let trainings = new Map<number, TrainingFixture>();
+  let nextCustomerId = 1;
+  let nextTrainingId = 1;
+  // Entity versions, like a JPA @Version column; exposed as ETags
+  let versions = new Map<string, number>();
+
+  const reset = () => {
+    const fixtures = createFixtures();
+    customers = new Map(fixtures.customers.map(c => [c.id, { ...c }]));
+    trainings = new Map(fixtures.trainings.map(t => [t.id, { ...t }]));
+    nextCustomerId = Math.max(0, ...customers.keys()) + 1;
+    nextTrainingId = Math.max(0, ...trainings.keys()) + 1;
+    versions = new Map();
+  };
+
+  const etagOf = (key: string) => `"${versions.get(key) ?? 0}"`;
+  const bumpVersion = (key: string) => versions.set(key, (versions.get(key) ?? 0) + 1);
+
+  /**
+   * Spring Data REST refuses a write whose If-Match doesn't name the current version
+   */
+  const isStale = (key: string, ifMatch: string | null) => ifMatch !== null && ifMatch !== etagOf(key);
+
+  const customerUrl = (id: number) => `${baseUrl}/customers/${id}`;
+  const trainingUrl = (id: number) => `${baseUrl}/trainings/${id}`;
+
+  /**
+   * Serialize entities the way Spring Data REST does: no id, HAL links instead
+   */
+  const toCustomerResource = ({ id, ...fields }: CustomerFixture) => ({
+    ...fields,
+    _links: {
+      self: { href: customerUrl(id) },
+      customer: { href: customerUrl(id) },
+      trainings: { href: `${customerUrl(id)}/trainings` },
+    },
+  });
+
+  const toTrainingResource = ({ id, date, duration, activity }: TrainingFixture) => ({
+    date,
+    duration,
+    activity,
+    _links: {
+      self: { href: trainingUrl(id) },
+      training: { href: trainingUrl(id) },
+      customer: { href: `${trainingUrl(id)}/customer` },
+    },
+  });
+
+  const collection = (rel: string, items: unknown[], path: string, page?: unknown) => ({
+    _embedded: { [rel]: items },
+    _links: {
+      self: { href: `${baseUrl}${path}` },
+      profile: { href: `${baseUrl}/profile${path}` },
+    },
+    ...(page ? { page } : {}),
+  });
+
+  const customerQuery: CollectionQuery<CustomerFixture> = {
+    fieldValue: (customer, field) => customer[field as keyof CustomerFixture],
+  };
+
+  const trainingQuery: CollectionQuery<TrainingFixture> = {
+    fieldValue: (training, field) => {
+      if (field.startsWith('customer.')) {
+        const owner = customers.get(training.customerId);
+        return owner?.[field.slice('customer.'.length) as keyof CustomerFixture];
+      }
+      return training[field as keyof TrainingFixture];
+    },
+  };
+
+  const pickCustomerFields = (body: Record<string, unknown>): CustomerFields =>
+    CUSTOMER_FIELDS.reduce((fields, key) => ({
+      ...fields,
+      [key]: typeof body[key] === 'string' ? body[key] : '',
+    }), {} as CustomerFields);
+
+  /**
+   * Resolve the customer reference of a training payload (URL or plain id)
+   */
+  const resolveCustomerRef = (ref: unknown): number | null => {
+    if (typeof ref !== 'string' && typeof ref !== 'number') return null;
+    const id = Number(String(ref).split('/').pop());
+    return customers.has(id) ? id : null;
+  };
+
+  const parseTraining = (body: Record<string, unknown>, path: string): Omit<TrainingFixture, 'id'> | Response => {
+    const customerId = resolveCustomerRef(body.customer);
+    if (customerId === null) {
+      return errorResponse(400, 'Bad Request', 'Training must reference an existing customer', path);
+    }
+    return {
+      date: typeof body.date === 'string' ? body.date : '',
+      duration: Number(body.duration) || 0,
+      activity: typeof body.activity === 'string' ? body.activity : '',
+      customerId,
+    };
+  };
+
+  const handleCustomers = (
+    method: string,
+    segments: string[],
+    body: Record<string, unknown>,
+    path: string,
+    query: URLSearchParams,
+    ifMatch: string | null
+  ): Response => {
+    // /customers
+    if (segments.length === 1) {
+      if (method === 'GET') {
+        const { items, page } = queryCollection([...customers.values()], query, customerQuery);
+        return jsonResponse(collection('customers', items.map(toCustomerResource), path, page));
+      }
+      if (method === 'POST') {
+        const customer = { id: nextCustomerId++, ...pickCustomerFields(body) };
+        customers.set(customer.id, customer);
+        return jsonResponse(toCustomerResource(customer), 201, { Location: customerUrl(customer.id) });
+      }
+      return errorResponse(405, 'Method Not Allowed', `${method} not supported`, path);
+    }
+
+    const id = Number(segments[1]);
+    const customer = customers.get(id);
+    if (!customer) {
+      return errorResponse(404, 'Not Found', `Customer ${segments[1]} not found`, path);
+    }
+
+    // /customers/{id}/trainings
+    if (segments[2] === 'trainings' && method === 'GET') {
+      const owned = [...trainings.values()].filter(t => t.customerId === id);
+      return jsonResponse({
+        _embedded: { trainings: owned.map(toTrainingResource) },
+        _links: { self: { href: `${baseUrl}${path}` } },
+      });
+    }
+    if (segments.length > 2) {
+      return errorResponse(404, 'Not Found', `No route for ${path}`, path);
+    }
+
+    // /customers/{id}
+    const key = `customers/${id}`;
+    switch (method) {
+      case 'GET':
+        return jsonResponse(toCustomerResource(customer), 200, { ETag: etagOf(key) });
+      case 'PUT': {
+        if (isStale(key, ifMatch)) {
+          return errorResponse(412, 'Precondition Failed', `Customer ${id} has been modified`, path);
+        }
+        const updated = { id, ...pickCustomerFields(body) };
+        customers.set(id, updated);
+        bumpVersion(key);
+        return jsonResponse(toCustomerResource(updated), 200, { ETag: etagOf(key) });
+      }
+      case 'DELETE':
+        customers.delete(id);
+        // The real backend cascades customer deletes to their trainings
+        trainings.forEach((training, trainingId) => {
+          if (training.customerId === id) trainings.delete(trainingId);
+        });
+        return emptyResponse(204);
+      default:
+        return errorResponse(405, 'Method Not Allowed', `${method} not supported`, path);
+    }
+  };
+
+  const handleTrainings = (
+    method: string,
+    segments: string[],
+    body: Record<string, unknown>,
+    path: string,
+    query: URLSearchParams,
+    ifMatch: string | null
+  ): Response => {
+    // /trainings
+    if (segments.length === 1) {
+      if (method === 'GET') {
+        const { items, page } = queryCollection([...trainings.values()], query, trainingQuery);
+        return jsonResponse(collection('trainings', items.map(toTrainingResource), path, page));
+      }
+      if (method === 'POST') {
+        const parsed = parseTraining(body, path);
+        if (parsed instanceof Response) return parsed;
+        const training = { id: nextTrainingId++, ...parsed };
+        trainings.set(training.id, training);
+        return jsonResponse(toTrainingResource(training), 201, { Location: trainingUrl(training.id) });
+      }
+      return errorResponse(405, 'Method Not Allowed', `${method} not supported`, path);
+    }
+
+    const id = Number(segments[1]);
+    const training = trainings.get(id);
+    if (!training) {
+      return errorResponse(404, 'Not Found', `Training ${segments[1]} not found`, path);
+    }
+
+    // /trainings/{id}/customer
+    if (segments[2] === 'customer' && method === 'GET') {
+      const owner = customers.get(training.customerId);
+      return owner
+        ? jsonResponse(toCustomerResource(owner))
+        : errorResponse(404, 'Not Found', 'Training has no customer', path);
+    }
+    if (segments.length > 2) {
+      return errorResponse(404, 'Not Found', `No route for ${path}`, path);
+    }
+
+    // /trainings/{id}
+    const key = `trainings/${id}`;
+    switch (method) {
+      case 'GET':
+        return jsonResponse(toTrainingResource(training), 200, { ETag: etagOf(key) });
+      case 'PUT': {
+        if (isStale(key, ifMatch)) {
+          return errorResponse(412, 'Precondition Failed', `Training ${id} has been modified`, path);
+        }
+        const parsed = parseTraining(body, path);
+        if (parsed instanceof Response) return parsed;
+        const updated = { id, ...parsed };
+        trainings.set(id, updated);
+        bumpVersion(key);
+        return jsonResponse(toTrainingResource(updated), 200, { ETag: etagOf(key) });
+      }
+      case 'DELETE':
+        trainings.delete(id);
+        return emptyResponse(204);
+      default:
+        return errorResponse(405, 'Method Not Allowed', `${method} not supported`, path);
+    }
+  };
+
+  /**
+   * The custom /gettrainings endpoint returns a plain array with customers embedded
+   */
+  const handleGetTrainings = (): Response =>
+    jsonResponse([...trainings.values()].map(({ customerId, ...training }) => {
+      const customer = customers.get(customerId);
+      return { ...training, customer: customer ? { ...customer } : null };
+    }));
+
+  const route = (
+    method: string,
+    path: string,
+    body: Record<string, unknown>,
+    query: URLSearchParams,
+    ifMatch: string | null
+  ): Response => {
+    const segments = path.split('/').filter(Boolean);
+
+    switch (segments[0]) {
+      case 'customers':
+        return handleCustomers(method, segments, body, path, query, ifMatch);
+      case 'trainings':
+        return handleTrainings(method, segments, body, path, query, ifMatch);
+      case 'gettrainings':
+        return method === 'GET'
+          ? handleGetTrainings()
+          : errorResponse(405, 'Method Not Allowed', `${method} not supported`, path);
+      case 'reset':
+        if (method !== 'POST') {
+          return errorResponse(405, 'Method Not Allowed', `${method} not supported`, path);
+        }
+        reset();
+        return new Response('Database reset done', { status: 200 });
+      default:
+        return errorResponse(404, 'Not Found', `No route for ${path}`, path);
+    }
+  };
+
+  const mockFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = input instanceof Request ? input.url : String(input);
+    const method = (init?.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+
+    if (latencyMs > 0) {
+      await delay(latencyMs);
+    }
+
+    if (!url.startsWith(baseUrl)) {
+      throw new TypeError(`Mock server cannot handle ${url}`);
+    }
+
+    let body: Record<string, unknown> = {};
+    if (typeof init?.body === 'string' && init.body) {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        return errorResponse(400, 'Bad Request', 'Malformed JSON body', url);
+      }
+    }
+
+    const { pathname, searchParams } = new URL(url);
+    const basePath = new URL(baseUrl).pathname;
+    const ifMatch = new Headers(init?.headers).get('If-Match');
+    return route(method, pathname.slice(basePath.length), body, searchParams, ifMatch);
+  };
+
+  reset();
+
+  return { baseUrl, fetch: mockFetch, reset };
+};
+
+/**
+ * Shared instance used by the API layer when the mock backend is enabled
+ */
+export const mockServer = createMockServer({ latencyMs: 150 });
@@ -0,0 +1,83 @@
+import { QueuedMutation } from './mutations';
+
+/**
+ * IndexedDB persistence for the offline mutation queue.
+ * Falls back to memory when IndexedDB is unavailable (private mode, tests).
+ */
+const DB_NAME = 'personal-trainer-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const memoryStore = new Map<number, QueuedMutation>();
+let memoryId = 0;
+
+const hasIndexedDb = (): boolean => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Run a single request against the mutations store
+ */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * All queued mutations in the order they were recorded
+ */
+export const loadQueue = async (): Promise<QueuedMutation[]> => {
+  const mutations = hasIndexedDb()
+    ? await withStore<QueuedMutation[]>('readonly', store => store.getAll())
+    : [...memoryStore.values()];
+  return mutations.sort((a, b) => a.id - b.id);
+};
+
+/**
+ * Append a mutation; the store assigns its id, which also fixes its replay order
+ */
+export const appendToQueue = async (mutation: Omit<QueuedMutation, 'id'>): Promise<QueuedMutation> => {
+  if (!hasIndexedDb()) {
+    const stored = { ...mutation, id: ++memoryId } as QueuedMutation;
+    memoryStore.set(stored.id, stored);
+    return stored;
+  }
+  const id = await withStore<IDBValidKey>('readwrite', store => store.add(mutation));
+  return { ...mutation, id: Number(id) } as QueuedMutation;
+};
+
+export const saveQueuedMutation = async (mutation: QueuedMutation): Promise<void> => {
+  if (!hasIndexedDb()) {
+    memoryStore.set(mutation.id, mutation);
+    return;
+  }
+  await withStore('readwrite', store => store.put(mutation));
+};
+
+export const removeFromQueue = async (id: number): Promise<void> => {
+  if (!hasIndexedDb()) {
+    memoryStore.delete(id);
+    return;
+  }
+  await withStore('readwrite', store => store.delete(id));
+};
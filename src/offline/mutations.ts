@@ -0,0 +1,160 @@
+import { AlertColor } from '@mui/material';
+import { Customer, CustomerInput, Training, TrainingInput } from '../types';
+import * as api from '../services/api';
+
+/**
+ * Serializable description of a write, so it can be queued while offline
+ * and replayed against the server later
+ */
+// Updates may carry the record as it was when editing started, so the
+// server write can detect changes made by someone else in the meantime
+export type MutationRequest =
+  | { kind: 'addCustomer'; customer: CustomerInput; tempId: number }
+  | { kind: 'updateCustomer'; customer: Customer; original?: Customer }
+  | { kind: 'deleteCustomer'; customer: Customer }
+  | { kind: 'addTraining'; training: TrainingInput; tempId: number }
+  | { kind: 'updateTraining'; trainingId: number; training: TrainingInput; original?: Training }
+  | { kind: 'deleteTraining'; training: Training };
+
+export type QueuedMutation = MutationRequest & {
+  id: number;
+  createdAt: number;
+  status: 'pending' | 'failed';
+  error?: string;
+};
+
+/**
+ * Whether the change reached the server or was queued for later
+ */
+export type MutationOutcome = 'synced' | 'queued';
+
+/**
+ * Notification for a finished write; queued writes get an offline notice instead
+ */
+export const outcomeNotification = (
+  outcome: MutationOutcome,
+  successMessage: string
+): { message: string; severity: AlertColor } =>
+  outcome === 'queued'
+    ? { message: "Saved offline. The change will sync when you're back online.", severity: 'info' }
+    : { message: successMessage, severity: 'success' };
+
+/**
+ * Records created offline get negative ids, which never collide with server ids,
+ * and a local: self link so the rest of the app can treat them like any other record
+ */
+let tempIdCounter = 0;
+export const createTempId = (): number => -(Date.now() * 100 + (tempIdCounter++ % 100));
+
+export const LOCAL_HREF_PREFIX = 'local:';
+
+export const localHref = (collection: 'customers' | 'trainings', id: number): string =>
+  `${LOCAL_HREF_PREFIX}${collection}/${id}`;
+
+/**
+ * Whether an id belongs to a record that only exists locally
+ */
+const isTempId = (id: number): boolean => id < 0;
+
+const dependsOnTempRecord = (mutation: MutationRequest): boolean => {
+  switch (mutation.kind) {
+    case 'updateCustomer':
+    case 'deleteCustomer':
+      return isTempId(mutation.customer.id);
+    case 'addTraining':
+      return isTempId(mutation.training.customerId);
+    case 'updateTraining':
+      return isTempId(mutation.training.customerId) || isTempId(mutation.trainingId);
+    case 'deleteTraining':
+      return isTempId(mutation.training.id);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Send a mutation to the server. Adds resolve to the created record when the server returns it.
+ */
+export const executeMutation = async (mutation: MutationRequest): Promise<Customer | Training | null> => {
+  // Sending a local: URL would fail as a network error and stall the queue forever
+  if (dependsOnTempRecord(mutation)) {
+    throw new Error('Depends on an offline change that has not been synced');
+  }
+
+  switch (mutation.kind) {
+    case 'addCustomer':
+      return api.addCustomer(mutation.customer);
+    case 'updateCustomer':
+      await api.updateCustomer(mutation.customer, mutation.original);
+      return null;
+    case 'deleteCustomer':
+      await api.deleteCustomer(mutation.customer);
+      return null;
+    case 'addTraining':
+      return api.addTraining(mutation.training);
+    case 'updateTraining':
+      await api.updateTraining(mutation.trainingId, mutation.training, mutation.original);
+      return null;
+    case 'deleteTraining':
+      await api.deleteTraining(mutation.training);
+      return null;
+  }
+};
+
+/**
+ * Replace references to records created offline with their server ids.
+ * `idMap` maps a temporary id to the id the server assigned.
+ */
+export const remapMutation = <T extends MutationRequest>(mutation: T, idMap: Record<number, number>): T => {
+  const realId = (id: number) => idMap[id] ?? id;
+
+  switch (mutation.kind) {
+    case 'updateCustomer':
+    case 'deleteCustomer':
+      // Dropping the local: links makes the request use the URL built from the new id
+      return mutation.customer.id in idMap
+        ? { ...mutation, customer: { ...mutation.customer, id: realId(mutation.customer.id), links: undefined } }
+        : mutation;
+    case 'addTraining':
+      return { ...mutation, training: { ...mutation.training, customerId: realId(mutation.training.customerId) } };
+    case 'updateTraining': {
+      const originalCustomer = mutation.original?.customer;
+      return {
+        ...mutation,
+        trainingId: realId(mutation.trainingId),
+        training: { ...mutation.training, customerId: realId(mutation.training.customerId) },
+        // The conflict check compares customer ids, so the snapshot needs the real one too
+        ...(mutation.original && originalCustomer
+          ? { original: { ...mutation.original, customer: { ...originalCustomer, id: realId(originalCustomer.id) } } }
+          : {}),
+      };
+    }
+    case 'deleteTraining':
+      return mutation.training.id in idMap
+        ? { ...mutation, training: { ...mutation.training, id: realId(mutation.training.id), links: undefined } }
+        : mutation;
+    default:
+      return mutation;
+  }
+};
+
+/**
+ * Short human readable summary used in the pending changes review
+ */
+export const describeMutation = (mutation: MutationRequest): string => {
+  const customerName = (customer: CustomerInput) => `${customer.firstname} ${customer.lastname}`;
+  switch (mutation.kind) {
+    case 'addCustomer':
+      return `Add customer ${customerName(mutation.customer)}`;
+    case 'updateCustomer':
+      return `Update customer ${customerName(mutation.customer)}`;
+    case 'deleteCustomer':
+      return `Delete customer ${customerName(mutation.customer)}`;
+    case 'addTraining':
+      return `Add ${mutation.training.activity} training (${mutation.training.duration} min)`;
+    case 'updateTraining':
+      return `Update ${mutation.training.activity} training (${mutation.training.duration} min)`;
+    case 'deleteTraining':
+      return `Delete ${mutation.training.activity} training`;
+  }
+};
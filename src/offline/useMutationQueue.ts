@@ -0,0 +1,196 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { NetworkError, getErrorMessage } from '../services/api';
+import { MutationRequest, QueuedMutation, executeMutation, remapMutation } from './mutations';
+import { loadQueue, appendToQueue, saveQueuedMutation, removeFromQueue } from './mutationQueue';
+import { moveCustomerTags } from '../services/tags';
+import { moveCustomerNotes } from '../services/customerNotes';
+import { moveCustomerMeasurements } from '../services/measurements';
+
+const RETRY_INTERVAL_MS = 30000;
+
+interface UseMutationQueueOptions {
+  // Apply a queued write to local state (on enqueue and after reloading the queue)
+  applyLocally: (mutation: MutationRequest) => void;
+  // Called after the queue changed the server, to refetch server state
+  onSynced: () => Promise<void>;
+}
+
+export interface MutationQueue {
+  mutations: QueuedMutation[];
+  isOnline: boolean;
+  isReplaying: boolean;
+  hasPending: () => boolean;
+  pendingMutations: () => QueuedMutation[];
+  enqueue: (mutation: MutationRequest) => Promise<void>;
+  replay: () => Promise<void>;
+  retry: (id: number) => Promise<void>;
+  discard: (id: number) => Promise<void>;
+}
+
+/**
+ * Offline write queue persisted in IndexedDB and replayed in order once the
+ * browser is back online. Writes the server rejects stay in the queue as
+ * failed so the user can review, retry or discard them.
+ */
+export const useMutationQueue = ({ applyLocally, onSynced }: UseMutationQueueOptions): MutationQueue => {
+  const [mutations, setMutations] = useState<QueuedMutation[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  // The replay loop reads the latest queue through this ref
+  const mutationsRef = useRef<QueuedMutation[]>([]);
+  const replaying = useRef(false);
+  const optionsRef = useRef({ applyLocally, onSynced });
+  optionsRef.current = { applyLocally, onSynced };
+
+  const updateMutations = useCallback((update: (current: QueuedMutation[]) => QueuedMutation[]) => {
+    mutationsRef.current = update(mutationsRef.current);
+    setMutations(mutationsRef.current);
+  }, []);
+
+  const pendingMutations = useCallback(
+    () => mutationsRef.current.filter(mutation => mutation.status === 'pending'),
+    []
+  );
+  const hasPending = useCallback(() => pendingMutations().length > 0, [pendingMutations]);
+
+  /**
+   * Point queued writes at the server id of a record that was created offline
+   */
+  const rewriteQueue = useCallback(async (idMap: Record<number, number>) => {
+    const rewritten = mutationsRef.current.map(mutation => remapMutation(mutation, idMap));
+    await Promise.all(rewritten
+      .filter((mutation, index) => mutation !== mutationsRef.current[index])
+      .map(saveQueuedMutation));
+    updateMutations(() => rewritten);
+  }, [updateMutations]);
+
+  const replay = useCallback(async () => {
+    if (replaying.current || !navigator.onLine) {
+      return;
+    }
+    replaying.current = true;
+    setIsReplaying(true);
+
+    let changedServer = false;
+    const attempted = new Set<number>();
+    try {
+      // Writes queued while replaying are picked up by the same loop
+      let next = pendingMutations().find(mutation => !attempted.has(mutation.id));
+      while (next) {
+        const current = next;
+        attempted.add(current.id);
+        try {
+          const created = await executeMutation(current);
+          await removeFromQueue(current.id);
+          updateMutations(queue => queue.filter(mutation => mutation.id !== current.id));
+          changedServer = true;
+          if ('tempId' in current && created) {
+            await rewriteQueue({ [current.tempId]: created.id });
+            if (current.kind === 'addCustomer') {
+              moveCustomerTags(current.tempId, created.id);
+              moveCustomerNotes(current.tempId, created.id).catch(error => console.error('Moving notes failed:', error));
+              moveCustomerMeasurements(current.tempId, created.id).catch(error => console.error('Moving measurements failed:', error));
+            }
+          }
+        } catch (error) {
+          if (error instanceof NetworkError) {
+            // Still offline; leave the rest of the queue for the next attempt
+            break;
+          }
+          const failed: QueuedMutation = { ...current, status: 'failed', error: getErrorMessage(error) };
+          await saveQueuedMutation(failed);
+          updateMutations(queue => queue.map(mutation => (mutation.id === failed.id ? failed : mutation)));
+        }
+        next = pendingMutations().find(mutation => !attempted.has(mutation.id));
+      }
+    } finally {
+      replaying.current = false;
+      setIsReplaying(false);
+    }
+
+    if (changedServer) {
+      await optionsRef.current.onSynced();
+    }
+  }, [pendingMutations, updateMutations, rewriteQueue]);
+
+  const enqueue = useCallback(async (mutation: MutationRequest) => {
+    const queued = await appendToQueue({ ...mutation, createdAt: Date.now(), status: 'pending' });
+    updateMutations(queue => [...queue, queued]);
+  }, [updateMutations]);
+
+  const retry = useCallback(async (id: number) => {
+    const mutation = mutationsRef.current.find(m => m.id === id);
+    if (!mutation) {
+      return;
+    }
+    const pending: QueuedMutation = { ...mutation, status: 'pending', error: undefined };
+    await saveQueuedMutation(pending);
+    updateMutations(queue => queue.map(m => (m.id === id ? pending : m)));
+    await replay();
+  }, [replay, updateMutations]);
+
+  const discard = useCallback(async (id: number) => {
+    await removeFromQueue(id);
+    updateMutations(queue => queue.filter(m => m.id !== id));
+    // Refetch so any local effect of the discarded write disappears
+    await optionsRef.current.onSynced();
+  }, [updateMutations]);
+
+  // Restore the persisted queue and apply its pending writes to local state
+  useEffect(() => {
+    let cancelled = false;
+    loadQueue()
+      .then(queue => {
+        if (cancelled) return;
+        updateMutations(() => queue);
+        pendingMutations().forEach(mutation => optionsRef.current.applyLocally(mutation));
+        if (navigator.onLine && queue.length > 0) {
+          replay();
+        }
+      })
+      .catch(error => console.error('Error loading offline queue:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [updateMutations, pendingMutations, replay]);
+
+  // The browser can report online while the server is unreachable, so keep
+  // retrying in the background while anything is waiting
+  const hasWaiting = mutations.some(mutation => mutation.status === 'pending');
+  useEffect(() => {
+    if (!hasWaiting) {
+      return;
+    }
+    const intervalId = setInterval(replay, RETRY_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [hasWaiting, replay]);
+
+  // Replay as soon as connectivity returns
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      replay();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [replay]);
+
+  return {
+    mutations,
+    isOnline,
+    isReplaying,
+    hasPending,
+    pendingMutations,
+    enqueue,
+    replay,
+    retry,
+    discard,
+  };
+};
@@ -1,233 +1,464 @@
-import axios from 'axios';
-import { CustomerResponse, TrainingResponse, Customer, Training } from '../types';
+import {
+  CustomerResponse,
+  TrainingResponse,
+  Customer,
+  CustomerInput,
+  Training,
+  TrainingInput,
+  PageMetadata,
+} from '../types';
+import {
+  ConflictError,
+  EditConflictError,
+  InvalidResponseError,
+  NotFoundError,
+  RequestCancelledError,
+} from './errors';
+import { HalLinks, getLinkHref, getSelfRef, parseCustomerRef, parseTrainingRef } from './hal';
+import {
+  Schema,
+  validate,
+  customerSchema,
+  trainingSchema,
+  customerResponseSchema,
+  trainingResponseSchema,
+  trainingListSchema,
+} from './schema';
+import { QuarantineKind, quarantine } from './quarantine';
+import {
+  CUSTOMER_FIELDS,
+  TRAINING_FIELDS,
+  changedFields,
+  toCustomerInput,
+  toTrainingInput,
+} from './conflicts';
+import { request, RequestOptions } from './request';
+import { getApiConfig } from '../config/apiConfig';
+
+export {
+  ApiError,
+  NetworkError,
+  TimeoutError,
+  RequestCancelledError,
+  InvalidResponseError,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  EditConflictError,
+  ServerError,
+  getErrorMessage,
+} from './errors';
+export type { RequestOptions } from './request';
 
 /**
- * API configuration and endpoints
+ * API endpoints, resolved from the active configuration on every access
+ * so a settings change takes effect without rebuilding
  */
-export const API_BASE_URL = 'https://customer-rest-service-frontend-personaltrainer.2.rahtiapp.fi/api';
 const ENDPOINTS = {
-  customers: `${API_BASE_URL}/customers`,
-  trainings: `${API_BASE_URL}/trainings`,
-  getTrainings: `${API_BASE_URL}/gettrainings`,
-  reset: `${API_BASE_URL}/reset`
+  get customers() { return `${getApiConfig().baseUrl}/customers`; },
+  get trainings() { return `${getApiConfig().baseUrl}/trainings`; },
+  get getTrainings() { return `${getApiConfig().baseUrl}/gettrainings`; },
+  get reset() { return `${getApiConfig().baseUrl}/reset`; },
 };
 
 /**
- * Utility for handling API errors
+ * Resource URL of a customer or training by id
  */
-class ApiError extends Error {
-  status: number;
-  
-  constructor(message: string, status = 500) {
-    super(message);
-    this.status = status;
-    this.name = 'ApiError';
-  }
+export const getCustomerUrl = (id: number | string): string => `${ENDPOINTS.customers}/${id}`;
+export const getTrainingUrl = (id: number | string): string => `${ENDPOINTS.trainings}/${id}`;
+
+/**
+ * Canonical URL of a loaded record: its self link, or built from its id
+ */
+export const getCustomerHref = (customer: Customer): string =>
+  customer.links?.self?.href || getCustomerUrl(customer.id);
+export const getTrainingHref = (training: Training): string =>
+  training.links?.self?.href || getTrainingUrl(training.id);
+
+/**
+ * PAGING
+ */
+
+export interface SortOrder {
+  // Resource property, nested ones as dotted paths (e.g. customer.lastname)
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface PageRequest {
+  // Zero based, like Spring Data
+  page: number;
+  size: number;
+  sort?: SortOrder[];
+  // Free text search across the main fields. The backend has no search, so
+  // this is only applied to pages made in the browser and never sent.
+  search?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  page: PageMetadata;
 }
 
 /**
- * Extract ID from a URL string
+ * Query string for a page request, e.g. page=0&size=10&sort=lastname,asc
  */
-export const extractIdFromUrl = (url?: string): string | null => {
-  if (!url) return null;
-  const parts = url.split('/');
-  return parts[parts.length - 1] || null;
+const toPageQuery = ({ page, size, sort = [] }: PageRequest): string => {
+  const params = new URLSearchParams({ page: String(page), size: String(size) });
+  sort.forEach(({ field, direction }) => params.append('sort', `${field},${direction}`));
+  return params.toString();
 };
 
 /**
- * Get customer ID from customer object or links
+ * Page metadata of a response; an unpaged collection is a single page holding everything
  */
-export const getCustomerId = (customer: Customer | string): string | null => {
-  if (typeof customer === 'string') {
-    return extractIdFromUrl(customer);
-  }
-  
-  // Try to get ID from the self link first
-  if (customer?.links?.self?.href) {
-    return extractIdFromUrl(customer.links.self.href);
-  }
-  
-  // Try to get ID from customer link
-  if (customer?.links?.customer?.href) {
-    return extractIdFromUrl(customer.links.customer.href);
-  }
-  
-  return null;
-};
+const toPageMetadata = (page: PageMetadata | undefined, itemCount: number): PageMetadata =>
+  page ?? { size: itemCount, totalElements: itemCount, totalPages: 1, number: 0 };
 
 /**
  * CUSTOMER API
  */
 
 /**
- * Get all customers
+ * Records as the server sends them once customerSchema or trainingSchema has
+ * passed: HAL resources carry links, /gettrainings entities an id instead
  */
-export const getCustomers = async (): Promise<Customer[]> => {
-  try {
-    const response = await fetch(ENDPOINTS.customers);
-    
-    if (!response.ok) {
-      throw new ApiError(`Failed to fetch customers: ${response.status}`, response.status);
-    }
-    
-    const data: CustomerResponse = await response.json();
-    
-    if (!data?._embedded?.customers) {
-      return [];
+interface ApiCustomer {
+  id?: unknown;
+  firstname: string;
+  lastname: string;
+  streetaddress?: string | null;
+  postcode?: string | null;
+  city?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  _links?: HalLinks;
+}
+
+interface ApiTraining {
+  id?: unknown;
+  date: string;
+  duration: number;
+  activity: string;
+  customer?: ApiCustomer | null;
+  _links?: HalLinks;
+}
+
+/**
+ * Id of a resource: from its self link for HAL resources, or the id field of
+ * plain entities (the custom /gettrainings endpoint)
+ */
+const resourceId = (resource: ApiCustomer | ApiTraining): number | null => {
+  const ref = getSelfRef(resource);
+  if (ref) {
+    return ref.id;
+  }
+  return typeof resource.id === 'number' && Number.isInteger(resource.id) ? resource.id : null;
+};
+
+/**
+ * Map a customer resource or entity to our Customer type; null when it has no id
+ */
+const toCustomer = (apiCustomer: ApiCustomer): Customer | null => {
+  const id = resourceId(apiCustomer);
+  if (id === null) {
+    return null;
+  }
+  const href = getLinkHref(apiCustomer, 'self') || getCustomerUrl(id);
+  return {
+    id,
+    firstname: apiCustomer.firstname,
+    lastname: apiCustomer.lastname,
+    streetaddress: apiCustomer.streetaddress ?? '',
+    postcode: apiCustomer.postcode ?? '',
+    city: apiCustomer.city ?? '',
+    email: apiCustomer.email ?? '',
+    phone: apiCustomer.phone ?? '',
+    links: {
+      self: { href },
+      customer: { href: getLinkHref(apiCustomer, 'customer') || href },
+      trainings: { href: getLinkHref(apiCustomer, 'trainings') || `${href}/trainings` }
     }
-    
-    return data._embedded.customers.map((apiCustomer: any) => ({
-      firstname: apiCustomer.firstname,
-      lastname: apiCustomer.lastname,
-      streetaddress: apiCustomer.streetaddress,
-      postcode: apiCustomer.postcode,
-      city: apiCustomer.city,
-      email: apiCustomer.email,
-      phone: apiCustomer.phone,
-      links: {
-        self: { href: apiCustomer._links?.self?.href || '' },
-        customer: { href: apiCustomer._links?.customer?.href || '' },
-        trainings: { href: apiCustomer._links?.trainings?.href || '' }
-      }
-    }));
-  } catch (error) {
-    // Return empty array instead of throwing to allow graceful UI recovery
-    return [];
+  };
+};
+
+/**
+ * Map a training resource or entity to our Training type; null when it has no id.
+ * Trainings from /gettrainings embed their customer, HAL ones only link to it.
+ */
+const toTraining = (apiTraining: ApiTraining): Training | null => {
+  const id = resourceId(apiTraining);
+  if (id === null) {
+    return null;
   }
+  const href = getLinkHref(apiTraining, 'self') || getTrainingUrl(id);
+  const customer = apiTraining.customer ? toCustomer(apiTraining.customer) ?? undefined : undefined;
+  return {
+    id,
+    date: apiTraining.date,
+    duration: apiTraining.duration,
+    activity: apiTraining.activity,
+    customer,
+    links: {
+      self: { href },
+      training: { href: getLinkHref(apiTraining, 'training') || href },
+      customer: { href: getLinkHref(apiTraining, 'customer') || customer?.links?.self.href || '' }
+    }
+  };
 };
 
 /**
- * Add a new customer
+ * Check a record and map it; records that fail are quarantined and give null.
+ * `map` only sees records `schema` accepted, typed as that schema's shape.
  */
-export const addCustomer = async (customer: Omit<Customer, 'links'>): Promise<boolean> => {
-  try {
-    const response = await fetch(ENDPOINTS.customers, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(customer),
-    });
+const parseRecord = <R, T>(
+  item: unknown,
+  schema: Schema,
+  map: (record: R) => T | null,
+  kind: QuarantineKind,
+  source: string
+): T | null => {
+  const issues = validate(schema, item);
+  const mapped = issues.length === 0 ? map(item as R) : null;
+  if (issues.length === 0 && mapped === null) {
+    issues.push({ path: '_links.self', message: 'record has no id' });
+  }
+  if (issues.length > 0) {
+    quarantine({ kind, source, record: item, issues });
+    return null;
+  }
+  return mapped;
+};
 
-    return response.status === 201;
-  } catch (error) {
-    return false;
+const parseRecords = <R, T>(
+  items: unknown[],
+  schema: Schema,
+  map: (record: R) => T | null,
+  kind: QuarantineKind,
+  source: string
+): T[] => items.flatMap(item => {
+  const mapped = parseRecord(item, schema, map, kind, source);
+  return mapped === null ? [] : [mapped];
+});
+
+/**
+ * Read a response body that must match `schema`; anything else is quarantined
+ * and fails the request, since none of it can be trusted
+ */
+const readValid = async <T>(response: Response, schema: Schema, kind: QuarantineKind, url: string): Promise<T> => {
+  const data = await response.json();
+  const issues = validate(schema, data);
+  if (issues.length > 0) {
+    quarantine({ kind, source: url, record: data, issues });
+    throw new InvalidResponseError(issues, { status: response.status, url, body: data });
   }
+  return data as T;
 };
 
 /**
- * Find a customer by matching attributes
+ * Read the resource returned by a create request. Spring Data REST only sends
+ * a body when asked for one, so fall back to the Location header.
  */
-export const findCustomerByData = async (customer: Customer): Promise<Customer | null> => {
+const readCreated = async (response: Response): Promise<{ body: unknown; location: string | null }> => {
+  const location = response.headers.get('Location');
   try {
-    // Try to get the customer by ID if available
-    const customerId = getCustomerId(customer);
-    
-    if (customerId) {
-      try {
-        const response = await fetch(`${ENDPOINTS.customers}/${customerId}`);
-        if (response.ok) {
-          return await response.json();
-        }
-      } catch {
-        // Continue to fallback method if ID lookup fails
-      }
-    }
-    
-    // Fallback: find by matching properties
-    const allCustomers = await getCustomers();
-    
-    const matchingCustomer = allCustomers.find(c => 
-      c.firstname === customer.firstname && 
-      c.lastname === customer.lastname && 
-      c.email === customer.email
-    );
-    
-    return matchingCustomer || null;
+    const body: unknown = await response.json();
+    return { body: getLinkHref(body, 'self') ? body : null, location };
   } catch {
-    return null;
+    return { body: null, location };
   }
 };
 
+const CREATE_HEADERS = {
+  'Content-Type': 'application/json',
+  Accept: 'application/hal+json',
+};
+
 /**
- * Update an existing customer
+ * CONCURRENCY
  */
-export const updateCustomer = async (customer: Customer): Promise<boolean> => {
+
+/**
+ * A record as the server has it now, with its ETag (null when the server
+ * doesn't version the entity)
+ */
+interface Versioned<T> {
+  record: T;
+  etag: string | null;
+}
+
+const updateHeaders = (etag: string | null): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...(etag ? { 'If-Match': etag } : {}),
+});
+
+/**
+ * Write only if nobody changed the record since it was loaded for editing.
+ * The server's copy is compared with that snapshot first, then its ETag goes
+ * out as If-Match so a change landing in between is refused (412) as well.
+ */
+const writeIfUnchanged = async <T>(
+  url: string,
+  loadCurrent: () => Promise<Versioned<T>>,
+  isUnchanged: (current: T) => boolean,
+  write: (etag: string | null) => Promise<unknown>
+): Promise<void> => {
+  const current = await loadCurrent();
+  if (!isUnchanged(current.record)) {
+    throw new EditConflictError(current.record, url);
+  }
   try {
-    // Case 1: Customer has a self link
-    if (customer.links?.self?.href) {
-      const response = await fetch(customer.links.self.href, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(customer),
-      });
-      return response.ok;
-    }
-    
-    // Case 2: Try to find the customer
-    const customerId = getCustomerId(customer);
-    if (customerId) {
-      const response = await fetch(`${ENDPOINTS.customers}/${customerId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(customer),
-      });
-      return response.ok;
+    await write(current.etag);
+  } catch (error) {
+    if (error instanceof ConflictError && error.status === 412) {
+      throw new EditConflictError((await loadCurrent()).record, url);
     }
+    throw error;
+  }
+};
 
-    // Case 3: Find by matching data
-    const matchingCustomer = await findCustomerByData(customer);
-    if (matchingCustomer?.links?.self?.href) {
-      const response = await fetch(matchingCustomer.links.self.href, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(customer),
-      });
-      return response.ok;
-    }
+/**
+ * Get all customers
+ */
+export const getCustomers = async (options?: RequestOptions): Promise<Customer[]> => {
+  const url = ENDPOINTS.customers;
+  const response = await request(url, {}, options);
+  const data = await readValid<CustomerResponse>(response, customerResponseSchema, 'customerResponse', url);
+  return parseRecords(data._embedded?.customers || [], customerSchema, toCustomer, 'customer', url);
+};
 
-    // Last resort: Add as new customer
-    return addCustomer(customer);
-  } catch {
-    return false;
+/**
+ * Get one page of customers, sorted on the server
+ */
+export const getCustomersPage = async (
+  pageRequest: PageRequest,
+  options?: RequestOptions
+): Promise<Page<Customer>> => {
+  const url = `${ENDPOINTS.customers}?${toPageQuery(pageRequest)}`;
+  const response = await request(url, {}, options);
+  const data = await readValid<CustomerResponse>(response, customerResponseSchema, 'customerResponse', url);
+  const items = parseRecords(data._embedded?.customers || [], customerSchema, toCustomer, 'customer', url);
+  // Rejected records still count in the server's totals, so paging stays aligned
+  return { items, page: toPageMetadata(data.page, items.length) };
+};
+
+/**
+ * A single customer by its resource URL, with its ETag
+ */
+const getCurrentCustomer = async (url: string, options?: RequestOptions): Promise<Versioned<Customer>> => {
+  const response = await request(url, {}, options);
+  const data = await response.json();
+  const record = parseRecord(data, customerSchema, toCustomer, 'customer', url);
+  if (!record) {
+    throw new InvalidResponseError([{ path: '(root)', message: 'invalid customer' }], {
+      status: response.status,
+      url,
+      body: data,
+    });
   }
+  return { record, etag: response.headers.get('ETag') };
 };
 
 /**
- * Delete a customer
+ * Get a single customer by its resource URL (e.g. a training's customer link)
  */
-export const deleteCustomer = async (customer: Customer | string): Promise<boolean> => {
-  try {
-    // Case 1: Handle string input (URL or ID)
-    if (typeof customer === 'string') {
-      // If it's a full URL
-      if (customer.startsWith('http')) {
-        const response = await fetch(customer, { method: 'DELETE' });
-        return response.ok;
+export const getCustomer = async (url: string, options?: RequestOptions): Promise<Customer> =>
+  (await getCurrentCustomer(url, options)).record;
+
+/**
+ * Resolve many customer links at once. Each distinct URL is requested only
+ * once and at most `concurrency` requests run at the same time; links that
+ * fail to resolve map to null.
+ */
+export const getCustomersByUrls = async (
+  urls: string[],
+  concurrency = 6,
+  options?: RequestOptions
+): Promise<Map<string, Customer | null>> => {
+  const queue = [...new Set(urls)];
+  const results = new Map<string, Customer | null>();
+
+  const worker = async () => {
+    for (let url = queue.shift(); url !== undefined && !options?.signal?.aborted; url = queue.shift()) {
+      try {
+        results.set(url, await getCustomer(url, options));
+      } catch (error) {
+        if (error instanceof RequestCancelledError) {
+          return;
+        }
+        console.error(`Error resolving customer ${url}:`, error);
+        results.set(url, null);
       }
-      
-      // If it's just an ID
-      const response = await fetch(`${ENDPOINTS.customers}/${customer}`, { method: 'DELETE' });
-      return response.ok;
-    }
-    
-    // Case 2: Customer object with self link
-    if (customer.links?.self?.href) {
-      const response = await fetch(customer.links.self.href, { method: 'DELETE' });
-      return response.ok;
     }
+  };
 
-    // Case 3: Find customer by data
-    const matchingCustomer = await findCustomerByData(customer);
-    if (matchingCustomer?.links?.self?.href) {
-      const response = await fetch(matchingCustomer.links.self.href, { method: 'DELETE' });
-      return response.ok;
-    }
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+  return results;
+};
 
-    return false;
-  } catch {
-    return false;
+/**
+ * Fields sent when creating or updating a customer
+ */
+const toCustomerPayload = (customer: CustomerInput): CustomerInput => ({
+  firstname: customer.firstname,
+  lastname: customer.lastname,
+  streetaddress: customer.streetaddress,
+  postcode: customer.postcode,
+  city: customer.city,
+  email: customer.email,
+  phone: customer.phone,
+});
+
+/**
+ * Add a new customer
+ */
+export const addCustomer = async (customer: CustomerInput): Promise<Customer | null> => {
+  const response = await request(ENDPOINTS.customers, {
+    method: 'POST',
+    headers: CREATE_HEADERS,
+    body: JSON.stringify(toCustomerPayload(customer)),
+  });
+
+  const { body, location } = await readCreated(response);
+  if (body) {
+    return parseRecord(body, customerSchema, toCustomer, 'customer', ENDPOINTS.customers);
   }
+  const ref = parseCustomerRef(location);
+  return ref
+    ? { ...customer, id: ref.id, links: { self: { href: ref.href }, customer: { href: ref.href }, trainings: { href: `${ref.href}/trainings` } } }
+    : null;
+};
+
+/**
+ * Update an existing customer. With `original` (the customer as it was when
+ * editing started) the update fails with EditConflictError instead of
+ * overwriting someone else's changes.
+ */
+export const updateCustomer = async (customer: Customer, original?: Customer): Promise<void> => {
+  const url = getCustomerHref(customer);
+  const write = (etag: string | null) => request(url, {
+    method: 'PUT',
+    headers: updateHeaders(etag),
+    body: JSON.stringify(toCustomerPayload(customer)),
+  });
+
+  if (!original) {
+    await write(null);
+    return;
+  }
+  await writeIfUnchanged(
+    url,
+    () => getCurrentCustomer(url),
+    current => changedFields(CUSTOMER_FIELDS, toCustomerInput(original), toCustomerInput(current)).length === 0,
+    write
+  );
+};
+
+/**
+ * Delete a customer
+ */
+export const deleteCustomer = async (customer: Customer): Promise<void> => {
+  await request(getCustomerHref(customer), { method: 'DELETE' });
 };
 
 /**
@@ -237,132 +468,140 @@ export const deleteCustomer = async (customer: Customer | string): Promise<boole
 /**
  * Get all trainings with customer data
  */
-export const getTrainings = async (): Promise<Training[]> => {
-  try {
-    const response = await fetch(ENDPOINTS.getTrainings);
-    
-    if (!response.ok) {
-      throw new ApiError('Failed to fetch trainings', response.status);
-    }
-    
-    return await response.json();
-  } catch {
-    return [];
-  }
+export const getTrainings = async (options?: RequestOptions): Promise<Training[]> => {
+  const url = ENDPOINTS.getTrainings;
+  const response = await request(url, {}, options);
+  const data = await readValid<unknown[]>(response, trainingListSchema, 'trainingResponse', url);
+  return parseRecords(data, trainingSchema, toTraining, 'training', url);
+};
+
+/**
+ * Get one page of trainings, sorted on the server.
+ * Customers come as links only; the data store resolves them in batch.
+ */
+export const getTrainingsPage = async (
+  pageRequest: PageRequest,
+  options?: RequestOptions
+): Promise<Page<Training>> => {
+  const url = `${ENDPOINTS.trainings}?${toPageQuery(pageRequest)}`;
+  const response = await request(url, {}, options);
+  const data = await readValid<TrainingResponse>(response, trainingResponseSchema, 'trainingResponse', url);
+  const items = parseRecords(data._embedded?.trainings || [], trainingSchema, toTraining, 'training', url);
+  return { items, page: toPageMetadata(data.page, items.length) };
+};
+
+/**
+ * Every training of a customer, read through the customer's trainings relation
+ */
+export const getCustomerTrainings = async (customer: Customer, options?: RequestOptions): Promise<Training[]> => {
+  const url = customer.links?.trainings?.href || `${getCustomerHref(customer)}/trainings`;
+  const response = await request(url, {}, options);
+  const data = await readValid<TrainingResponse>(response, trainingResponseSchema, 'trainingResponse', url);
+  // The relation only lists trainings, so attach the customer they belong to
+  return parseRecords(data._embedded?.trainings || [], trainingSchema, toTraining, 'training', url)
+    .map(training => ({ ...training, customer }));
 };
 
+/**
+ * Build the payload sent when creating or updating a training
+ */
+const toTrainingPayload = (training: TrainingInput) => ({
+  date: training.date,
+  duration: training.duration,
+  activity: training.activity,
+  customer: getCustomerUrl(training.customerId)
+});
+
 /**
  * Add a new training
  */
-export const addTraining = async (
-  training: Omit<Training, 'links' | 'customer'> & { customer: string }
-): Promise<boolean> => {
-  try {
-    // Ensure customer field is a full URL
-    let customerUrl = training.customer;
-    
-    // If it's just an ID, construct the full URL
-    if (!customerUrl.startsWith('http')) {
-      customerUrl = `${ENDPOINTS.customers}/${training.customer}`;
-    }
-    
-    const trainingPayload = {
-      date: training.date,
-      duration: training.duration,
-      activity: training.activity,
-      customer: customerUrl
-    };
-    
-    const response = await fetch(ENDPOINTS.trainings, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(trainingPayload),
+export const addTraining = async (training: TrainingInput): Promise<Training | null> => {
+  const response = await request(ENDPOINTS.trainings, {
+    method: 'POST',
+    headers: CREATE_HEADERS,
+    body: JSON.stringify(toTrainingPayload(training)),
+  });
+
+  const { body, location } = await readCreated(response);
+  if (body) {
+    return parseRecord(body, trainingSchema, toTraining, 'training', ENDPOINTS.trainings);
+  }
+  const ref = parseTrainingRef(location);
+  return ref
+    ? toTraining({ ...training, _links: { self: { href: ref.href }, training: { href: ref.href } } })
+    : null;
+};
+
+/**
+ * The server's copy of a training, with its customer looked up through the
+ * customer link (HAL trainings don't embed it)
+ */
+const getCurrentTraining = async (url: string): Promise<Versioned<Training>> => {
+  const response = await request(url);
+  const data = await response.json();
+  const record = parseRecord(data, trainingSchema, toTraining, 'training', url);
+  if (!record) {
+    throw new InvalidResponseError([{ path: '(root)', message: 'invalid training' }], {
+      status: response.status,
+      url,
+      body: data,
     });
+  }
 
-    return response.ok;
-  } catch {
-    return false;
+  const customerHref = getLinkHref(data, 'customer');
+  let customer = record.customer;
+  if (!customer && customerHref) {
+    try {
+      customer = await getCustomer(customerHref);
+    } catch (error) {
+      // A training without a customer answers 404 on its customer link
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
   }
+  return { record: { ...record, customer }, etag: response.headers.get('ETag') };
 };
 
 /**
- * Update an existing training
+ * Update an existing training. With `original` (the training as it was when
+ * editing started) the update fails with EditConflictError instead of
+ * overwriting someone else's changes.
  */
 export const updateTraining = async (
-  trainingId: string, 
-  training: Omit<Training, 'links' | 'customer'> & { customer: string }
-): Promise<boolean> => {
-  try {
-    // Ensure customer field is a full URL
-    let customerUrl = training.customer;
-    
-    // If it's just an ID, construct the full URL
-    if (!customerUrl.startsWith('http')) {
-      customerUrl = `${ENDPOINTS.customers}/${training.customer}`;
-    }
-    
-    const trainingPayload = {
-      date: training.date,
-      duration: training.duration,
-      activity: training.activity,
-      customer: customerUrl
-    };
-    
-    const updateUrl = `${ENDPOINTS.trainings}/${trainingId}`;
-    
-    const response = await fetch(updateUrl, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(trainingPayload),
-    });
+  trainingId: number,
+  training: TrainingInput,
+  original?: Training
+): Promise<void> => {
+  const url = getTrainingUrl(trainingId);
+  const write = (etag: string | null) => request(url, {
+    method: 'PUT',
+    headers: updateHeaders(etag),
+    body: JSON.stringify(toTrainingPayload(training)),
+  });
 
-    return response.ok;
-  } catch {
-    return false;
+  if (!original) {
+    await write(null);
+    return;
   }
+  await writeIfUnchanged(
+    url,
+    () => getCurrentTraining(url),
+    current => changedFields(TRAINING_FIELDS, toTrainingInput(original), toTrainingInput(current)).length === 0,
+    write
+  );
 };
 
 /**
  * Delete a training
  */
-export const deleteTraining = async (training: Training | string): Promise<boolean> => {
-  try {
-    let deleteUrl: string;
-    
-    // Case 1: String input (URL or ID)
-    if (typeof training === 'string') {
-      deleteUrl = training.startsWith('http') 
-        ? training 
-        : `${ENDPOINTS.trainings}/${training}`;
-    } 
-    // Case 2: Training object with self link
-    else if (training.links?.self?.href) {
-      deleteUrl = training.links.self.href;
-    }
-    // Case 3: Training object with ID
-    else if (training.id) {
-      deleteUrl = `${ENDPOINTS.trainings}/${training.id}`;
-    }
-    // Case 4: Cannot determine URL
-    else {
-      return false;
-    }
-    
-    const response = await fetch(deleteUrl, { method: 'DELETE' });
-    return response.ok;
-  } catch {
-    return false;
-  }
+export const deleteTraining = async (training: Training): Promise<void> => {
+  await request(getTrainingHref(training), { method: 'DELETE' });
 };
 
 /**
  * Reset the database
  */
-export const resetDatabase = async (): Promise<boolean> => {
-  try {
-    const response = await fetch(ENDPOINTS.reset, { method: 'POST' });
-    return response.ok;
-  } catch {
-    return false;
-  }
-}; 
\ No newline at end of file
+export const resetDatabase = async (): Promise<void> => {
+  await request(ENDPOINTS.reset, { method: 'POST' });
+};
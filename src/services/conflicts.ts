@@ -0,0 +1,80 @@
+import { Customer, CustomerInput, Training, TrainingInput } from '../types';
+
+/**
+ * Three versions of a record involved in an edit conflict: what the editor
+ * started from, what they saved, and what the server has now
+ */
+export interface EditConflict<T> {
+  base: T;
+  mine: T;
+  theirs: T;
+}
+
+export interface FieldSpec<T> {
+  name: keyof T & string;
+  label: string;
+  // Equality for values that can be written more than one way, like dates
+  same?: (a: T[keyof T], b: T[keyof T]) => boolean;
+}
+
+const sameInstant = (a: unknown, b: unknown): boolean =>
+  new Date(String(a)).getTime() === new Date(String(b)).getTime();
+
+export const CUSTOMER_FIELDS: FieldSpec<CustomerInput>[] = [
+  { name: 'firstname', label: 'First Name' },
+  { name: 'lastname', label: 'Last Name' },
+  { name: 'streetaddress', label: 'Street Address' },
+  { name: 'postcode', label: 'Postcode' },
+  { name: 'city', label: 'City' },
+  { name: 'email', label: 'Email' },
+  { name: 'phone', label: 'Phone' },
+];
+
+export const TRAINING_FIELDS: FieldSpec<TrainingInput>[] = [
+  { name: 'date', label: 'Date and Time', same: sameInstant },
+  { name: 'duration', label: 'Duration (minutes)' },
+  { name: 'activity', label: 'Activity' },
+  { name: 'customerId', label: 'Customer' },
+];
+
+export const isSameValue = <T>(field: FieldSpec<T>, a: T, b: T): boolean =>
+  field.same ? field.same(a[field.name], b[field.name]) : a[field.name] === b[field.name];
+
+/**
+ * Fields whose values differ between two versions
+ */
+export const changedFields = <T>(fields: FieldSpec<T>[], a: T, b: T): FieldSpec<T>[] =>
+  fields.filter(field => !isSameValue(field, a, b));
+
+/**
+ * Three-way merge: a field changed on only one side takes that side's value.
+ * Fields both sides changed differently keep the editor's value; the merge
+ * dialog points those out.
+ */
+export const mergeChanges = <T>(fields: FieldSpec<T>[], { base, mine, theirs }: EditConflict<T>): T =>
+  fields.reduce((merged, field) => {
+    const mineChanged = !isSameValue(field, base, mine);
+    const theirsChanged = !isSameValue(field, base, theirs);
+    return theirsChanged && !mineChanged ? { ...merged, [field.name]: theirs[field.name] } : merged;
+  }, { ...mine });
+
+/**
+ * Editable values of a record, as compared when checking for conflicts
+ */
+export const toCustomerInput = (customer: Customer): CustomerInput => ({
+  firstname: customer.firstname,
+  lastname: customer.lastname,
+  streetaddress: customer.streetaddress,
+  postcode: customer.postcode,
+  city: customer.city,
+  email: customer.email,
+  phone: customer.phone,
+});
+
+// A training whose customer isn't known gets customerId NaN, which never matches
+export const toTrainingInput = (training: Training): TrainingInput => ({
+  date: training.date,
+  duration: training.duration,
+  activity: training.activity,
+  customerId: training.customer?.id ?? NaN,
+});
@@ -0,0 +1,88 @@
+import { Customer, CustomerInput } from '../types';
+import { CUSTOMER_FIELDS } from './conflicts';
+import { ColumnMapping, ParsedCsv, guessColumnMapping, readMappedRow } from '../utils/csv';
+import { CustomerErrors, validateCustomer } from '../utils/customerValidation';
+
+export type CustomerField = keyof CustomerInput;
+
+export type CustomerMapping = ColumnMapping<CustomerField>;
+
+export interface ImportRow {
+  // Line in the file, so users can find the row: for CSV counting the
+  // header as line 1, for vCards the card's BEGIN line
+  line: number;
+  input: CustomerInput;
+  errors: CustomerErrors;
+  // Existing customers with the same email or name
+  matches: Customer[];
+  // Earlier line in the same file describing the same person
+  duplicateOfLine: number | null;
+}
+
+export const IMPORT_FIELDS = CUSTOMER_FIELDS;
+
+// Header spellings recognised per field, after normalizing. Includes the
+// labels our own export writes and the common Finnish ones.
+const HEADER_ALIASES: Record<CustomerField, string[]> = {
+  firstname: ['firstname', 'first', 'givenname', 'forename', 'etunimi'],
+  lastname: ['lastname', 'last', 'surname', 'familyname', 'sukunimi'],
+  streetaddress: ['streetaddress', 'street', 'address', 'katuosoite', 'osoite'],
+  postcode: ['postcode', 'postalcode', 'zip', 'zipcode', 'postinumero'],
+  city: ['city', 'town', 'kaupunki', 'postitoimipaikka'],
+  email: ['email', 'emailaddress', 'mail', 'sähköposti'],
+  phone: ['phone', 'phonenumber', 'mobile', 'telephone', 'tel', 'puhelin', 'puhelinnumero'],
+};
+
+export const guessCustomerMapping = (headers: string[]): CustomerMapping =>
+  guessColumnMapping(headers, HEADER_ALIASES);
+
+const personKeys = (input: CustomerInput): string[] => {
+  const email = input.email.trim().toLowerCase();
+  const name = `${input.firstname} ${input.lastname}`.trim().toLowerCase().replace(/\s+/g, ' ');
+  return [email && `email:${email}`, name && `name:${name}`].filter(Boolean);
+};
+
+/**
+ * Validate customers read from a file with the form's rules, flagging
+ * people who already exist, either in the app or further up the file
+ */
+export const checkImportRows = (
+  entries: { line: number; input: CustomerInput }[],
+  findMatches: (input: CustomerInput) => Customer[]
+): ImportRow[] => {
+  const seen = new Map<string, number>();
+  return entries.map(({ line, input }) => {
+    const keys = personKeys(input);
+    const earlier = keys.map(key => seen.get(key)).find(seenLine => seenLine !== undefined);
+    keys.forEach(key => {
+      if (!seen.has(key)) {
+        seen.set(key, line);
+      }
+    });
+
+    return {
+      line,
+      input,
+      errors: validateCustomer(input),
+      matches: findMatches(input),
+      duplicateOfLine: earlier ?? null,
+    };
+  });
+};
+
+/**
+ * Turn the file's rows into customers using the mapping, then check them
+ */
+export const buildImportRows = (
+  csv: ParsedCsv,
+  mapping: CustomerMapping,
+  findMatches: (input: CustomerInput) => Customer[]
+): ImportRow[] =>
+  checkImportRows(
+    csv.rows.map((values, index) => ({ line: index + 2, input: readMappedRow(values, mapping) })),
+    findMatches
+  );
+
+export const isDuplicate = (row: ImportRow): boolean => row.matches.length > 0 || row.duplicateOfLine !== null;
+
+export const isValidRow = (row: ImportRow): boolean => Object.keys(row.errors).length === 0;
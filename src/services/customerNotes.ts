@@ -0,0 +1,172 @@
+import { CustomerNote, TrainingGoal } from '../types';
+
+/**
+ * Where notes and goals are kept. The backend has no place for them yet,
+ * so the app uses the localStorage implementation below; a server backed
+ * one only needs to implement this interface and be passed to
+ * setNotesStorage.
+ */
+export interface NotesStorage {
+  getNotes: (customerId: number) => Promise<CustomerNote[]>;
+  saveNote: (note: CustomerNote) => Promise<void>;
+  deleteNote: (note: CustomerNote) => Promise<void>;
+  getGoals: (customerId: number) => Promise<TrainingGoal[]>;
+  saveGoal: (goal: TrainingGoal) => Promise<void>;
+  deleteGoal: (goal: TrainingGoal) => Promise<void>;
+}
+
+const STORAGE_KEY = 'personal-trainer:notes';
+
+interface StoredNotes {
+  notes: CustomerNote[];
+  goals: TrainingGoal[];
+}
+
+const isNote = (value: unknown): value is CustomerNote => {
+  const note = value as CustomerNote;
+  return typeof note?.id === 'string' &&
+    typeof note.customerId === 'number' &&
+    typeof note.text === 'string' &&
+    typeof note.pinned === 'boolean' &&
+    typeof note.createdAt === 'string';
+};
+
+const isGoal = (value: unknown): value is TrainingGoal => {
+  const goal = value as TrainingGoal;
+  return typeof goal?.id === 'string' &&
+    typeof goal.customerId === 'number' &&
+    (goal.metric === 'minutes' || goal.metric === 'sessions') &&
+    (goal.period === 'week' || goal.period === 'month') &&
+    typeof goal.target === 'number' &&
+    typeof goal.createdAt === 'string';
+};
+
+/**
+ * Notes and goals of every customer in one localStorage entry
+ */
+export const createLocalNotesStorage = (storage: Storage = localStorage): NotesStorage => {
+  // Anything malformed is dropped rather than breaking the whole panel
+  const read = (): StoredNotes => {
+    try {
+      const stored = JSON.parse(storage.getItem(STORAGE_KEY) || '{}');
+      return {
+        notes: Array.isArray(stored.notes) ? stored.notes.filter(isNote) : [],
+        goals: Array.isArray(stored.goals) ? stored.goals.filter(isGoal) : [],
+      };
+    } catch {
+      return { notes: [], goals: [] };
+    }
+  };
+
+  const write = (update: (stored: StoredNotes) => StoredNotes) => {
+    storage.setItem(STORAGE_KEY, JSON.stringify(update(read())));
+  };
+
+  return {
+    getNotes: async customerId => read().notes.filter(note => note.customerId === customerId),
+    saveNote: async note => write(stored => ({
+      ...stored,
+      notes: [...stored.notes.filter(other => other.id !== note.id), note],
+    })),
+    deleteNote: async note => write(stored => ({
+      ...stored,
+      notes: stored.notes.filter(other => other.id !== note.id),
+    })),
+    getGoals: async customerId => read().goals.filter(goal => goal.customerId === customerId),
+    saveGoal: async goal => write(stored => ({
+      ...stored,
+      goals: [...stored.goals.filter(other => other.id !== goal.id), goal],
+    })),
+    deleteGoal: async goal => write(stored => ({
+      ...stored,
+      goals: stored.goals.filter(other => other.id !== goal.id),
+    })),
+  };
+};
+
+let storage: NotesStorage = createLocalNotesStorage();
+// Listeners get the customer whose notes changed, or nothing when it isn't known
+type NotesListener = (customerId?: number) => void;
+const listeners = new Set<NotesListener>();
+
+const notify = (customerId?: number) => listeners.forEach(listener => listener(customerId));
+
+export const setNotesStorage = (next: NotesStorage): void => {
+  storage = next;
+};
+
+/**
+ * Listen for changes to any customer's notes or goals, including ones made in other tabs
+ */
+export const subscribeToNotes = (listener: NotesListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Another tab changed the local copy; every open panel reloads its customer
+window.addEventListener('storage', event => {
+  if (event.key === STORAGE_KEY) {
+    notify();
+  }
+});
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * A customer's notes, pinned first, then newest first
+ */
+export const loadNotes = async (customerId: number): Promise<CustomerNote[]> =>
+  (await storage.getNotes(customerId)).sort((a, b) =>
+    Number(b.pinned) - Number(a.pinned) || b.createdAt.localeCompare(a.createdAt)
+  );
+
+export const loadGoals = async (customerId: number): Promise<TrainingGoal[]> =>
+  (await storage.getGoals(customerId)).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export const addNote = async (customerId: number, text: string): Promise<void> => {
+  await storage.saveNote({ id: newId(), customerId, text: text.trim(), pinned: false, createdAt: new Date().toISOString() });
+  notify(customerId);
+};
+
+export const updateNote = async (note: CustomerNote, changes: Partial<Pick<CustomerNote, 'text' | 'pinned'>>): Promise<void> => {
+  // Pinning isn't an edit, so only text changes move the edited time
+  const edited = changes.text !== undefined && changes.text !== note.text;
+  await storage.saveNote({ ...note, ...changes, ...(edited ? { updatedAt: new Date().toISOString() } : {}) });
+  notify(note.customerId);
+};
+
+export const deleteNote = async (note: CustomerNote): Promise<void> => {
+  await storage.deleteNote(note);
+  notify(note.customerId);
+};
+
+export const addGoal = async (goal: Omit<TrainingGoal, 'id' | 'createdAt'>): Promise<void> => {
+  await storage.saveGoal({ ...goal, id: newId(), createdAt: new Date().toISOString() });
+  notify(goal.customerId);
+};
+
+export const deleteGoal = async (goal: TrainingGoal): Promise<void> => {
+  await storage.deleteGoal(goal);
+  notify(goal.customerId);
+};
+
+/**
+ * Hand notes and goals to another customer id: a customer created offline
+ * getting its real id, or a merged duplicate's going to the customer kept
+ */
+export const moveCustomerNotes = async (fromId: number, toId: number): Promise<void> => {
+  const [notes, goals] = await Promise.all([storage.getNotes(fromId), storage.getGoals(fromId)]);
+  if (notes.length === 0 && goals.length === 0) {
+    return;
+  }
+  for (const note of notes) {
+    await storage.saveNote({ ...note, customerId: toId });
+  }
+  for (const goal of goals) {
+    await storage.saveGoal({ ...goal, customerId: toId });
+  }
+  notify(fromId);
+  notify(toId);
+};
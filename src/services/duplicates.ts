@@ -0,0 +1,105 @@
+import { Customer } from '../types';
+import { normalizeEmail, toE164 } from '../utils/customerValidation';
+
+export type DuplicateReason = 'email' | 'phone' | 'name';
+
+/**
+ * Two customers that are probably the same person, and why
+ */
+export interface DuplicatePair {
+  first: Customer;
+  second: Customer;
+  reasons: DuplicateReason[];
+}
+
+export const REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  name: 'Similar name',
+};
+
+// Numbers that can't be normalized are compared by their digits
+const normalizePhone = (phone: string): string => toE164(phone) ?? phone.replace(/\D/g, '');
+
+// Lowercase without accents or punctuation, so "Müller-Lüdenscheidt" ~ "muller ludenscheidt"
+export const normalizeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Typos allowed per name: one for short names, two from ten letters up
+const allowedTypos = (name: string) => (name.length >= 10 ? 2 : 1);
+
+/**
+ * Full names that differ by a typo or two, or are written last name first
+ */
+export const isSimilarName = (a: Customer, b: Customer): boolean => {
+  const nameA = normalizeName(`${a.firstname} ${a.lastname}`);
+  const nameB = normalizeName(`${b.firstname} ${b.lastname}`);
+  if (!nameA || !nameB) {
+    return false;
+  }
+  const swappedB = normalizeName(`${b.lastname} ${b.firstname}`);
+  if (nameA === nameB || nameA === swappedB) {
+    return true;
+  }
+  const limit = allowedTypos(nameA);
+  // Lengths further apart than the limit can't be within it; skip the work
+  return [nameB, swappedB].some(
+    other => Math.abs(nameA.length - other.length) <= limit && editDistance(nameA, other) <= limit
+  );
+};
+
+// Phone numbers shorter than this are too likely to be placeholders
+const MIN_PHONE_DIGITS = 6;
+
+/**
+ * Every pair of customers sharing a normalized email or phone, or with
+ * similar names. Pairs matching on more signals come first.
+ */
+export const findDuplicates = (customers: Customer[]): DuplicatePair[] => {
+  const keyed = customers.map(customer => ({
+    customer,
+    email: normalizeEmail(customer.email),
+    phone: normalizePhone(customer.phone),
+  }));
+
+  const pairs: DuplicatePair[] = [];
+  keyed.forEach((a, i) => {
+    keyed.slice(i + 1).forEach(b => {
+      const reasons: DuplicateReason[] = [];
+      if (a.email && a.email === b.email) {
+        reasons.push('email');
+      }
+      if (a.phone.length >= MIN_PHONE_DIGITS && a.phone === b.phone) {
+        reasons.push('phone');
+      }
+      if (isSimilarName(a.customer, b.customer)) {
+        reasons.push('name');
+      }
+      if (reasons.length > 0) {
+        pairs.push({ first: a.customer, second: b.customer, reasons });
+      }
+    });
+  });
+  return pairs.sort((a, b) => b.reasons.length - a.reasons.length);
+};
@@ -0,0 +1,140 @@
+import dayjs from 'dayjs';
+import { countBy, groupBy, maxBy, orderBy } from 'lodash';
+import { Customer, Training, TrainingInput } from '../types';
+import { EngagementThresholds } from '../config/engagement';
+
+export type EngagementStatus = 'active' | 'at-risk' | 'lapsed' | 'new';
+
+export const STATUS_LABELS: Record<EngagementStatus, string> = {
+  active: 'Active',
+  'at-risk': 'At risk',
+  lapsed: 'Lapsed',
+  new: 'No sessions yet',
+};
+
+/**
+ * How a client has been training, and whether they seem to be drifting away
+ */
+export interface ClientEngagement {
+  customer: Customer;
+  status: EngagementStatus;
+  // Why the client is at risk or lapsed, e.g. "32 days since last session"
+  reasons: string[];
+  lastSession: Training | null;
+  daysSinceLast: number | null;
+  sessions: number;
+  // Sessions per week in the recent window and in the weeks before it
+  recentPerWeek: number;
+  usualPerWeek: number | null;
+  usualActivity: string | null;
+  // dayjs day numbering, 0 is Sunday
+  typicalWeekday: number | null;
+  // What a next session would most likely look like, to schedule one
+  suggestion: Omit<TrainingInput, 'customerId'> | null;
+}
+
+// The usual rate is taken from up to this many weeks before the recent window
+const BASELINE_WEEKS = 12;
+// Fewer earlier sessions than this say too little about a usual rate
+const MIN_BASELINE_SESSIONS = 3;
+
+const mostCommon = <T,>(values: T[]): T | null => {
+  const counts = countBy(values, String);
+  const top = maxBy(Object.keys(counts), key => counts[key]);
+  return top === undefined ? null : values.find(value => String(value) === top) ?? null;
+};
+
+/**
+ * The next date on the client's usual weekday, at the time they usually start
+ */
+const suggestSession = (trainings: Training[], weekday: number, now: dayjs.Dayjs): Omit<TrainingInput, 'customerId'> => {
+  const onWeekday = trainings.filter(training => dayjs(training.date).day() === weekday);
+  const time = mostCommon(onWeekday.map(training => dayjs(training.date).format('HH:mm'))) ?? '10:00';
+  const [hour, minute] = time.split(':').map(Number);
+  let date = now.startOf('day').add((weekday - now.day() + 7) % 7, 'day').hour(hour).minute(minute);
+  if (!date.isAfter(now)) {
+    date = date.add(1, 'week');
+  }
+  return {
+    date: date.toISOString(),
+    duration: mostCommon(onWeekday.map(training => training.duration)) ?? 60,
+    activity: mostCommon(onWeekday.map(training => training.activity)) ?? 'Gym training',
+  };
+};
+
+const describeClient = (
+  customer: Customer,
+  trainings: Training[],
+  thresholds: EngagementThresholds,
+  now: dayjs.Dayjs
+): ClientEngagement => {
+  const past = orderBy(
+    trainings.filter(training => !dayjs(training.date).isAfter(now)),
+    training => dayjs(training.date).valueOf(),
+    'desc'
+  );
+  const lastSession = past[0] ?? null;
+  const usualActivity = mostCommon(trainings.map(training => training.activity));
+  const typicalWeekday = mostCommon(trainings.map(training => dayjs(training.date).day()));
+  const base = {
+    customer,
+    lastSession,
+    sessions: trainings.length,
+    usualActivity,
+    typicalWeekday,
+    suggestion: typicalWeekday === null ? null : suggestSession(trainings, typicalWeekday, now),
+  };
+
+  if (!lastSession) {
+    return { ...base, status: 'new', reasons: [], daysSinceLast: null, recentPerWeek: 0, usualPerWeek: null };
+  }
+
+  const daysSinceLast = now.startOf('day').diff(dayjs(lastSession.date).startOf('day'), 'day');
+  const recentStart = now.subtract(thresholds.recentWeeks, 'week');
+  const baselineStart = recentStart.subtract(BASELINE_WEEKS, 'week');
+  const recent = past.filter(training => dayjs(training.date).isAfter(recentStart)).length;
+  const earlier = past.filter(training => {
+    const date = dayjs(training.date);
+    return date.isAfter(baselineStart) && !date.isAfter(recentStart);
+  });
+  // A newer client's usual rate is counted over the weeks they've been training
+  const firstEarlier = earlier[earlier.length - 1];
+  const baselineWeeks = firstEarlier
+    ? Math.max(1, Math.min(BASELINE_WEEKS, recentStart.diff(dayjs(firstEarlier.date), 'week', true)))
+    : BASELINE_WEEKS;
+  const recentPerWeek = recent / thresholds.recentWeeks;
+  const usualPerWeek = earlier.length >= MIN_BASELINE_SESSIONS ? earlier.length / baselineWeeks : null;
+
+  const reasons: string[] = [];
+  let status: EngagementStatus = 'active';
+  if (daysSinceLast >= thresholds.lapsedDays) {
+    status = 'lapsed';
+    reasons.push(`${daysSinceLast} days since last session`);
+  } else {
+    if (daysSinceLast >= thresholds.atRiskDays) {
+      status = 'at-risk';
+      reasons.push(`${daysSinceLast} days since last session`);
+    }
+    if (usualPerWeek !== null && recentPerWeek < usualPerWeek * thresholds.declineRatio) {
+      status = 'at-risk';
+      reasons.push(`Training ${Math.round((1 - recentPerWeek / usualPerWeek) * 100)}% less often than usual`);
+    }
+  }
+
+  return { ...base, status, reasons, daysSinceLast, recentPerWeek, usualPerWeek };
+};
+
+/**
+ * Classify every customer by their trainings: lapsed when they haven't
+ * trained in a long while, at risk when it's been a while or they train
+ * much less often than they used to, otherwise active
+ */
+export const classifyClients = (
+  customers: Customer[],
+  trainings: Training[],
+  thresholds: EngagementThresholds,
+  now = dayjs()
+): ClientEngagement[] => {
+  const byCustomer = groupBy(trainings.filter(training => training.customer), training => training.customer?.id);
+  return customers.map(customer => describeClient(customer, byCustomer[customer.id] ?? [], thresholds, now));
+};
@@ -0,0 +1,199 @@
+import { ValidationIssue } from './schema';
+
+/**
+ * Error types raised by the API layer
+ */
+interface ApiErrorDetails {
+  status: number;
+  url: string;
+  body?: unknown;
+}
+
+/**
+ * Base class for every error that escapes services/api.ts
+ */
+export class ApiError extends Error {
+  status: number;
+  url: string;
+  body: unknown;
+
+  constructor(message: string, { status, url, body }: ApiErrorDetails) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.url = url;
+    this.body = body;
+  }
+}
+
+/**
+ * The request never reached the server (offline, DNS, CORS...)
+ */
+export class NetworkError extends ApiError {
+  constructor(url: string, cause?: unknown) {
+    super('Could not reach the server', { status: 0, url, body: cause });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The server did not answer within the request's time limit
+ */
+export class TimeoutError extends ApiError {
+  timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs} ms`, { status: 0, url });
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The caller cancelled the request, e.g. because its component unmounted.
+ * Not a failure; callers should drop the result silently.
+ */
+export class RequestCancelledError extends ApiError {
+  constructor(url: string) {
+    super('Request was cancelled', { status: 0, url });
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * The server rejected the request (4xx other than 404)
+ */
+export class ValidationError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * The requested resource does not exist (404)
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string, details: Omit<ApiErrorDetails, 'status'>) {
+    super(message, { ...details, status: 404 });
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The request clashes with the current state of the resource (409), or its
+ * If-Match version is out of date (412): someone else changed it in the meantime
+ */
+export class ConflictError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * A record was changed on the server after it was loaded for editing.
+ * `current` is the server's copy, so the two versions can be merged.
+ */
+export class EditConflictError<T = unknown> extends ConflictError {
+  current: T;
+
+  constructor(current: T, url: string) {
+    super(`${url} was changed by someone else`, { status: 409, url });
+    this.name = 'EditConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * The server failed to handle a valid request (5xx)
+ */
+export class ServerError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The server answered, but not in a shape the app can read. The response is
+ * quarantined (see quarantine.ts) with the issues listed here.
+ */
+export class InvalidResponseError extends ApiError {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], details: ApiErrorDetails) {
+    super(`Invalid response from ${details.url}`, details);
+    this.name = 'InvalidResponseError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Create the matching ApiError subclass for a failed HTTP response
+ */
+export const createHttpError = (status: number, url: string, body?: unknown): ApiError => {
+  if (status === 404) {
+    return new NotFoundError(`Resource not found: ${url}`, { url, body });
+  }
+  if (status === 409 || status === 412) {
+    return new ConflictError(`Conflicting change to ${url}`, { status, url, body });
+  }
+  if (status >= 500) {
+    return new ServerError(`Server error ${status}`, { status, url, body });
+  }
+  if (status >= 400) {
+    return new ValidationError(`Request rejected with status ${status}`, { status, url, body });
+  }
+  return new ApiError(`Unexpected response status ${status}`, { status, url, body });
+};
+
+/**
+ * Pull a human readable message out of a Spring error body, if there is one
+ */
+const getBodyMessage = (body: unknown): string | null => {
+  if (typeof body === 'string') {
+    return body.trim() || null;
+  }
+  if (body && typeof body === 'object' && 'message' in body) {
+    const { message } = body as { message?: unknown };
+    return typeof message === 'string' && message ? message : null;
+  }
+  return null;
+};
+
+/**
+ * Get a user facing message for any error thrown by the API layer
+ */
+export const getErrorMessage = (error: unknown, fallback = 'An unexpected error occurred'): string => {
+  if (error instanceof NetworkError) {
+    return 'Could not reach the server. Check your connection and try again.';
+  }
+  if (error instanceof TimeoutError) {
+    return 'The server took too long to respond. Please try again.';
+  }
+  if (error instanceof NotFoundError) {
+    return 'The requested record no longer exists.';
+  }
+  if (error instanceof EditConflictError) {
+    return 'Someone else changed this record while you were editing it.';
+  }
+  if (error instanceof ConflictError) {
+    const detail = getBodyMessage(error.body);
+    return detail ? `The change conflicts with the server's copy: ${detail}` : "The change conflicts with the server's copy.";
+  }
+  if (error instanceof ValidationError) {
+    const detail = getBodyMessage(error.body);
+    return detail ? `The server rejected the request: ${detail}` : 'The server rejected the request.';
+  }
+  if (error instanceof InvalidResponseError) {
+    return 'The server sent data the app could not read.';
+  }
+  if (error instanceof ServerError) {
+    return `The server encountered an error (${error.status}). Please try again later.`;
+  }
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return fallback;
+};
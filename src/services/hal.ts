@@ -0,0 +1,114 @@
+/**
+ * HAL helpers: read `_links` (relations, arrays and templated links) and turn
+ * resource URLs into typed references, so nothing else has to pick URLs apart
+ */
+export interface HalLink {
+  href: string;
+  templated?: boolean;
+  title?: string;
+  name?: string;
+}
+
+export type HalLinks = Record<string, HalLink | HalLink[]>;
+
+export type ResourceKind = 'customers' | 'trainings';
+
+/**
+ * Identity of a server resource: its collection, numeric id and canonical URL
+ */
+export interface ResourceRef<K extends ResourceKind = ResourceKind> {
+  kind: K;
+  id: number;
+  href: string;
+}
+
+export type CustomerRef = ResourceRef<'customers'>;
+export type TrainingRef = ResourceRef<'trainings'>;
+
+type TemplateParams = Record<string, string | number | undefined | null>;
+
+const isHalLink = (value: unknown): value is HalLink =>
+  typeof value === 'object' && value !== null && typeof (value as HalLink).href === 'string';
+
+/**
+ * All links of a resource by relation; single links become one-element arrays
+ */
+export const getLinks = (resource: unknown): Record<string, HalLink[]> => {
+  const links = (resource as { _links?: unknown } | null)?._links;
+  if (typeof links !== 'object' || links === null) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(links).map(([rel, value]) => [
+      rel,
+      (Array.isArray(value) ? value : [value]).filter(isHalLink),
+    ])
+  );
+};
+
+/**
+ * Expand a URI template of the forms HAL servers use: simple `{var}` and
+ * form-style query `{?var1,var2}` / `{&var}` expressions (RFC 6570 levels 1 and 3).
+ * Variables without a value are dropped.
+ */
+export const expandTemplate = (href: string, params: TemplateParams = {}): string =>
+  href.replace(/\{([?&]?)([^}]+)\}/g, (_match, operator: string, names: string) => {
+    const defined = names
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => params[name] !== undefined && params[name] !== null && params[name] !== '');
+
+    if (!operator) {
+      return defined.map(name => encodeURIComponent(String(params[name]))).join(',');
+    }
+    if (defined.length === 0) {
+      return '';
+    }
+    const query = defined
+      .map(name => `${encodeURIComponent(name)}=${encodeURIComponent(String(params[name]))}`)
+      .join('&');
+    return `${operator}${query}`;
+  });
+
+/**
+ * URL of a relation, with templates expanded; null when the resource doesn't have it
+ */
+export const getLinkHref = (resource: unknown, rel: string, params?: TemplateParams): string | null => {
+  const [link] = getLinks(resource)[rel] || [];
+  if (!link) {
+    return null;
+  }
+  return link.templated || link.href.includes('{') ? expandTemplate(link.href, params) : link.href;
+};
+
+// Matches .../customers/42 and local:customers/-7 (records created offline)
+const RESOURCE_PATTERN = /(?:^|[/:])(customers|trainings)\/(-?\d+)\/?$/;
+
+/**
+ * Typed reference for a resource URL. Relation URLs such as
+ * /trainings/3/customer don't identify their target and give null.
+ */
+export const parseResourceRef = (href?: string | null): ResourceRef | null => {
+  if (!href) {
+    return null;
+  }
+  const path = expandTemplate(href).split(/[?#]/)[0];
+  const match = path.match(RESOURCE_PATTERN);
+  return match ? { kind: match[1] as ResourceKind, id: Number(match[2]), href: path } : null;
+};
+
+export const parseCustomerRef = (href?: string | null): CustomerRef | null => {
+  const ref = parseResourceRef(href);
+  return ref?.kind === 'customers' ? (ref as CustomerRef) : null;
+};
+
+export const parseTrainingRef = (href?: string | null): TrainingRef | null => {
+  const ref = parseResourceRef(href);
+  return ref?.kind === 'trainings' ? (ref as TrainingRef) : null;
+};
+
+/**
+ * Reference of a HAL resource from its self link
+ */
+export const getSelfRef = (resource: unknown): ResourceRef | null =>
+  parseResourceRef(getLinkHref(resource, 'self'));
@@ -0,0 +1,119 @@
+import { BodyMeasurement, BodyMeasurementInput } from '../types';
+
+/**
+ * Where body measurements are kept. Like notes, they live in localStorage
+ * until the backend has a place for them; a server backed store only needs
+ * to implement this interface and be passed to setMeasurementStorage.
+ */
+export interface MeasurementStorage {
+  getMeasurements: (customerId: number) => Promise<BodyMeasurement[]>;
+  saveMeasurement: (measurement: BodyMeasurement) => Promise<void>;
+  deleteMeasurement: (measurement: BodyMeasurement) => Promise<void>;
+}
+
+const STORAGE_KEY = 'personal-trainer:measurements';
+
+const isMeasurement = (value: unknown): value is BodyMeasurement => {
+  const measurement = value as BodyMeasurement;
+  return typeof measurement?.id === 'string' &&
+    typeof measurement.customerId === 'number' &&
+    typeof measurement.date === 'string' &&
+    typeof measurement.createdAt === 'string' &&
+    typeof measurement.values === 'object' && measurement.values !== null &&
+    Object.values(measurement.values).every(Number.isFinite);
+};
+
+/**
+ * Measurements of every customer in one localStorage entry
+ */
+export const createLocalMeasurementStorage = (storage: Storage = localStorage): MeasurementStorage => {
+  const read = (): BodyMeasurement[] => {
+    try {
+      const stored = JSON.parse(storage.getItem(STORAGE_KEY) || '[]');
+      return Array.isArray(stored) ? stored.filter(isMeasurement) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (update: (stored: BodyMeasurement[]) => BodyMeasurement[]) => {
+    storage.setItem(STORAGE_KEY, JSON.stringify(update(read())));
+  };
+
+  return {
+    getMeasurements: async customerId => read().filter(measurement => measurement.customerId === customerId),
+    saveMeasurement: async measurement => write(stored => [
+      ...stored.filter(other => other.id !== measurement.id),
+      measurement,
+    ]),
+    deleteMeasurement: async measurement => write(stored => stored.filter(other => other.id !== measurement.id)),
+  };
+};
+
+let storage: MeasurementStorage = createLocalMeasurementStorage();
+// Listeners get the customer whose measurements changed, or nothing when it isn't known
+type MeasurementListener = (customerId?: number) => void;
+const listeners = new Set<MeasurementListener>();
+
+const notify = (customerId?: number) => listeners.forEach(listener => listener(customerId));
+
+export const setMeasurementStorage = (next: MeasurementStorage): void => {
+  storage = next;
+};
+
+export const subscribeToMeasurements = (listener: MeasurementListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+window.addEventListener('storage', event => {
+  if (event.key === STORAGE_KEY) {
+    notify();
+  }
+});
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * A customer's measurements, oldest first
+ */
+export const loadMeasurements = async (customerId: number): Promise<BodyMeasurement[]> =>
+  (await storage.getMeasurements(customerId)).sort((a, b) =>
+    a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)
+  );
+
+/**
+ * Record a new measurement, or replace the values of an existing one
+ */
+export const saveMeasurement = async (
+  customerId: number,
+  input: BodyMeasurementInput,
+  existing?: BodyMeasurement
+): Promise<void> => {
+  await storage.saveMeasurement(existing
+    ? { ...existing, ...input }
+    : { ...input, id: newId(), customerId, createdAt: new Date().toISOString() });
+  notify(customerId);
+};
+
+export const deleteMeasurement = async (measurement: BodyMeasurement): Promise<void> => {
+  await storage.deleteMeasurement(measurement);
+  notify(measurement.customerId);
+};
+
+/**
+ * Hand measurements to another customer id, the same way notes are moved
+ */
+export const moveCustomerMeasurements = async (fromId: number, toId: number): Promise<void> => {
+  const measurements = await storage.getMeasurements(fromId);
+  if (measurements.length === 0) {
+    return;
+  }
+  for (const measurement of measurements) {
+    await storage.saveMeasurement({ ...measurement, customerId: toId });
+  }
+  notify(fromId);
+  notify(toId);
+};
@@ -0,0 +1,55 @@
+import { ValidationIssue } from './schema';
+
+/**
+ * Records and responses that failed validation. They are kept out of the app
+ * and listed here, with what was wrong, so they can be inspected in the dev console.
+ */
+export type QuarantineKind = 'customer' | 'training' | 'customerResponse' | 'trainingResponse';
+
+export interface QuarantinedRecord {
+  id: number;
+  kind: QuarantineKind;
+  // URL of the response the record came from
+  source: string;
+  record: unknown;
+  issues: ValidationIssue[];
+  rejectedAt: number;
+}
+
+// Oldest entries are dropped past this, so a broken endpoint polled for hours can't grow it forever
+const MAX_ENTRIES = 200;
+
+let quarantined: QuarantinedRecord[] = [];
+const listeners = new Set<() => void>();
+let entryCounter = 0;
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Set a record aside and log why it was rejected
+ */
+export const quarantine = (entry: Omit<QuarantinedRecord, 'id' | 'rejectedAt'>): void => {
+  console.warn(
+    `Rejected ${entry.kind} from ${entry.source}:`,
+    entry.issues.map(({ path, message }) => `${path}: ${message}`).join('; '),
+    entry.record
+  );
+  quarantined = [...quarantined, { ...entry, id: ++entryCounter, rejectedAt: Date.now() }].slice(-MAX_ENTRIES);
+  notify();
+};
+
+export const getQuarantined = (): QuarantinedRecord[] => quarantined;
+
+export const clearQuarantine = (): void => {
+  if (quarantined.length > 0) {
+    quarantined = [];
+    notify();
+  }
+};
+
+export const subscribeToQuarantine = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,215 @@
+import {
+  ApiError,
+  NetworkError,
+  TimeoutError,
+  RequestCancelledError,
+  createHttpError,
+  getErrorMessage,
+} from './errors';
+import { getApiConfig } from '../config/apiConfig';
+
+/**
+ * Shared HTTP helper: per-attempt timeouts, cancellation through an AbortSignal,
+ * and exponential backoff retries for idempotent requests
+ */
+export interface RequestOptions {
+  // Cancels the request, e.g. when the component that needs it unmounts
+  signal?: AbortSignal;
+  // Time limit for a single attempt
+  timeoutMs?: number;
+  // Attempts after the first one; ignored for methods that aren't idempotent
+  retries?: number;
+}
+
+/**
+ * A request that failed and is waiting to be tried again
+ */
+export interface RetryState {
+  id: number;
+  method: string;
+  url: string;
+  // The attempt about to be made, counting the first one
+  attempt: number;
+  maxAttempts: number;
+  retryAt: number;
+  reason: string;
+}
+
+export const DEFAULT_TIMEOUT_MS = 15000;
+export const DEFAULT_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+
+// Repeating these can't apply a change twice, so they are safe to retry
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE']);
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+/**
+ * Send requests to the mock backend when the mock profile is active. It is
+ * loaded on first use, so builds that never select it don't download it.
+ */
+const transport: typeof fetch = async (input, init) => {
+  if (!getApiConfig().useMock) {
+    return fetch(input, init);
+  }
+  const { mockServer } = await import('../mock/mockServer');
+  return mockServer.fetch(input, init);
+};
+
+/**
+ * RETRY STATE
+ * Module level so any part of the UI can show what is being retried
+ */
+
+let retryStates: RetryState[] = [];
+const retryListeners = new Set<() => void>();
+let requestCounter = 0;
+
+const setRetryState = (id: number, state: RetryState | null) => {
+  const others = retryStates.filter(retry => retry.id !== id);
+  if (!state && others.length === retryStates.length) {
+    return;
+  }
+  retryStates = state ? [...others, state] : others;
+  retryListeners.forEach(listener => listener());
+};
+
+export const getRetryStates = (): RetryState[] => retryStates;
+
+export const subscribeToRetries = (listener: () => void): (() => void) => {
+  retryListeners.add(listener);
+  return () => {
+    retryListeners.delete(listener);
+  };
+};
+
+/**
+ * Read a response body for error reporting, preferring parsed JSON
+ */
+const readBody = async (response: Response): Promise<unknown> => {
+  try {
+    const text = await response.text();
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  } catch {
+    return null;
+  }
+};
+
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof NetworkError) {
+    // No point hammering the server while the browser knows it is offline
+    return navigator.onLine;
+  }
+  return error instanceof TimeoutError || (error instanceof ApiError && RETRYABLE_STATUSES.has(error.status));
+};
+
+/**
+ * Delay before the given retry: doubles each time, capped, with jitter so
+ * clients that failed together don't retry together
+ */
+const backoffDelay = (retry: number): number => {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (retry - 1));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
+
+/**
+ * Resolve after `ms`, or reject as soon as the signal aborts
+ */
+const wait = (ms: number, url: string, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError(url));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * One attempt, bounded by the timeout and the caller's signal
+ */
+const attempt = async (url: string, init: RequestInit, signal: AbortSignal | undefined, timeoutMs: number) => {
+  if (signal?.aborted) {
+    throw new RequestCancelledError(url);
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const cancel = () => controller.abort();
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  const abortError = () => (timedOut ? new TimeoutError(url, timeoutMs) : new RequestCancelledError(url));
+  // Transports that ignore the signal still stop being waited on once it fires
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(abortError()), { once: true });
+  });
+  aborted.catch(() => undefined);
+
+  try {
+    let response: Response;
+    try {
+      response = await Promise.race([transport(url, { ...init, signal: controller.signal }), aborted]);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw controller.signal.aborted ? abortError() : new NetworkError(url, error);
+    }
+
+    if (!response.ok) {
+      throw createHttpError(response.status, url, await readBody(response));
+    }
+    return response;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+};
+
+/**
+ * Perform a request and convert every failure into a typed ApiError.
+ * Idempotent requests that time out, can't connect or hit a temporary server
+ * error are retried with exponential backoff.
+ */
+export const request = async (url: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<Response> => {
+  const method = (init.method || 'GET').toUpperCase();
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  const retries = IDEMPOTENT_METHODS.has(method) ? options.retries ?? DEFAULT_RETRIES : 0;
+  const id = ++requestCounter;
+
+  try {
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      try {
+        return await attempt(url, init, signal, timeoutMs);
+      } catch (error) {
+        if (attemptNumber > retries || !isRetryable(error)) {
+          throw error;
+        }
+        const delay = backoffDelay(attemptNumber);
+        setRetryState(id, {
+          id,
+          method,
+          url,
+          attempt: attemptNumber + 1,
+          maxAttempts: retries + 1,
+          retryAt: Date.now() + delay,
+          reason: getErrorMessage(error),
+        });
+        await wait(delay, url, signal);
+      }
+    }
+  } finally {
+    setRetryState(id, null);
+  }
+};
@@ -0,0 +1,122 @@
+/**
+ * Runtime checks for API responses. The server is the only source of these
+ * shapes, so nothing guarantees they match the TypeScript types until checked here.
+ */
+export interface ValidationIssue {
+  // Where in the record the problem is, e.g. "customer.lastname"
+  path: string;
+  message: string;
+}
+
+/**
+ * A check returns every issue it finds; an empty list means the value is valid
+ */
+export type Schema = (value: unknown, path: string) => ValidationIssue[];
+
+const issue = (path: string, message: string): ValidationIssue[] => [{ path: path || '(root)', message }];
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const join = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+/**
+ * BUILDING BLOCKS
+ */
+
+export const string: Schema = (value, path) =>
+  typeof value === 'string' ? [] : issue(path, `expected a string, got ${describe(value)}`);
+
+// Spring leaves unset columns null; the mappers turn those into empty strings
+export const optionalString: Schema = (value, path) =>
+  value === null || value === undefined ? [] : string(value, path);
+
+export const dateString: Schema = (value, path) => {
+  if (typeof value !== 'string') {
+    return issue(path, `expected a date, got ${describe(value)}`);
+  }
+  return Number.isNaN(new Date(value).getTime()) ? issue(path, `"${value}" is not a valid date`) : [];
+};
+
+export const nonNegativeNumber: Schema = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return issue(path, `expected a number, got ${describe(value)}`);
+  }
+  return value < 0 ? issue(path, `expected zero or more, got ${value}`) : [];
+};
+
+export const optional = (schema: Schema): Schema => (value, path) =>
+  value === null || value === undefined ? [] : schema(value, path);
+
+export const object = (shape: Record<string, Schema>): Schema => (value, path) => {
+  if (!isObject(value)) {
+    return issue(path, `expected an object, got ${describe(value)}`);
+  }
+  return Object.entries(shape).flatMap(([key, schema]) => schema(value[key], join(path, key)));
+};
+
+export const array = (items: Schema): Schema => (value, path) => {
+  if (!Array.isArray(value)) {
+    return issue(path, `expected an array, got ${describe(value)}`);
+  }
+  return value.flatMap((item, index) => items(item, join(path, index)));
+};
+
+// Accepts anything; used where entries are checked one by one later
+const anyObject: Schema = (value, path) =>
+  isObject(value) ? [] : issue(path, `expected an object, got ${describe(value)}`);
+
+/**
+ * RECORD SCHEMAS
+ */
+
+export const customerSchema: Schema = object({
+  firstname: string,
+  lastname: string,
+  email: optionalString,
+  phone: optionalString,
+  streetaddress: optionalString,
+  postcode: optionalString,
+  city: optionalString,
+});
+
+export const trainingSchema: Schema = object({
+  date: dateString,
+  duration: nonNegativeNumber,
+  activity: string,
+  // Embedded by /gettrainings, absent from the HAL collection
+  customer: optional(customerSchema),
+});
+
+const pageSchema: Schema = object({
+  size: nonNegativeNumber,
+  totalElements: nonNegativeNumber,
+  totalPages: nonNegativeNumber,
+  number: nonNegativeNumber,
+});
+
+/**
+ * Collection envelopes. Entries are only checked for being objects here, so a
+ * single bad record can be set aside without rejecting the whole response.
+ */
+export const customerResponseSchema: Schema = object({
+  _embedded: optional(object({ customers: array(anyObject) })),
+  page: optional(pageSchema),
+});
+
+export const trainingResponseSchema: Schema = object({
+  _embedded: optional(object({ trainings: array(anyObject) })),
+  page: optional(pageSchema),
+});
+
+// The custom /gettrainings endpoint returns a plain array
+export const trainingListSchema: Schema = array(anyObject);
+
+/**
+ * Validate a value against a schema
+ */
+export const validate = (schema: Schema, value: unknown): ValidationIssue[] => schema(value, '');
@@ -0,0 +1,198 @@
+import { omit } from 'lodash';
+
+/**
+ * Customer tags ("morning group", "rehab") and saved segments built from
+ * them. The backend has no place for these, so they live in localStorage,
+ * keyed by customer id, and are shared by every open tab.
+ */
+export type TagMatch = 'any' | 'all';
+
+export interface TagFilter {
+  tags: string[];
+  // Whether a customer needs one of the tags or every one of them
+  match: TagMatch;
+}
+
+export interface Segment extends TagFilter {
+  id: string;
+  name: string;
+}
+
+export interface TagState {
+  // Tags per customer id, each list sorted and without duplicates
+  customerTags: Record<string, string[]>;
+  segments: Segment[];
+}
+
+const STORAGE_KEY = 'personal-trainer:tags';
+
+export const EMPTY_FILTER: TagFilter = { tags: [], match: 'any' };
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isSegment = (value: unknown): value is Segment => {
+  const segment = value as Segment;
+  return typeof segment?.id === 'string' &&
+    typeof segment.name === 'string' &&
+    isStringArray(segment.tags) &&
+    (segment.match === 'any' || segment.match === 'all');
+};
+
+/**
+ * Read the stored tags, ignoring anything malformed
+ */
+const load = (): TagState => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    const customerTags = Object.fromEntries(
+      Object.entries(stored.customerTags ?? {}).filter((entry): entry is [string, string[]] => isStringArray(entry[1]))
+    );
+    const segments = Array.isArray(stored.segments) ? stored.segments.filter(isSegment) : [];
+    return { customerTags, segments };
+  } catch {
+    return { customerTags: {}, segments: [] };
+  }
+};
+
+let state: TagState = load();
+const listeners = new Set<() => void>();
+
+const update = (next: TagState) => {
+  state = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach(listener => listener());
+};
+
+// Pick up changes made in other tabs
+window.addEventListener('storage', event => {
+  if (event.key === STORAGE_KEY) {
+    state = load();
+    listeners.forEach(listener => listener());
+  }
+});
+
+export const getTagState = (): TagState => state;
+
+export const subscribeToTags = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Trimmed, single spaced; tags are compared case-insensitively but keep the first spelling
+export const normalizeTag = (tag: string): string => tag.trim().replace(/\s+/g, ' ');
+
+const sameTag = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const uniqueTags = (tags: string[]): string[] =>
+  tags
+    .map(normalizeTag)
+    .filter((tag, index, all) => tag !== '' && all.findIndex(other => sameTag(other, tag)) === index)
+    .sort((a, b) => a.localeCompare(b));
+
+export const tagsOf = (tagState: TagState, customerId: number): string[] =>
+  tagState.customerTags[String(customerId)] ?? [];
+
+/**
+ * Every tag in use, with how many customers have it
+ */
+export const allTags = (tagState: TagState): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  Object.values(tagState.customerTags).flat().forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => a.tag.localeCompare(b.tag));
+};
+
+export const setCustomerTags = (customerId: number, tags: string[]): void => {
+  // Reuse the spelling of tags that already exist so "Rehab" and "rehab" stay one tag
+  const known = allTags(state).map(({ tag }) => tag);
+  const spelled = tags.map(tag => known.find(existing => sameTag(existing, normalizeTag(tag))) ?? tag);
+  const others = omit(state.customerTags, String(customerId));
+  const next = uniqueTags(spelled);
+  update({ ...state, customerTags: next.length > 0 ? { ...others, [String(customerId)]: next } : others });
+};
+
+const mapTags = (map: (tags: string[]) => string[]): Record<string, string[]> =>
+  Object.fromEntries(
+    Object.entries(state.customerTags)
+      .map(([id, tags]): [string, string[]] => [id, uniqueTags(map(tags))])
+      .filter(([, tags]) => tags.length > 0)
+  );
+
+/**
+ * Rename a tag on every customer and in every segment. Renaming onto an
+ * existing tag merges the two.
+ */
+export const renameTag = (from: string, to: string): void => {
+  const renamed = normalizeTag(to);
+  if (!renamed) {
+    return;
+  }
+  const rename = (tags: string[]) => tags.map(tag => (sameTag(tag, from) ? renamed : tag));
+  update({
+    customerTags: mapTags(rename),
+    segments: state.segments.map(segment => ({ ...segment, tags: uniqueTags(rename(segment.tags)) })),
+  });
+};
+
+/**
+ * Remove a tag from every customer and segment; segments left without tags are deleted
+ */
+export const deleteTag = (tag: string): void => {
+  const remove = (tags: string[]) => tags.filter(other => !sameTag(other, tag));
+  update({
+    customerTags: mapTags(remove),
+    segments: state.segments
+      .map(segment => ({ ...segment, tags: remove(segment.tags) }))
+      .filter(segment => segment.tags.length > 0),
+  });
+};
+
+/**
+ * Move tags to another id: a customer created offline getting its real id,
+ * or a merged duplicate handing its tags to the customer kept
+ */
+export const moveCustomerTags = (fromId: number, toId: number): void => {
+  const moving = tagsOf(state, fromId);
+  if (moving.length === 0) {
+    return;
+  }
+  update({
+    ...state,
+    customerTags: {
+      ...omit(state.customerTags, String(fromId)),
+      [String(toId)]: uniqueTags([...tagsOf(state, toId), ...moving]),
+    },
+  });
+};
+
+export const saveSegment = (name: string, filter: TagFilter): Segment => {
+  const segment: Segment = { id: `${Date.now()}`, name: name.trim(), tags: uniqueTags(filter.tags), match: filter.match };
+  update({ ...state, segments: [...state.segments, segment] });
+  return segment;
+};
+
+export const deleteSegment = (segmentId: string): void => {
+  update({ ...state, segments: state.segments.filter(segment => segment.id !== segmentId) });
+};
+
+export const matchesTags = (tags: string[], filter: TagFilter): boolean => {
+  if (filter.tags.length === 0) {
+    return true;
+  }
+  const has = (wanted: string) => tags.some(tag => sameTag(tag, wanted));
+  return filter.match === 'all' ? filter.tags.every(has) : filter.tags.some(has);
+};
+
+/**
+ * Ids of the customers a filter selects, or null when it selects everyone
+ */
+export const customerIdsMatching = (tagState: TagState, filter: TagFilter): Set<number> | null =>
+  filter.tags.length === 0
+    ? null
+    : new Set(
+      Object.entries(tagState.customerTags)
+        .filter(([, tags]) => matchesTags(tags, filter))
+        .map(([id]) => Number(id))
+    );
@@ -0,0 +1,153 @@
+import { Customer, TrainingInput } from '../types';
+import { ACTIVITIES } from '../config/activities';
+import { ColumnMapping, ParsedCsv, guessColumnMapping, readMappedRow } from '../utils/csv';
+import { parseDate } from '../utils/dateUtils';
+
+export type TrainingField = 'date' | 'duration' | 'activity' | 'customer' | 'email';
+
+export type TrainingMapping = ColumnMapping<TrainingField>;
+
+export const TRAINING_IMPORT_FIELDS: { name: TrainingField; label: string }[] = [
+  { name: 'date', label: 'Date & Time' },
+  { name: 'duration', label: 'Duration (min)' },
+  { name: 'activity', label: 'Activity' },
+  { name: 'customer', label: 'Customer name' },
+  { name: 'email', label: 'Customer email' },
+];
+
+// Header spellings recognised per field, after normalizing. Includes the
+// labels our own export writes and the common Finnish ones.
+const HEADER_ALIASES: Record<TrainingField, string[]> = {
+  date: ['datetime', 'date', 'time', 'start', 'päivämäärä', 'pvm', 'aika'],
+  duration: ['durationmin', 'duration', 'minutes', 'min', 'kesto'],
+  activity: ['activity', 'exercise', 'type', 'laji', 'aktiviteetti'],
+  customer: ['customer', 'customername', 'client', 'name', 'asiakas', 'nimi'],
+  email: ['customeremail', 'email', 'emailaddress', 'sähköposti'],
+};
+
+export const guessTrainingMapping = (headers: string[]): TrainingMapping =>
+  guessColumnMapping(headers, HEADER_ALIASES);
+
+export interface TrainingImportRow {
+  // Line in the file, counting the header as line 1, so users can find the row
+  line: number;
+  values: Record<TrainingField, string>;
+  // Parsed values; null where the file's value couldn't be read
+  date: string | null;
+  duration: number | null;
+  activity: string | null;
+  // Which customer reference the row belongs to; '' when it names none
+  customerKey: string;
+  errors: Partial<Record<TrainingField, string>>;
+}
+
+/**
+ * A customer as written in the file, shared by every row that names them
+ * the same way, and the existing customers it could mean
+ */
+export interface CustomerReference {
+  key: string;
+  name: string;
+  email: string;
+  lines: number[];
+  candidates: Customer[];
+}
+
+// Customer chosen for each reference key; null skips the reference's rows
+export type CustomerResolution = Record<string, number | null>;
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const referenceKey = (values: Record<TrainingField, string>) =>
+  values.customer || values.email ? `${normalize(values.email)}|${normalize(values.customer)}` : '';
+
+export const isValidTrainingRow = (row: TrainingImportRow): boolean => Object.keys(row.errors).length === 0;
+
+/**
+ * Read and check each row against the form's rules: a date in a known
+ * layout, a whole number of minutes and one of the known activities
+ */
+export const buildTrainingRows = (csv: ParsedCsv, mapping: TrainingMapping): TrainingImportRow[] =>
+  csv.rows.map((rowValues, index) => {
+    const values = readMappedRow(rowValues, mapping);
+    const errors: TrainingImportRow['errors'] = {};
+
+    const parsedDate = values.date ? parseDate(values.date) : null;
+    if (!values.date) {
+      errors.date = 'Required';
+    } else if (!parsedDate) {
+      errors.date = `Unrecognised date "${values.date}"`;
+    }
+
+    const duration = /^\d+$/.test(values.duration) ? Number(values.duration) : null;
+    if (!values.duration) {
+      errors.duration = 'Required';
+    } else if (!duration) {
+      errors.duration = 'Must be a whole number of minutes';
+    }
+
+    const activity = ACTIVITIES.find(known => normalize(known) === normalize(values.activity)) ?? null;
+    if (!values.activity) {
+      errors.activity = 'Required';
+    } else if (!activity) {
+      errors.activity = `Unknown activity "${values.activity}"`;
+    }
+
+    const customerKey = referenceKey(values);
+    if (!customerKey) {
+      errors.customer = 'Required';
+    }
+
+    return {
+      line: index + 2,
+      values,
+      date: parsedDate ? parsedDate.toISOString() : null,
+      duration,
+      activity,
+      customerKey,
+      errors,
+    };
+  });
+
+/**
+ * Group valid rows by the customer they name and look up the matching
+ * customers: by email when the file has one, otherwise by full name. Rows
+ * that fail validation are skipped anyway, so their customers aren't asked about.
+ */
+export const collectCustomerReferences = (rows: TrainingImportRow[], customers: Customer[]): CustomerReference[] => {
+  const references = new Map<string, CustomerReference>();
+  rows.filter(isValidTrainingRow).forEach(row => {
+    const existing = references.get(row.customerKey);
+    if (existing) {
+      existing.lines.push(row.line);
+      return;
+    }
+    const email = normalize(row.values.email);
+    const name = normalize(row.values.customer);
+    const candidates = email
+      ? customers.filter(customer => normalize(customer.email) === email)
+      : customers.filter(customer => normalize(`${customer.firstname} ${customer.lastname}`) === name);
+    references.set(row.customerKey, {
+      key: row.customerKey,
+      name: row.values.customer,
+      email: row.values.email,
+      lines: [row.line],
+      candidates,
+    });
+  });
+  return Array.from(references.values());
+};
+
+// References that match exactly one customer resolve without asking
+export const autoResolve = (references: CustomerReference[]): CustomerResolution =>
+  references.reduce((resolution, reference) => (
+    reference.candidates.length === 1 ? { ...resolution, [reference.key]: reference.candidates[0].id } : resolution
+  ), {} as CustomerResolution);
+
+// The training a valid row creates, once its customer is known
+export const toImportedTraining = (row: TrainingImportRow, customerId: number): TrainingInput => ({
+  date: row.date ?? '',
+  duration: row.duration ?? 0,
+  activity: row.activity ?? '',
+  customerId,
+});
@@ -0,0 +1,345 @@
+import { Customer, CustomerInput, Training } from '../types';
+import { parseCustomerRef } from '../services/hal';
+import { MutationRequest, localHref } from '../offline/mutations';
+
+/**
+ * Normalized client-side cache of customers and trainings shared by every view
+ */
+export interface Entities {
+  customers: Customer;
+  trainings: Training;
+}
+
+export type CollectionName = keyof Entities;
+
+export interface EntityCollection<T> {
+  byId: Record<string, T>;
+  ids: string[];
+  // Timestamp of the last successful fetch, null until the first one lands
+  fetchedAt: number | null;
+  isFetching: boolean;
+  // Set by invalidate(); forces the next ensure() to refetch
+  stale: boolean;
+  // When invalidate() last ran, so paged views can reload what they show
+  invalidatedAt: number | null;
+  error: unknown;
+}
+
+export type DataState = {
+  [K in CollectionName]: EntityCollection<Entities[K]>;
+} & {
+  // Training customer links that can't be matched by URL, mapped to the
+  // customer key they resolved to (null when the lookup failed)
+  customerLinks: Record<string, string | null>;
+};
+
+export type DataStoreAction =
+  | { type: 'fetchStart'; collection: CollectionName }
+  | { type: 'fetchSuccess'; collection: CollectionName; items: Entities[CollectionName][]; fetchedAt: number }
+  | { type: 'fetchError'; collection: CollectionName; error: unknown }
+  | { type: 'fetchCancelled'; collection: CollectionName }
+  | { type: 'upsert'; collection: CollectionName; items: Entities[CollectionName][] }
+  | { type: 'remove'; collection: CollectionName; ids: string[] }
+  | { type: 'invalidate'; collections: CollectionName[]; invalidatedAt: number }
+  | { type: 'resolveCustomerLinks'; links: Record<string, string | null>; customers: Customer[] }
+  | { type: 'applyMutation'; mutation: MutationRequest }
+  | { type: 'replaceTemp'; collection: CollectionName; tempId: number; item: Entities[CollectionName] | null }
+  | { type: 'restore'; snapshot: Pick<DataState, CollectionName> };
+
+/**
+ * How long fetched data is served without revalidating
+ */
+export const STALE_TIME_MS = 30000;
+
+/**
+ * Stable key of an entity within its collection: its id as a string
+ */
+export const customerKey = (customer: Customer): string => String(customer.id);
+
+export const trainingKey = (training: Training): string => String(training.id);
+
+const getKey = (item: Entities[CollectionName]): string => String(item.id);
+
+const emptyCollection = <T>(): EntityCollection<T> => ({
+  byId: {},
+  ids: [],
+  fetchedAt: null,
+  isFetching: false,
+  stale: false,
+  invalidatedAt: null,
+  error: null,
+});
+
+export const initialDataState: DataState = {
+  customers: emptyCollection<Customer>(),
+  trainings: emptyCollection<Training>(),
+  customerLinks: {},
+};
+
+/**
+ * Index items by key
+ */
+const normalize = <T extends Entities[CollectionName]>(items: T[]) => {
+  const byId: Record<string, T> = {};
+  const ids: string[] = [];
+  items.forEach(item => {
+    const key = getKey(item);
+    if (!(key in byId)) {
+      ids.push(key);
+    }
+    byId[key] = item;
+  });
+  return { byId, ids };
+};
+
+const updateCollection = (
+  state: DataState,
+  collection: CollectionName,
+  update: (current: EntityCollection<Entities[CollectionName]>) => Partial<EntityCollection<Entities[CollectionName]>>
+): DataState => ({
+  ...state,
+  [collection]: { ...state[collection], ...update(state[collection]) },
+});
+
+/**
+ * Apply a write to the cached data without waiting for the server
+ */
+const applyMutation = (state: DataState, mutation: MutationRequest): DataState => {
+  const upsert = <K extends CollectionName>(next: DataState, collection: K, items: Entities[K][]) =>
+    dataStoreReducer(next, { type: 'upsert', collection, items });
+  const remove = (next: DataState, collection: CollectionName, ids: string[]) =>
+    dataStoreReducer(next, { type: 'remove', collection, ids });
+  const trainingsOf = (key: string) =>
+    selectTrainings(state).filter(training => training.customer && customerKey(training.customer) === key);
+
+  switch (mutation.kind) {
+    case 'addCustomer': {
+      const href = localHref('customers', mutation.tempId);
+      return upsert(state, 'customers', [{
+        ...mutation.customer,
+        id: mutation.tempId,
+        links: { self: { href }, customer: { href }, trainings: { href: '' } },
+      }]);
+    }
+    case 'updateCustomer': {
+      // Trainings embed a copy of their customer, so refresh those copies too
+      const key = customerKey(mutation.customer);
+      const next = upsert(state, 'customers', [mutation.customer]);
+      return upsert(next, 'trainings', trainingsOf(key).map(training => ({
+        ...training,
+        customer: { ...training.customer, ...mutation.customer },
+      })));
+    }
+    case 'deleteCustomer': {
+      // Mirror the backend, which deletes a customer's trainings with it
+      const key = customerKey(mutation.customer);
+      const next = remove(state, 'customers', [key]);
+      return remove(next, 'trainings', trainingsOf(key).map(trainingKey));
+    }
+    case 'addTraining': {
+      const customer = state.customers.byId[String(mutation.training.customerId)];
+      const href = localHref('trainings', mutation.tempId);
+      return upsert(state, 'trainings', [{
+        id: mutation.tempId,
+        date: mutation.training.date,
+        duration: mutation.training.duration,
+        activity: mutation.training.activity,
+        customer,
+        links: { self: { href }, training: { href }, customer: { href: customer?.links?.self?.href || '' } },
+      }]);
+    }
+    case 'updateTraining': {
+      const existing = state.trainings.byId[String(mutation.trainingId)];
+      if (!existing) {
+        return state;
+      }
+      const { date, duration, activity } = mutation.training;
+      const customer = state.customers.byId[String(mutation.training.customerId)] ?? existing.customer;
+      return upsert(state, 'trainings', [{ ...existing, date, duration, activity, customer }]);
+    }
+    case 'deleteTraining':
+      return remove(state, 'trainings', [trainingKey(mutation.training)]);
+    default:
+      return state;
+  }
+};
+
+export const dataStoreReducer = (state: DataState, action: DataStoreAction): DataState => {
+  switch (action.type) {
+    case 'fetchStart':
+      return updateCollection(state, action.collection, () => ({ isFetching: true }));
+    case 'fetchSuccess':
+      return updateCollection(state, action.collection, () => ({
+        ...normalize(action.items),
+        fetchedAt: action.fetchedAt,
+        isFetching: false,
+        stale: false,
+        error: null,
+      }));
+    case 'fetchError':
+      // Keep serving whatever we had; the error is reported alongside it
+      return updateCollection(state, action.collection, () => ({
+        isFetching: false,
+        error: action.error,
+      }));
+    case 'fetchCancelled':
+      return updateCollection(state, action.collection, () => ({ isFetching: false }));
+    case 'upsert':
+      return updateCollection(state, action.collection, (current) => {
+        const incoming = normalize(action.items);
+        return {
+          byId: { ...current.byId, ...incoming.byId },
+          ids: [...current.ids, ...incoming.ids.filter(id => !(id in current.byId))],
+        };
+      });
+    case 'remove':
+      return updateCollection(state, action.collection, (current) => {
+        const removed = new Set(action.ids);
+        const byId = { ...current.byId };
+        action.ids.forEach(id => delete byId[id]);
+        return { byId, ids: current.ids.filter(id => !removed.has(id)) };
+      });
+    case 'invalidate':
+      return action.collections.reduce(
+        (next, collection) => updateCollection(next, collection, () => ({
+          stale: true,
+          invalidatedAt: action.invalidatedAt,
+        })),
+        state
+      );
+    case 'resolveCustomerLinks': {
+      // Store the fetched customers and the link mapping in a single update
+      const next = dataStoreReducer(state, { type: 'upsert', collection: 'customers', items: action.customers });
+      return { ...next, customerLinks: { ...next.customerLinks, ...action.links } };
+    }
+    case 'applyMutation':
+      return applyMutation(state, action.mutation);
+    case 'replaceTemp':
+      // Swap a record created optimistically for the server's copy, keeping its position
+      return updateCollection(state, action.collection, (current) => {
+        const tempKey = String(action.tempId);
+        const byId = { ...current.byId };
+        delete byId[tempKey];
+        if (!action.item) {
+          return { byId, ids: current.ids.filter(id => id !== tempKey) };
+        }
+        const key = getKey(action.item);
+        byId[key] = action.item;
+        const ids = current.ids.includes(key)
+          ? current.ids.filter(id => id !== tempKey)
+          : current.ids.map(id => (id === tempKey ? key : id));
+        return { byId, ids };
+      });
+    case 'restore':
+      // Roll cached records back to a snapshot; fetch bookkeeping is left alone
+      return (Object.keys(action.snapshot) as CollectionName[]).reduce(
+        (next, collection) => updateCollection(next, collection, () => ({
+          byId: action.snapshot[collection].byId,
+          ids: action.snapshot[collection].ids,
+        })),
+        state
+      );
+    default:
+      return state;
+  }
+};
+
+/**
+ * Whether a collection should be (re)fetched when a view asks for it
+ */
+export const needsFetch = (collection: EntityCollection<unknown>, now = Date.now()): boolean =>
+  !collection.isFetching &&
+  (collection.fetchedAt === null || collection.stale || now - collection.fetchedAt > STALE_TIME_MS);
+
+/**
+ * Customer key encoded in a /customers/{id} URL, if the link has that form.
+ * Links like /trainings/{id}/customer need a request to resolve.
+ */
+export const customerKeyFromHref = (href: string): string | null => {
+  const ref = parseCustomerRef(href);
+  return ref ? String(ref.id) : null;
+};
+
+/**
+ * SELECTORS
+ */
+
+export const selectAll = <K extends CollectionName>(state: DataState, collection: K): Entities[K][] => {
+  const { byId, ids } = state[collection] as EntityCollection<Entities[K]>;
+  return ids.map(id => byId[id]);
+};
+
+export const selectCustomers = (state: DataState): Customer[] => selectAll(state, 'customers');
+
+export const selectTrainings = (state: DataState): Training[] => selectAll(state, 'trainings');
+
+export const selectCustomerById = (state: DataState, id: string): Customer | undefined =>
+  state.customers.byId[id];
+
+export const selectTrainingById = (state: DataState, id: string): Training | undefined =>
+  state.trainings.byId[id];
+
+export const selectTrainingsForCustomer = (state: DataState, customerId: string): Training[] =>
+  selectTrainings(state).filter(training => {
+    const ownerId = training.customer ? customerKey(training.customer) : null;
+    return ownerId === customerId;
+  });
+
+const normalizeText = (value: string | undefined) => (value ?? '').trim().toLowerCase();
+
+/**
+ * Loaded customers that look like the same person as `input`: same email, or
+ * same first and last name. The customer with `excludeId` is left out.
+ */
+export const selectMatchingCustomers = (state: DataState, input: CustomerInput, excludeId?: number): Customer[] => {
+  const email = normalizeText(input.email);
+  const name = `${normalizeText(input.firstname)} ${normalizeText(input.lastname)}`;
+  return selectCustomers(state).filter(customer =>
+    customer.id !== excludeId &&
+    ((email !== '' && normalizeText(customer.email) === email) ||
+      `${normalizeText(customer.firstname)} ${normalizeText(customer.lastname)}` === name)
+  );
+};
+
+// Reuse joined rows while neither side changed so grids don't re-render them
+const joinedTrainings = new WeakMap<Training, { customer: Customer; joined: Training }>();
+
+/**
+ * Attach each training's customer from the customers map where it isn't embedded.
+ * Runs in a single pass so it stays cheap for thousands of trainings.
+ */
+export const selectTrainingsWithCustomers = (state: DataState): Training[] => {
+  const customers = state.customers.byId;
+  return selectTrainings(state).map(training => {
+    const href = training.links?.customer?.href;
+    if (training.customer || !href) {
+      return training;
+    }
+    const key = customerKeyFromHref(href) ?? state.customerLinks[href];
+    const customer = key ? customers[key] : undefined;
+    if (!customer) {
+      return training;
+    }
+    const cached = joinedTrainings.get(training);
+    if (cached?.customer === customer) {
+      return cached.joined;
+    }
+    const joined = { ...training, customer };
+    joinedTrainings.set(training, { customer, joined });
+    return joined;
+  });
+};
+
+/**
+ * Customer links that can't be resolved from loaded data and haven't been looked up yet
+ */
+export const selectUnresolvedCustomerLinks = (state: DataState): string[] => {
+  const unresolved = new Set<string>();
+  selectTrainings(state).forEach(training => {
+    const href = training.links?.customer?.href;
+    if (!training.customer && href && !customerKeyFromHref(href) && !(href in state.customerLinks)) {
+      unresolved.add(href);
+    }
+  });
+  return [...unresolved];
+};
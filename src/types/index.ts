@@ -1,5 +1,7 @@
+// Every loaded record has an id, taken from its self link or the plain entity.
+// Records created offline get a temporary negative id until they sync.
 export interface Customer {
-  id?: number;
+  id: number;
   firstname: string;
   lastname: string;
   streetaddress: string;
@@ -14,8 +16,11 @@ export interface Customer {
   };
 }
 
+// Fields a customer is created or updated from
+export type CustomerInput = Omit<Customer, 'id' | 'links'>;
+
 export interface Training {
-  id?: number;
+  id: number;
   date: string;
   duration: number;
   activity: string;
@@ -27,6 +32,60 @@ export interface Training {
   };
 }
 
+// Fields a training is created or updated from; the customer is referenced by id
+export interface TrainingInput {
+  date: string;
+  duration: number;
+  activity: string;
+  customerId: number;
+}
+
+// A trainer's note on a customer (injuries, preferences); text is rich-text-lite
+export interface CustomerNote {
+  id: string;
+  customerId: number;
+  text: string;
+  pinned: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type GoalMetric = 'minutes' | 'sessions';
+export type GoalPeriod = 'week' | 'month';
+
+// A target like "150 min per week" or "3 Yoga sessions per week"; without
+// an activity every training counts
+export interface TrainingGoal {
+  id: string;
+  customerId: number;
+  metric: GoalMetric;
+  target: number;
+  activity?: string;
+  period: GoalPeriod;
+  createdAt: string;
+}
+
+// One measuring session. Values are keyed by metric: a built-in key like
+// 'weight', or the trainer's own name for a custom metric.
+export interface BodyMeasurement {
+  id: string;
+  customerId: number;
+  // Day measured, YYYY-MM-DD
+  date: string;
+  values: Record<string, number>;
+  createdAt: string;
+}
+
+export type BodyMeasurementInput = Pick<BodyMeasurement, 'date' | 'values'>;
+
+// Paging metadata Spring Data REST adds to paged collection responses
+export interface PageMetadata {
+  size: number;
+  totalElements: number;
+  totalPages: number;
+  number: number;
+}
+
 export interface CustomerResponse {
   _embedded: {
     customers: Customer[];
@@ -35,6 +94,7 @@ export interface CustomerResponse {
     self: { href: string };
     profile: { href: string };
   };
+  page?: PageMetadata;
 }
 
 export interface TrainingResponse {
@@ -45,4 +105,5 @@ export interface TrainingResponse {
     self: { href: string };
     profile: { href: string };
   };
+  page?: PageMetadata;
 } 
\ No newline at end of file
@@ -0,0 +1,96 @@
+/**
+ * Minimal RFC 4180 CSV reader for imports: quoted fields, escaped quotes ("")
+ * and line breaks inside quotes. Spreadsheets in comma-decimal locales save
+ * with semicolons, so the delimiter is detected from the header line.
+ */
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const count = (delimiter: string) => firstLine.split(delimiter).length - 1;
+  return [';', '\t'].reduce((best, delimiter) => (count(delimiter) > count(best) ? delimiter : best), ',');
+};
+
+export const parseCsv = (input: string): ParsedCsv => {
+  // Excel prefixes UTF-8 exports with a byte order mark
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      // Quotes only have meaning at the start of a field; stray ones are kept as text
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines (often trailing) carry no data
+  const nonEmpty = records.filter(row => row.some(value => value.trim() !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map(header => header.trim()), rows };
+};
+
+// Column index each field is read from; null leaves the field empty
+export type ColumnMapping<F extends string> = Record<F, number | null>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-zäöå]/g, '');
+
+/**
+ * Pre-fill a column mapping from the file's headers, matching each field's
+ * aliases after lowercasing and dropping spaces and punctuation. Each column
+ * is used for at most one field; unrecognised fields are left for the user.
+ */
+export const guessColumnMapping = <F extends string>(
+  headers: string[],
+  aliases: Record<F, string[]>
+): ColumnMapping<F> => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  return (Object.keys(aliases) as F[]).reduce((mapping, field) => {
+    const index = normalized.findIndex((header, i) => !used.has(i) && aliases[field].includes(header));
+    if (index !== -1) {
+      used.add(index);
+    }
+    return { ...mapping, [field]: index === -1 ? null : index };
+  }, {} as ColumnMapping<F>);
+};
+
+// Trimmed values of one row by field; unmapped fields and missing cells read as ''
+export const readMappedRow = <F extends string>(values: string[], mapping: ColumnMapping<F>): Record<F, string> =>
+  (Object.keys(mapping) as F[]).reduce((row, field) => {
+    const column = mapping[field];
+    return { ...row, [field]: column === null ? '' : (values[column] ?? '').trim() };
+  }, {} as Record<F, string>);
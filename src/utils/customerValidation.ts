@@ -0,0 +1,157 @@
+import { Customer, CustomerInput } from '../types';
+
+export type CustomerErrors = Partial<Record<keyof CustomerInput, string>>;
+
+/**
+ * Countries whose phone numbers and postcodes are recognised. Customers
+ * don't record a country, so it is taken from the phone number's calling
+ * code, and numbers written without one are Finnish.
+ */
+export type CountryCode = 'FI' | 'SE' | 'NO' | 'DK' | 'EE' | 'DE' | 'GB' | 'US';
+
+interface CountryFormat {
+  name: string;
+  callingCode: string;
+  postcode: RegExp;
+  postcodeExample: string;
+}
+
+const COUNTRIES: Record<CountryCode, CountryFormat> = {
+  FI: { name: 'Finnish', callingCode: '358', postcode: /^\d{5}$/, postcodeExample: '00100' },
+  SE: { name: 'Swedish', callingCode: '46', postcode: /^\d{3} ?\d{2}$/, postcodeExample: '114 55' },
+  NO: { name: 'Norwegian', callingCode: '47', postcode: /^\d{4}$/, postcodeExample: '0150' },
+  DK: { name: 'Danish', callingCode: '45', postcode: /^\d{4}$/, postcodeExample: '1050' },
+  EE: { name: 'Estonian', callingCode: '372', postcode: /^\d{5}$/, postcodeExample: '10111' },
+  DE: { name: 'German', callingCode: '49', postcode: /^\d{5}$/, postcodeExample: '10115' },
+  GB: { name: 'UK', callingCode: '44', postcode: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i, postcodeExample: 'SW1A 1AA' },
+  US: { name: 'US', callingCode: '1', postcode: /^\d{5}(-\d{4})?$/, postcodeExample: '90210' },
+};
+
+export const DEFAULT_COUNTRY: CountryCode = 'FI';
+
+// Local part and domain as people actually use them: no spaces, one @, a dot in the domain
+const EMAIL_PATTERN = /^[A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+@[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)+$/;
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Phone number in E.164 form ("+358401234567"), or null if it can't be one.
+ * Spaces, dashes, dots and brackets are ignored; "00" counts as "+"; a
+ * leading 0 is the trunk prefix of the default country.
+ */
+export const toE164 = (phone: string, country: CountryCode = DEFAULT_COUNTRY): string | null => {
+  const compact = phone.trim().replace(/[\s\-.()/]/g, '');
+  const match = compact.match(/^(\+|00|0)?(\d+)$/);
+  if (!match) {
+    return null;
+  }
+  const [, prefix, digits] = match;
+  const international = prefix === '+' || prefix === '00' ? digits : prefix === '0' ? COUNTRIES[country].callingCode + digits : null;
+  // E.164 allows at most 15 digits; anything under 8 is an extension or a typo
+  return international && /^[1-9]\d{7,14}$/.test(international) ? `+${international}` : null;
+};
+
+// Country a normalized phone number belongs to, by its longest matching calling code
+export const countryOfPhone = (e164: string): CountryCode | undefined =>
+  (Object.keys(COUNTRIES) as CountryCode[])
+    .filter(code => e164.startsWith(`+${COUNTRIES[code].callingCode}`))
+    .sort((a, b) => COUNTRIES[b].callingCode.length - COUNTRIES[a].callingCode.length)[0];
+
+const countryOf = (customer: CustomerInput): CountryCode => {
+  const phone = toE164(customer.phone);
+  return (phone && countryOfPhone(phone)) || DEFAULT_COUNTRY;
+};
+
+type FieldRule = (value: string, customer: CustomerInput) => string | undefined;
+
+const required: FieldRule = value => (value.trim() === '' ? 'Required' : undefined);
+
+/**
+ * Rules per field, checked in order; the first failing one gives the message
+ */
+const RULES: Record<keyof CustomerInput, FieldRule[]> = {
+  firstname: [required],
+  lastname: [required],
+  streetaddress: [required],
+  city: [required],
+  email: [
+    required,
+    value => (EMAIL_PATTERN.test(value.trim()) ? undefined : 'Not a valid email address'),
+  ],
+  phone: [
+    required,
+    value => (toE164(value) ? undefined : 'Not a valid phone number, e.g. 040 123 4567 or +358 40 123 4567'),
+  ],
+  postcode: [
+    required,
+    (value, customer) => {
+      const format = COUNTRIES[countryOf(customer)];
+      return format.postcode.test(value.trim())
+        ? undefined
+        : `Not a valid ${format.name} postcode, e.g. ${format.postcodeExample}`;
+    },
+  ],
+};
+
+export const validateField = (field: keyof CustomerInput, customer: CustomerInput): string | undefined =>
+  RULES[field].reduce<string | undefined>((error, rule) => error ?? rule(customer[field], customer), undefined);
+
+// Which fields the user changed; the rest hold stored values, taken as they are
+export type ChangedFields = (field: keyof CustomerInput) => boolean;
+
+const allChanged: ChangedFields = () => true;
+
+// Other fields a field's rules read; it is checked again when any of them changes
+const DEPENDS_ON: Partial<Record<keyof CustomerInput, (keyof CustomerInput)[]>> = {
+  // The postcode format follows the phone number's country
+  postcode: ['phone'],
+};
+
+const withDependents = (isChanged: ChangedFields): ChangedFields => field =>
+  isChanged(field) || (DEPENDS_ON[field] ?? []).some(isChanged);
+
+/**
+ * Rules a customer must pass before it is saved, shared by the form and the
+ * CSV import. Returns an error message per failing field; empty when valid.
+ * Only changed fields, and those whose rules read a changed one, are checked,
+ * so stored data older than these rules (like the phone 232-2345540) doesn't
+ * block editing something else.
+ */
+export const validateCustomer = (customer: CustomerInput, isChanged: ChangedFields = allChanged): CustomerErrors => {
+  const shouldCheck = withDependents(isChanged);
+  return (Object.keys(RULES) as (keyof CustomerInput)[]).reduce((errors, field) => {
+    const error = shouldCheck(field) ? validateField(field, customer) : undefined;
+    return error ? { ...errors, [field]: error } : errors;
+  }, {} as CustomerErrors);
+};
+
+export const isValidCustomer = (customer: CustomerInput): boolean =>
+  Object.keys(validateCustomer(customer)).length === 0;
+
+/**
+ * The values saved for a valid customer: checked fields trimmed, with the
+ * phone number in E.164 form and UK postcodes in capitals. Fields that
+ * weren't checked are saved exactly as stored.
+ */
+export const normalizeCustomer = (customer: CustomerInput, isChanged: ChangedFields = allChanged): CustomerInput => {
+  const shouldNormalize = withDependents(isChanged);
+  const trimmed = (Object.keys(customer) as (keyof CustomerInput)[]).reduce(
+    (values, field) => ({ ...values, [field]: shouldNormalize(field) ? customer[field].trim() : customer[field] }),
+    {} as CustomerInput
+  );
+  return {
+    ...trimmed,
+    phone: shouldNormalize('phone') ? toE164(trimmed.phone) ?? trimmed.phone : trimmed.phone,
+    postcode: shouldNormalize('postcode') && countryOf(trimmed) === 'GB' ? trimmed.postcode.toUpperCase() : trimmed.postcode,
+  };
+};
+
+/**
+ * Another customer already using this email, if any
+ */
+export const findEmailOwner = (email: string, customers: Customer[], excludeId?: number): Customer | undefined => {
+  const normalized = normalizeEmail(email);
+  return normalized
+    ? customers.find(customer => customer.id !== excludeId && normalizeEmail(customer.email) === normalized)
+    : undefined;
+};
@@ -1,11 +1,47 @@
 import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+
+dayjs.extend(customParseFormat);
 
 // Format date to dd.mm.yyyy hh:mm format
 export const formatDate = (dateString: string): string => {
   return dayjs(dateString).format('DD.MM.YYYY HH:mm');
 };
 
+// Format a day without its time, dd.mm.yyyy
+export const formatDay = (dateString: string): string => {
+  return dayjs(dateString).format('DD.MM.YYYY');
+};
+
 // Format date for API requests
 export const formatDateForAPI = (date: Date): string => {
   return dayjs(date).toISOString();
-}; 
\ No newline at end of file
+};
+
+// Date layouts accepted from imported files, tried in order. Day-first comes
+// before month-first, as in our own exports; dates without a time get midnight.
+const IMPORT_DATE_FORMATS = [
+  'DD.MM.YYYY HH:mm',
+  'D.M.YYYY H:mm',
+  'DD.MM.YYYY',
+  'D.M.YYYY',
+  'YYYY-MM-DD HH:mm',
+  'YYYY-MM-DD HH:mm:ss',
+  'YYYY-MM-DD',
+  'DD/MM/YYYY HH:mm',
+  'D/M/YYYY H:mm',
+  'DD/MM/YYYY',
+  'D/M/YYYY',
+];
+
+// Parse a date typed by a person or another app; null when it matches no known layout
+export const parseDate = (text: string): dayjs.Dayjs | null => {
+  const value = text.trim();
+  // ISO 8601 timestamps, as stored by the API
+  if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const date = dayjs(value);
+    return date.isValid() ? date : null;
+  }
+  const date = dayjs(value, IMPORT_DATE_FORMATS, true);
+  return date.isValid() ? date : null;
+};
@@ -0,0 +1,56 @@
+import dayjs from 'dayjs';
+import { sumBy } from 'lodash';
+import { GoalPeriod, Training, TrainingGoal } from '../types';
+
+export interface GoalProgress {
+  done: number;
+  target: number;
+  // Share of the target reached, capped at 1
+  ratio: number;
+  isMet: boolean;
+  // The period counted, start inclusive and end exclusive
+  start: dayjs.Dayjs;
+  end: dayjs.Dayjs;
+}
+
+/**
+ * "150 min per week", "3 Yoga sessions per week", "1 session per month"
+ */
+export const formatGoal = (goal: TrainingGoal): string => {
+  const activity = goal.activity ? `${goal.activity} ` : '';
+  const unit = goal.metric === 'minutes' ? 'min' : goal.target === 1 ? 'session' : 'sessions';
+  return `${goal.target} ${activity}${unit} per ${goal.period}`;
+};
+
+/**
+ * The week (Monday to Sunday) or calendar month a moment falls in
+ */
+export const periodOf = (period: GoalPeriod, moment: dayjs.Dayjs): { start: dayjs.Dayjs; end: dayjs.Dayjs } => {
+  if (period === 'month') {
+    const start = moment.startOf('month');
+    return { start, end: start.add(1, 'month') };
+  }
+  const start = moment.startOf('day').subtract((moment.day() + 6) % 7, 'day');
+  return { start, end: start.add(1, 'week') };
+};
+
+/**
+ * How far a customer is toward a goal in the current period, from their trainings
+ */
+export const goalProgress = (goal: TrainingGoal, trainings: Training[], now = dayjs()): GoalProgress => {
+  const { start, end } = periodOf(goal.period, now);
+  const counted = trainings.filter(training => {
+    const date = dayjs(training.date);
+    return !date.isBefore(start) && date.isBefore(end) &&
+      (!goal.activity || training.activity.toLowerCase() === goal.activity.toLowerCase());
+  });
+  const done = goal.metric === 'minutes' ? sumBy(counted, 'duration') : counted.length;
+  return {
+    done,
+    target: goal.target,
+    ratio: goal.target > 0 ? Math.min(1, done / goal.target) : 1,
+    isMet: done >= goal.target,
+    start,
+    end,
+  };
+};
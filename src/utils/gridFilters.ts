@@ -0,0 +1,79 @@
+import dayjs from 'dayjs';
+import { get } from 'lodash';
+
+/**
+ * The parts of AG Grid's column filter models the lists use. Each column
+ * holds a single condition; the query language and the column menus both
+ * produce these.
+ */
+export type FilterType = 'text' | 'number' | 'date';
+
+export type ConditionType =
+  | 'contains'
+  | 'notContains'
+  | 'equals'
+  | 'notEqual'
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'lessThan'
+  | 'lessThanOrEqual'
+  | 'inRange';
+
+export interface ColumnFilterModel {
+  filterType: FilterType;
+  type: ConditionType;
+  // Text and number filters
+  filter?: string | number | null;
+  filterTo?: number | null;
+  // Date filters, as "YYYY-MM-DD hh:mm:ss"
+  dateFrom?: string | null;
+  dateTo?: string | null;
+}
+
+// Keyed by column id, which is the row's property path (e.g. customer.lastname)
+export type FilterModel = Record<string, ColumnFilterModel>;
+
+// Column menu options; ranges include both ends, like the query language's a..b
+export const TEXT_FILTER_PARAMS = { filterOptions: ['contains', 'notContains'], maxNumConditions: 1 };
+export const NUMBER_FILTER_PARAMS = {
+  filterOptions: ['equals', 'notEqual', 'greaterThan', 'greaterThanOrEqual', 'lessThan', 'lessThanOrEqual', 'inRange'],
+  maxNumConditions: 1,
+  inRangeInclusive: true,
+};
+export const DATE_FILTER_PARAMS = {
+  filterOptions: ['equals', 'notEqual', 'greaterThan', 'lessThan', 'inRange'],
+  maxNumConditions: 1,
+  inRangeInclusive: true,
+};
+
+const dayOf = (dateTime?: string | null) => dateTime?.slice(0, 10) ?? '';
+
+const matchesCondition = (value: unknown, model: ColumnFilterModel): boolean => {
+  if (model.filterType === 'text') {
+    const text = String(model.filter ?? '').toLowerCase();
+    const contains = String(value ?? '').toLowerCase().includes(text);
+    return model.type === 'notContains' ? !contains : contains;
+  }
+
+  // Numbers compare as numbers, dates by their local day as "YYYY-MM-DD"
+  const isDate = model.filterType === 'date';
+  const actual = isDate ? (value ? dayjs(String(value)).format('YYYY-MM-DD') : '') : Number(value);
+  const from = isDate ? dayOf(model.dateFrom) : Number(model.filter);
+  const to = isDate ? dayOf(model.dateTo) : Number(model.filterTo);
+  switch (model.type) {
+    case 'equals': return actual === from;
+    case 'notEqual': return actual !== from;
+    case 'greaterThan': return actual > from;
+    case 'greaterThanOrEqual': return actual >= from;
+    case 'lessThan': return actual < from;
+    case 'lessThanOrEqual': return actual <= from;
+    case 'inRange': return actual >= from && actual <= to;
+    default: return true;
+  }
+};
+
+/**
+ * Whether a row passes every column filter; the lists filter in the browser
+ */
+export const matchesFilterModel = (row: unknown, filterModel: FilterModel | null): boolean =>
+  Object.entries(filterModel || {}).every(([colId, model]) => matchesCondition(get(row, colId), model));
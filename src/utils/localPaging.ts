@@ -0,0 +1,45 @@
+import { get } from 'lodash';
+import { Page, PageRequest } from '../services/api';
+
+const containsText = (value: unknown, text: string): boolean =>
+  value !== undefined && value !== null && String(value).toLowerCase().includes(text.toLowerCase());
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a ?? '').localeCompare(String(b ?? ''));
+};
+
+/**
+ * Answer a grid page request from rows already in memory and filtered, the
+ * way the server would: search matches by "contains" across the search
+ * fields, sorts apply in order. Fields are dotted paths, like customer.lastname.
+ */
+export const pageLocally = <T,>(items: T[], pageRequest: PageRequest, searchFields: string[]): Page<T> => {
+  const { page, size, sort = [], search } = pageRequest;
+  let result = items;
+
+  if (search) {
+    result = result.filter(item => searchFields.some(field => containsText(get(item, field), search)));
+  }
+  if (sort.length > 0) {
+    result = [...result].sort((a, b) => {
+      for (const { field, direction } of sort) {
+        const order = compareValues(get(a, field), get(b, field));
+        if (order !== 0) return direction === 'desc' ? -order : order;
+      }
+      return 0;
+    });
+  }
+
+  return {
+    items: result.slice(page * size, (page + 1) * size),
+    page: {
+      size,
+      totalElements: result.length,
+      totalPages: Math.ceil(result.length / size),
+      number: page,
+    },
+  };
+};
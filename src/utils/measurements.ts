@@ -0,0 +1,101 @@
+import dayjs from 'dayjs';
+import { sumBy, uniq } from 'lodash';
+import { BodyMeasurement, Training } from '../types';
+import { periodOf } from './goalProgress';
+
+export interface MeasurementMetric {
+  key: string;
+  label: string;
+  // Empty for custom metrics; their name says what they measure
+  unit: string;
+}
+
+export const BUILT_IN_METRICS: MeasurementMetric[] = [
+  { key: 'weight', label: 'Weight', unit: 'kg' },
+  { key: 'bodyFat', label: 'Body fat', unit: '%' },
+  { key: 'chest', label: 'Chest', unit: 'cm' },
+  { key: 'waist', label: 'Waist', unit: 'cm' },
+  { key: 'hips', label: 'Hips', unit: 'cm' },
+  { key: 'arm', label: 'Upper arm', unit: 'cm' },
+  { key: 'thigh', label: 'Thigh', unit: 'cm' },
+];
+
+const BUILT_IN_KEYS = new Set(BUILT_IN_METRICS.map(metric => metric.key));
+
+export const isBuiltInMetric = (key: string): boolean => BUILT_IN_KEYS.has(key);
+
+export const metricLabel = (metric: MeasurementMetric): string =>
+  metric.unit ? `${metric.label} (${metric.unit})` : metric.label;
+
+/**
+ * Names of the custom metrics used in any of the measurements, alphabetically
+ */
+export const customMetricNames = (measurements: BodyMeasurement[]): string[] =>
+  uniq(measurements.flatMap(measurement => Object.keys(measurement.values)))
+    .filter(key => !isBuiltInMetric(key))
+    .sort((a, b) => a.localeCompare(b));
+
+/**
+ * The metrics that have at least one value, built-in ones first
+ */
+export const recordedMetrics = (measurements: BodyMeasurement[]): MeasurementMetric[] => [
+  ...BUILT_IN_METRICS.filter(metric => measurements.some(measurement => metric.key in measurement.values)),
+  ...customMetricNames(measurements).map(name => ({ key: name, label: name, unit: '' })),
+];
+
+export interface TimelinePoint {
+  time: number;
+  value?: number;
+  // Training minutes of the week starting at time
+  minutes?: number;
+}
+
+/**
+ * One metric's values and the customer's weekly training minutes on a shared
+ * time axis, covering every week from the first measurement to the last
+ */
+export const measurementTimeline = (
+  measurements: BodyMeasurement[],
+  trainings: Training[],
+  metricKey: string
+): TimelinePoint[] => {
+  const measured = measurements.filter(measurement => metricKey in measurement.values);
+  if (measured.length === 0) {
+    return [];
+  }
+  const points: TimelinePoint[] = measured.map(measurement => ({
+    time: dayjs(measurement.date).valueOf(),
+    value: measurement.values[metricKey],
+  }));
+
+  const last = dayjs(measured[measured.length - 1].date);
+  let week = periodOf('week', dayjs(measured[0].date));
+  while (week.start.isBefore(last) || week.start.isSame(last)) {
+    const { start, end } = week;
+    const inWeek = trainings.filter(training => {
+      const date = dayjs(training.date);
+      return !date.isBefore(start) && date.isBefore(end);
+    });
+    points.push({ time: start.valueOf(), minutes: sumBy(inWeek, 'duration') });
+    week = periodOf('week', end);
+  }
+  return points.sort((a, b) => a.time - b.time);
+};
+
+/**
+ * CSV headers and rows for an export, one row per measurement. Columns are
+ * keyed by position since custom metric names may contain anything.
+ */
+export const measurementCsv = (measurements: BodyMeasurement[]) => {
+  const metrics = recordedMetrics(measurements);
+  return {
+    headers: [
+      { label: 'Date', key: 'date' },
+      ...metrics.map((metric, index) => ({ label: metricLabel(metric), key: `metric${index}` })),
+    ],
+    rows: measurements.map(measurement => ({
+      date: measurement.date,
+      ...Object.fromEntries(metrics.map((metric, index) => [`metric${index}`, measurement.values[metric.key] ?? ''])),
+    })),
+  };
+};
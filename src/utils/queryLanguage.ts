@@ -0,0 +1,369 @@
+import dayjs from 'dayjs';
+import { ColumnFilterModel, FilterModel, FilterType } from './gridFilters';
+
+/**
+ * A small search language for the lists, e.g.
+ *
+ *   city:Helsinki activity:Yoga duration>45 date:2024-03..2024-04 -lastname:Smith
+ *
+ * `field:value` matches text containing the value, or numbers and dates
+ * equal to it (a month or year means all of it); `a..b` is a range with both
+ * ends included and either end optional; `>`, `>=`, `<` and `<=` compare;
+ * a leading `-` negates; quotes allow spaces ("New York"). Anything without
+ * a field is free text, searched across the list's main fields. Queries
+ * compile to AG Grid filter models, one condition per column.
+ */
+export interface QueryField {
+  name: string;
+  // Grid column id the field filters, which is also the row's property path
+  column: string;
+  type: FilterType;
+  aliases?: string[];
+}
+
+export type QueryOperator = ':' | '>' | '>=' | '<' | '<=';
+
+export interface QueryTerm {
+  // Position in the query text, end exclusive
+  start: number;
+  end: number;
+  raw: string;
+  negated: boolean;
+  field?: QueryField;
+  operator?: QueryOperator;
+  value: string;
+}
+
+export interface QueryError {
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  filterModel: FilterModel;
+  // Free text, for the list's own search
+  search: string;
+  errors: QueryError[];
+}
+
+export interface QuerySuggestion {
+  label: string;
+  // The whole query with the suggestion applied, and where the caret goes
+  text: string;
+  caret: number;
+}
+
+const TERM_PATTERN = /^(-?)([A-Za-z][\w.]*)(>=|<=|:|>|<)(.*)$/;
+const MAX_SUGGESTIONS = 8;
+
+export const findField = (fields: QueryField[], name: string): QueryField | undefined => {
+  const wanted = name.toLowerCase();
+  return fields.find(field => field.name.toLowerCase() === wanted || field.aliases?.some(alias => alias.toLowerCase() === wanted));
+};
+
+/**
+ * Split a query into whitespace separated terms; quoted parts may contain spaces
+ */
+const tokenize = (text: string): { start: number; end: number; raw: string }[] => {
+  const tokens: { start: number; end: number; raw: string }[] = [];
+  let index = 0;
+  while (index < text.length) {
+    if (/\s/.test(text[index])) {
+      index++;
+      continue;
+    }
+    const start = index;
+    let quoted = false;
+    while (index < text.length && (quoted || !/\s/.test(text[index]))) {
+      if (text[index] === '"') quoted = !quoted;
+      index++;
+    }
+    tokens.push({ start, end: index, raw: text.slice(start, index) });
+  }
+  return tokens;
+};
+
+const unquote = (value: string): string => value.replace(/"/g, '');
+
+const quoteIfNeeded = (value: string): string => (/[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+/**
+ * First and last day of a year, month or day written as YYYY, YYYY-MM or YYYY-MM-DD
+ */
+const dayRange = (text: string): { first: string; last: string } | null => {
+  if (!DATE_PATTERN.test(text)) {
+    return null;
+  }
+  const unit = text.length === 4 ? 'year' : text.length === 7 ? 'month' : 'day';
+  const date = dayjs(text.length === 4 ? `${text}-01-01` : text.length === 7 ? `${text}-01` : text);
+  // dayjs rolls invalid days over (2024-02-31), so check it kept the written date
+  if (!date.isValid() || !date.format('YYYY-MM-DD').startsWith(text)) {
+    return null;
+  }
+  return { first: date.startOf(unit).format('YYYY-MM-DD'), last: date.endOf(unit).format('YYYY-MM-DD') };
+};
+
+const atMidnight = (day: string) => `${day} 00:00:00`;
+
+const shiftDay = (day: string, days: number) => dayjs(day).add(days, 'day').format('YYYY-MM-DD');
+
+// Comparisons the other way round, for negated terms
+const NEGATED: Record<Exclude<QueryOperator, ':'>, Exclude<QueryOperator, ':'>> = {
+  '>': '<=',
+  '>=': '<',
+  '<': '>=',
+  '<=': '>',
+};
+
+const NUMBER_CONDITIONS = {
+  '>': 'greaterThan',
+  '>=': 'greaterThanOrEqual',
+  '<': 'lessThan',
+  '<=': 'lessThanOrEqual',
+} as const;
+
+/**
+ * The column filter a term stands for, or the reason it can't be one
+ */
+const toCondition = (term: QueryTerm & { field: QueryField; operator: QueryOperator }): ColumnFilterModel | string => {
+  const { field, value, negated } = term;
+  const operator = negated && term.operator !== ':' ? NEGATED[term.operator] : term.operator;
+  const isRange = operator === ':' && value.includes('..');
+
+  if (field.type === 'text') {
+    if (operator !== ':') {
+      return `${field.name} is text; write ${field.name}:${value} to match it`;
+    }
+    return { filterType: 'text', type: negated ? 'notContains' : 'contains', filter: value };
+  }
+
+  if (negated && isRange) {
+    return 'A range can\'t be negated; compare each end instead';
+  }
+
+  if (field.type === 'number') {
+    const toNumber = (text: string) => (/^-?\d+(\.\d+)?$/.test(text) ? Number(text) : null);
+    if (isRange) {
+      const [fromText, toText] = value.split('..');
+      const from = fromText ? toNumber(fromText) : null;
+      const to = toText ? toNumber(toText) : null;
+      if ((fromText && from === null) || (toText && to === null)) {
+        return `${field.name} needs a number range, e.g. ${field.name}:30..60`;
+      }
+      if (from !== null) {
+        return to !== null
+          ? { filterType: 'number', type: 'inRange', filter: from, filterTo: to }
+          : { filterType: 'number', type: 'greaterThanOrEqual', filter: from };
+      }
+      if (to !== null) {
+        return { filterType: 'number', type: 'lessThanOrEqual', filter: to };
+      }
+      return `${field.name} needs a number range, e.g. ${field.name}:30..60`;
+    }
+    const number = toNumber(value);
+    if (number === null) {
+      return `${field.name} needs a number, e.g. ${field.name}>45`;
+    }
+    if (operator === ':') {
+      return { filterType: 'number', type: negated ? 'notEqual' : 'equals', filter: number };
+    }
+    return { filterType: 'number', type: NUMBER_CONDITIONS[operator], filter: number };
+  }
+
+  // Dates: the grid's date filter compares whole days and has no "or equal"
+  // comparisons, so those become the day before or after
+  const dateHint = `${field.name} needs a date like 2024-03-15, 2024-03 or 2024, or a range like 2024-03..2024-04`;
+  if (isRange) {
+    const [fromText, toText] = value.split('..');
+    const from = fromText ? dayRange(fromText) : null;
+    const to = toText ? dayRange(toText) : null;
+    if ((fromText && !from) || (toText && !to)) {
+      return dateHint;
+    }
+    if (from) {
+      return to
+        ? { filterType: 'date', type: 'inRange', dateFrom: atMidnight(from.first), dateTo: atMidnight(to.last) }
+        : { filterType: 'date', type: 'greaterThan', dateFrom: atMidnight(shiftDay(from.first, -1)), dateTo: null };
+    }
+    if (to) {
+      return { filterType: 'date', type: 'lessThan', dateFrom: atMidnight(shiftDay(to.last, 1)), dateTo: null };
+    }
+    return dateHint;
+  }
+  const range = dayRange(value);
+  if (!range) {
+    return dateHint;
+  }
+  switch (operator) {
+    case ':':
+      if (range.first !== range.last) {
+        return negated
+          ? 'Only a single day can be negated, e.g. -date:2024-03-15'
+          : { filterType: 'date', type: 'inRange', dateFrom: atMidnight(range.first), dateTo: atMidnight(range.last) };
+      }
+      return { filterType: 'date', type: negated ? 'notEqual' : 'equals', dateFrom: atMidnight(range.first), dateTo: null };
+    case '>':
+      return { filterType: 'date', type: 'greaterThan', dateFrom: atMidnight(range.last), dateTo: null };
+    case '>=':
+      return { filterType: 'date', type: 'greaterThan', dateFrom: atMidnight(shiftDay(range.first, -1)), dateTo: null };
+    case '<':
+      return { filterType: 'date', type: 'lessThan', dateFrom: atMidnight(range.first), dateTo: null };
+    case '<=':
+      return { filterType: 'date', type: 'lessThan', dateFrom: atMidnight(shiftDay(range.last, 1)), dateTo: null };
+  }
+};
+
+/**
+ * Parse a query into terms, the column filters they compile to and the free
+ * text left over. Errors point at the terms they are about.
+ */
+export const parseQuery = (text: string, fields: QueryField[]): ParsedQuery => {
+  const terms: QueryTerm[] = [];
+  const errors: QueryError[] = [];
+  const filterModel: FilterModel = {};
+  const freeText: string[] = [];
+
+  tokenize(text).forEach(({ start, end, raw }) => {
+    const fail = (message: string) => errors.push({ start, end, message });
+    if ((raw.match(/"/g) ?? []).length % 2 !== 0) {
+      fail('Missing closing quote');
+      return;
+    }
+
+    const match = raw.match(TERM_PATTERN);
+    if (!match) {
+      if (raw.startsWith('-') && raw.length > 1) {
+        fail(`Only fields can be negated, e.g. -${fields[0]?.name ?? 'field'}:value`);
+        return;
+      }
+      terms.push({ start, end, raw, negated: false, value: unquote(raw) });
+      freeText.push(unquote(raw));
+      return;
+    }
+
+    const [, minus, name, operator, rawValue] = match;
+    const field = findField(fields, name);
+    if (!field) {
+      fail(`Unknown field "${name}". Try ${fields.map(known => known.name).join(', ')}`);
+      return;
+    }
+    const value = unquote(rawValue).trim();
+    if (!value) {
+      fail(`Missing value after ${name}${operator}`);
+      return;
+    }
+    const term = { start, end, raw, negated: minus === '-', field, operator: operator as QueryOperator, value };
+    terms.push(term);
+
+    const condition = toCondition(term);
+    if (typeof condition === 'string') {
+      fail(condition);
+    } else if (filterModel[field.column]) {
+      fail(`${field.name} is already filtered; use one condition per field, or a range like ${field.name}:a..b`);
+    } else {
+      filterModel[field.column] = condition;
+    }
+  });
+
+  return { terms, filterModel, search: freeText.join(' '), errors };
+};
+
+/**
+ * Query text for a column filter, the inverse of parsing a term
+ */
+const conditionToTerm = (field: QueryField, model: ColumnFilterModel): string | null => {
+  const name = field.name;
+  if (model.filterType === 'text') {
+    const value = quoteIfNeeded(String(model.filter ?? ''));
+    return model.type === 'notContains' ? `-${name}:${value}` : `${name}:${value}`;
+  }
+  const isDate = model.filterType === 'date';
+  const from = isDate ? model.dateFrom?.slice(0, 10) : model.filter;
+  const to = isDate ? model.dateTo?.slice(0, 10) : model.filterTo;
+  if (from === undefined || from === null || from === '') {
+    return null;
+  }
+  switch (model.type) {
+    case 'equals': return `${name}:${from}`;
+    case 'notEqual': return `-${name}:${from}`;
+    case 'greaterThan': return `${name}>${from}`;
+    case 'greaterThanOrEqual': return `${name}>=${from}`;
+    case 'lessThan': return `${name}<${from}`;
+    case 'lessThanOrEqual': return `${name}<=${from}`;
+    case 'inRange': {
+      if (!isDate) return `${name}:${from}..${to ?? ''}`;
+      // Whole months read back as months, like they are usually written
+      const first = dayjs(String(from));
+      const last = dayjs(String(to));
+      const wholeMonths = first.date() === 1 && last.isSame(last.endOf('month'), 'day');
+      if (wholeMonths && first.isSame(last, 'month')) return `${name}:${first.format('YYYY-MM')}`;
+      if (wholeMonths) return `${name}:${first.format('YYYY-MM')}..${last.format('YYYY-MM')}`;
+      return `${name}:${from}..${to ?? ''}`;
+    }
+    default: return null;
+  }
+};
+
+/**
+ * Rewrite a query for a filter model changed from the grid's column menus,
+ * keeping the query's free text
+ */
+export const queryFromFilterModel = (filterModel: FilterModel, fields: QueryField[], search: string): string => {
+  const filterTerms = Object.entries(filterModel).flatMap(([column, model]) => {
+    const field = fields.find(known => known.column === column);
+    const term = field ? conditionToTerm(field, model) : null;
+    return term ? [term] : [];
+  });
+  const searchTerms = tokenize(search).map(({ raw }) => quoteIfNeeded(raw));
+  return [...filterTerms, ...searchTerms].join(' ');
+};
+
+/**
+ * Completions for the term under the caret: field names while one is being
+ * typed, then known values of that field
+ */
+export const suggestQuery = (
+  text: string,
+  caret: number,
+  fields: QueryField[],
+  valuesOf: (field: QueryField) => string[]
+): QuerySuggestion[] => {
+  const token = tokenize(text).find(({ start, end }) => start <= caret && caret <= end)
+    ?? { start: caret, end: caret, raw: '' };
+  const typed = text.slice(token.start, caret);
+  const replace = (replacement: string, addSpace: boolean) => {
+    const before = text.slice(0, token.start);
+    const after = text.slice(token.end);
+    const inserted = addSpace && !after.startsWith(' ') ? `${replacement} ` : replacement;
+    return { text: before + inserted + after, caret: before.length + inserted.length };
+  };
+
+  const match = typed.match(TERM_PATTERN);
+  if (match) {
+    const [, minus, name, operator, partial] = match;
+    const field = findField(fields, name);
+    if (!field || operator !== ':') {
+      return [];
+    }
+    const wanted = unquote(partial).toLowerCase();
+    return Array.from(new Set(valuesOf(field).filter(Boolean)))
+      .filter(value => value.toLowerCase().includes(wanted) && value.toLowerCase() !== wanted)
+      .sort((a, b) => Number(!a.toLowerCase().startsWith(wanted)) - Number(!b.toLowerCase().startsWith(wanted)) || a.localeCompare(b))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(value => ({ label: value, ...replace(`${minus}${field.name}:${quoteIfNeeded(value)}`, true) }));
+  }
+
+  if (/["\s]/.test(typed)) {
+    return [];
+  }
+  const minus = typed.startsWith('-') ? '-' : '';
+  const wanted = typed.slice(minus.length).toLowerCase();
+  return fields
+    .filter(field => field.name.toLowerCase().startsWith(wanted) && field.name.toLowerCase() !== wanted)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(field => ({ label: `${minus}${field.name}:`, ...replace(`${minus}${field.name}:`, false) }));
+};
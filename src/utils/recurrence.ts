@@ -0,0 +1,86 @@
+import dayjs, { Dayjs } from 'dayjs';
+import { Training } from '../types';
+
+export type RecurrenceFrequency = 'daily' | 'weekly';
+
+/**
+ * How a training repeats. Every session keeps the time of day of the first.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Weeks between repeats of a weekly series, 2 for every other week
+  interval: number;
+  // Days of a weekly series, in dayjs numbering where 0 is Sunday
+  weekdays: number[];
+  // After this many sessions, or on the last day (YYYY-MM-DD) inclusive
+  end: { type: 'count'; count: number } | { type: 'until'; until: string };
+  // Days (YYYY-MM-DD) left out; they don't count towards the number of sessions
+  skipDates: string[];
+}
+
+// Keeps a mistyped end date from creating years of sessions
+export const MAX_OCCURRENCES = 100;
+
+export const defaultRecurrence = (start: Dayjs): RecurrenceRule => ({
+  frequency: 'weekly',
+  interval: 1,
+  weekdays: [start.day()],
+  end: { type: 'count', count: 10 },
+  skipDates: [],
+});
+
+export interface Occurrences {
+  dates: Dayjs[];
+  // More sessions would follow, but the series stops at MAX_OCCURRENCES
+  truncated: boolean;
+}
+
+/**
+ * The session dates of a series, starting with the first matching day on or
+ * after `start`. Weekly series count their weeks from the Monday of the
+ * start's week.
+ */
+export const expandRecurrence = (start: Dayjs, rule: RecurrenceRule): Occurrences => {
+  const dates: Dayjs[] = [];
+  const skip = new Set(rule.skipDates);
+  const wanted = rule.end.type === 'count' ? rule.end.count : Infinity;
+  const lastDay = rule.end.type === 'until' ? dayjs(rule.end.until).endOf('day') : null;
+  const firstMonday = start.startOf('day').subtract((start.day() + 6) % 7, 'day');
+  const interval = Math.max(1, Math.floor(rule.interval));
+
+  if (rule.frequency === 'weekly' && rule.weekdays.length === 0) {
+    return { dates, truncated: false };
+  }
+
+  // Skipped days can't push a series further than this
+  const maxDays = (MAX_OCCURRENCES + rule.skipDates.length + 1) * 7 * interval;
+  for (let offset = 0; offset <= maxDays && dates.length < wanted; offset++) {
+    const day = start.startOf('day').add(offset, 'day');
+    if (lastDay && day.isAfter(lastDay)) {
+      break;
+    }
+    const weekIndex = Math.floor(day.diff(firstMonday, 'day') / 7);
+    const matches = rule.frequency === 'daily' ||
+      (weekIndex % interval === 0 && rule.weekdays.includes(day.day()));
+    const date = day.hour(start.hour()).minute(start.minute()).second(0).millisecond(0);
+    if (!matches || skip.has(day.format('YYYY-MM-DD')) || date.isBefore(start.second(0).millisecond(0))) {
+      continue;
+    }
+    if (dates.length === MAX_OCCURRENCES) {
+      return { dates, truncated: true };
+    }
+    dates.push(date);
+  }
+  return { dates, truncated: false };
+};
+
+/**
+ * Trainings already booked that overlap a session of `duration` minutes at `date`
+ */
+export const findClashes = (date: Dayjs, duration: number, trainings: Training[]): Training[] => {
+  const end = date.add(duration, 'minute');
+  return trainings.filter(training => {
+    const otherStart = dayjs(training.date);
+    return otherStart.isBefore(end) && date.isBefore(otherStart.add(training.duration, 'minute'));
+  });
+};
@@ -0,0 +1,60 @@
+/**
+ * Rich-text-lite for notes: **bold**, *italic*, bare http(s) links, lines
+ * starting with "- " as bullet lists, and blank lines between paragraphs.
+ * Parsed into plain data so nothing typed is ever rendered as HTML.
+ */
+export interface RichInline {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  href?: string;
+}
+
+export type RichBlock =
+  | { type: 'paragraph'; lines: RichInline[][] }
+  | { type: 'list'; items: RichInline[][] };
+
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(.+?)\*|(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/g;
+
+export const parseInline = (line: string): RichInline[] => {
+  const inlines: RichInline[] = [];
+  let position = 0;
+  for (const match of line.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > position) {
+      inlines.push({ text: line.slice(position, index) });
+    }
+    const [, bold, italic, href] = match;
+    if (bold !== undefined) inlines.push({ text: bold, bold: true });
+    else if (italic !== undefined) inlines.push({ text: italic, italic: true });
+    else inlines.push({ text: href, href });
+    position = index + match[0].length;
+  }
+  if (position < line.length) {
+    inlines.push({ text: line.slice(position) });
+  }
+  return inlines;
+};
+
+const BULLET_PATTERN = /^\s*[-•]\s+/;
+
+export const parseRichText = (text: string): RichBlock[] => {
+  const blocks: RichBlock[] = [];
+  text.split('\n').forEach(line => {
+    const last = blocks[blocks.length - 1];
+    if (line.trim() === '') {
+      // A blank line ends the current block
+      if (last) blocks.push({ type: 'paragraph', lines: [] });
+      return;
+    }
+    if (BULLET_PATTERN.test(line)) {
+      const item = parseInline(line.replace(BULLET_PATTERN, ''));
+      if (last?.type === 'list') last.items.push(item);
+      else blocks.push({ type: 'list', items: [item] });
+      return;
+    }
+    if (last?.type === 'paragraph') last.lines.push(parseInline(line));
+    else blocks.push({ type: 'paragraph', lines: [parseInline(line)] });
+  });
+  return blocks.filter(block => (block.type === 'list' ? block.items.length > 0 : block.lines.length > 0));
+};
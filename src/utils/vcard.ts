@@ -0,0 +1,235 @@
+import { Customer, CustomerInput } from '../types';
+import { toE164 } from './customerValidation';
+
+/**
+ * vCard (.vcf) reading and writing for customers. Writes 4.0 (RFC 6350) or
+ * 3.0 (RFC 2426), the version older phones and Outlook still expect. Reads
+ * 2.1, 3.0 and 4.0, including the quoted-printable values 2.1 exports use.
+ */
+export type VCardVersion = '4.0' | '3.0';
+
+// A contact read from a file, with the line its BEGIN:VCARD is on
+export interface VCardEntry {
+  line: number;
+  input: CustomerInput;
+}
+
+// Content lines are folded at 75 octets, continuing after a space
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to their leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toCard = (customer: CustomerInput, version: VCardVersion): string => {
+  const modern = version === '4.0';
+  const lines = [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    `FN:${escapeText(`${customer.firstname} ${customer.lastname}`.trim())}`,
+    `N:${escapeText(customer.lastname)};${escapeText(customer.firstname)};;;`,
+  ];
+  if (customer.email) {
+    lines.push(`EMAIL;TYPE=${modern ? 'home' : 'INTERNET'}:${escapeText(customer.email)}`);
+  }
+  if (customer.phone) {
+    // 4.0 prefers phone numbers as tel: URIs, which can't contain spaces
+    lines.push(modern
+      ? `TEL;VALUE=uri;TYPE=cell:tel:${toE164(customer.phone) ?? customer.phone.replace(/\s+/g, '')}`
+      : `TEL;TYPE=CELL:${escapeText(customer.phone)}`);
+  }
+  if (customer.streetaddress || customer.postcode || customer.city) {
+    // Post office box; extended address; street; locality; region; postal code; country
+    const address = ['', '', customer.streetaddress, customer.city, '', customer.postcode, ''].map(escapeText).join(';');
+    lines.push(`ADR;TYPE=${modern ? 'home' : 'HOME'}:${address}`);
+  }
+  lines.push('END:VCARD');
+  return lines.map(foldLine).join('\r\n');
+};
+
+/**
+ * One .vcf file holding a card per customer
+ */
+export const toVCards = (customers: (Customer | CustomerInput)[], version: VCardVersion): string =>
+  customers.map(customer => toCard(customer, version)).join('\r\n') + '\r\n';
+
+interface ContentLine {
+  line: number;
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+const decodeQuotedPrintable = (value: string): string => {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const hex = value.slice(i + 1, i + 3);
+    if (value[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...encoder.encode(value[i]));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+const isQuotedPrintable = (line: string): boolean => /^[^:]*;ENCODING=QUOTED-PRINTABLE[;:]/i.test(line);
+
+/**
+ * Unfold and split the file into properties. Parameter names and bare 2.1
+ * types (TEL;CELL:) are lowercased; values are left undecoded.
+ */
+const readContentLines = (text: string): ContentLine[] => {
+  const physical = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const logical: { line: number; text: string }[] = [];
+  physical.forEach((rawLine, index) => {
+    const previous = logical[logical.length - 1];
+    if (previous && /^[ \t]/.test(rawLine)) {
+      previous.text += rawLine.slice(1);
+    } else if (previous && isQuotedPrintable(previous.text) && previous.text.endsWith('=')) {
+      // Soft line break of a quoted-printable value
+      previous.text = previous.text.slice(0, -1) + rawLine;
+    } else if (rawLine.trim() !== '') {
+      logical.push({ line: index + 1, text: rawLine });
+    }
+  });
+
+  return logical.flatMap(({ line, text: content }) => {
+    // Parameter values may be quoted and contain colons
+    const match = content.match(/^((?:[^:"]|"[^"]*")*):(.*)$/);
+    if (!match) {
+      return [];
+    }
+    const [nameWithGroup, ...paramParts] = match[1].split(';');
+    const name = nameWithGroup.replace(/^.*\./, '').toUpperCase();
+    const params: Record<string, string[]> = {};
+    paramParts.forEach(part => {
+      const equals = part.indexOf('=');
+      const key = equals === -1 ? 'type' : part.slice(0, equals).toLowerCase();
+      const values = part.slice(equals + 1).replace(/"/g, '').split(',').map(value => value.trim().toLowerCase());
+      params[key] = [...(params[key] ?? []), ...values];
+    });
+    const value = params.encoding?.includes('quoted-printable') ? decodeQuotedPrintable(match[2]) : match[2];
+    return [{ line, name, params, value }];
+  });
+};
+
+// Split a structured value on the semicolons that aren't escaped, then unescape each part
+const splitComponents = (value: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      const next = value[i + 1];
+      current += next === 'n' || next === 'N' ? '\n' : next;
+      i++;
+    } else if (value[i] === ';') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+const unescapeText = (value: string): string => splitComponents(value).join(';');
+
+const hasType = (property: ContentLine, ...types: string[]) =>
+  (property.params.type ?? []).some(type => types.includes(type));
+
+const isPreferred = (property: ContentLine) => hasType(property, 'pref') || property.params.pref !== undefined;
+
+// The property of the wanted kind, else a preferred one, else the first
+const pick = (properties: ContentLine[], ...types: string[]): ContentLine | undefined =>
+  properties.find(property => hasType(property, ...types)) ??
+  properties.find(isPreferred) ??
+  properties[0];
+
+const toInput = (properties: ContentLine[]): CustomerInput => {
+  const named = (name: string) => properties.filter(property => property.name === name);
+
+  let firstname = '';
+  let lastname = '';
+  const [n] = named('N');
+  if (n) {
+    const [family = '', given = ''] = splitComponents(n.value);
+    lastname = family.trim();
+    firstname = given.trim();
+  }
+  const [fn] = named('FN');
+  if (!firstname && !lastname && fn) {
+    // Without a structured name, the last word of the full name is taken as the last name
+    const words = unescapeText(fn.value).trim().split(/\s+/);
+    lastname = words.length > 1 ? words.pop() ?? '' : '';
+    firstname = words.join(' ');
+  }
+
+  const email = pick(named('EMAIL'));
+  const tel = pick(named('TEL'), 'cell', 'mobile');
+  const adr = pick(named('ADR'), 'home');
+  const [, , street = '', city = '', , postcode = ''] = adr ? splitComponents(adr.value) : [];
+
+  return {
+    firstname,
+    lastname,
+    streetaddress: street.split('\n').map(part => part.trim()).filter(Boolean).join(', '),
+    postcode: postcode.trim(),
+    city: city.trim(),
+    email: email ? unescapeText(email.value).trim() : '',
+    phone: tel ? unescapeText(tel.value).replace(/^tel:/i, '').trim() : '',
+  };
+};
+
+/**
+ * Every card in a .vcf file as customer fields. Cards missing an END line
+ * are still read up to the next BEGIN or the end of the file.
+ */
+export const parseVCards = (text: string): VCardEntry[] => {
+  const entries: VCardEntry[] = [];
+  let card: { line: number; properties: ContentLine[] } | null = null;
+  const finish = () => {
+    if (card) {
+      entries.push({ line: card.line, input: toInput(card.properties) });
+      card = null;
+    }
+  };
+
+  readContentLines(text).forEach(property => {
+    if (property.name === 'BEGIN' && property.value.trim().toUpperCase() === 'VCARD') {
+      finish();
+      card = { line: property.line, properties: [] };
+    } else if (property.name === 'END' && property.value.trim().toUpperCase() === 'VCARD') {
+      finish();
+    } else {
+      card?.properties.push(property);
+    }
+  });
+  finish();
+  return entries;
+};
+
+export const looksLikeVCard = (text: string): boolean => /^\uFEFF?\s*BEGIN:VCARD/i.test(text);